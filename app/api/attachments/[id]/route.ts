@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, unauthorized } from '@/lib/apiResponse';
+import { getAttachmentStore } from '@/lib/attachments';
+import { log, withRequestLogging } from '@/lib/observability';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET Handler
+ * Serves one of the signed-in user's attachments. Images and PDFs open inline, everything else downloads.
+ */
+export const GET = withRequestLogging('/api/attachments/[id]', async (request: NextRequest, { params }: RouteContext) => {
+    const { id } = await params;
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    try {
+        const attachment = await getAttachmentStore().get(user.id, id);
+        if (!attachment) {
+            return apiError('not_found', "Attachment not found.", 404);
+        }
+
+        const { meta, bytes } = attachment;
+        const inline = meta.mimeType.startsWith('image/') || meta.mimeType === 'application/pdf';
+
+        return new NextResponse(new Uint8Array(bytes), {
+            status: 200,
+            headers: {
+                'Content-Type': meta.mimeType,
+                'Content-Length': String(meta.size),
+                'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(meta.name)}`,
+                // Ids are content hashes, so the bytes behind a URL never change
+                'Cache-Control': 'private, max-age=31536000, immutable',
+                'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+                'X-Content-Type-Options': 'nosniff',
+            },
+        });
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to load attachment.";
+        log.error("Attachment Serve Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, readBodyLimited, unauthorized } from '@/lib/apiResponse';
+import {
+    AttachmentErrorCode, AttachmentRef, MAX_ATTACHMENT_BYTES,
+    formatBytes, resolveAttachmentMimeType, verifyAttachmentContent,
+} from '@/lib/attachmentApi';
+import { getAttachmentStore, toAttachmentRef } from '@/lib/attachments';
+import { log, withRequestLogging } from '@/lib/observability';
+
+const attachmentError = (code: AttachmentErrorCode, message: string, status: number) => apiError(code, message, status);
+
+/**
+ * POST Handler
+ * Uploads a chat attachment (`multipart/form-data`, field `file`). The contract is documented in lib/attachmentApi.ts.
+ */
+export const POST = withRequestLogging('/api/attachments', async (request: NextRequest) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    try {
+        // The body is counted as it arrives, so an oversized upload is cut off before it is buffered or parsed
+        // (multipart framing adds a little on top of the file)
+        const body = await readBodyLimited(request, MAX_ATTACHMENT_BYTES + 64 * 1024);
+        if (!body) {
+            return attachmentError('payload_too_large', `Attachments are limited to ${formatBytes(MAX_ATTACHMENT_BYTES)}.`, 413);
+        }
+        const multipart = new Response(new Uint8Array(body), { headers: { 'Content-Type': request.headers.get('content-type') || '' } });
+        const form = await multipart.formData().catch(() => null);
+        const file = form?.get('file');
+        if (!file || typeof file === 'string') {
+            return attachmentError('invalid_request', 'Expected a multipart form with a "file" field.', 400);
+        }
+
+        const mimeType = resolveAttachmentMimeType(file.name, file.type);
+        if (!mimeType) {
+            return attachmentError('unsupported_type', `Unsupported file type "${file.type || file.name}".`, 415);
+        }
+        if (file.size === 0) {
+            return attachmentError('invalid_request', 'The file is empty.', 400);
+        }
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+            return attachmentError('payload_too_large', `Attachments are limited to ${formatBytes(MAX_ATTACHMENT_BYTES)}.`, 413);
+        }
+
+        const bytes = Buffer.from(await file.arrayBuffer());
+        const contentType = verifyAttachmentContent(mimeType, bytes);
+        if (!contentType) {
+            return attachmentError('unsupported_type', `The file's content is not a valid ${mimeType} file.`, 415);
+        }
+
+        const meta = await getAttachmentStore().save(user.id, file.name || 'attachment', contentType, bytes);
+        return NextResponse.json<AttachmentRef>(toAttachmentRef(meta), { status: 201 });
+
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to store attachment.";
+        log.error("Attachment Upload Error", { error: errorMsg });
+        return attachmentError('internal_error', errorMsg, 500);
+    }
+});
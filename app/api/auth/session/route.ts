@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError } from '@/lib/apiResponse';
+import { withRequestLogging } from '@/lib/observability';
+
+/**
+ * GET Handler
+ * Returns the signed-in user (`{ user: { id, name } }`), or 401 when there is no valid session.
+ */
+export const GET = withRequestLogging('/api/auth/session', async (request: NextRequest) => {
+    const user = await getSessionUser(request);
+
+    if (!user) {
+        return apiError('unauthorized', "Not signed in.", 401);
+    }
+    return NextResponse.json({ user });
+});
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, readJsonBody } from '@/lib/apiResponse';
+import { SESSION_COOKIE, authenticate, createSessionToken, getSessionTtlSeconds, sessionCookieOptions } from '@/lib/auth';
+import { log, withRequestLogging } from '@/lib/observability';
+import { getClientIp } from '@/lib/security';
+import { checkSignIn, limitExceededResponse, recordSignInFailure } from '@/lib/usage';
+
+// A username and a password
+const MAX_SIGNIN_BODY_BYTES = 4 * 1024;
+
+/**
+ * POST Handler
+ * Checks `{ username, password }` against the local credential store and sets the signed session cookie.
+ * Repeated failures from one client IP or for one username are throttled with 429 (lib/usage).
+ */
+export const POST = withRequestLogging('/api/auth/signin', async (request: NextRequest) => {
+    try {
+        const body = await readJsonBody(request, MAX_SIGNIN_BODY_BYTES);
+        if (!body.ok) return body.response;
+        const { username, password } = (body.body && typeof body.body === 'object' ? body.body : {}) as Record<string, unknown>;
+
+        if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+            return apiError('invalid_request', "Username and password are required.", 400);
+        }
+
+        const ip = getClientIp(request);
+        const check = checkSignIn(ip, username);
+        if (!check.allowed) return limitExceededResponse(check);
+
+        const user = await authenticate(username, password);
+        if (!user) {
+            recordSignInFailure(ip, username);
+            return apiError('invalid_credentials', "Invalid username or password.", 401);
+        }
+
+        const response = NextResponse.json({ user });
+        response.cookies.set(SESSION_COOKIE, await createSessionToken(user), sessionCookieOptions(getSessionTtlSeconds()));
+        return response;
+
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Internal server error during sign-in.";
+        log.error("Sign-in Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth/session';
+import { withRequestLogging } from '@/lib/observability';
+
+/**
+ * POST Handler
+ * Clears the session cookie.
+ */
+export const POST = withRequestLogging('/api/auth/signout', async () => {
+    const response = new NextResponse(null, { status: 204 });
+    response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0));
+    return response;
+});
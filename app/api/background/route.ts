@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, clientClosedRequest, providerErrorResponse, readJsonBody, unauthorized } from '@/lib/apiResponse';
+import { buildBackgroundRequest, describeScene, getBackgroundMinIntervalSeconds } from '@/lib/background';
+import {
+    BackgroundResponse, BackgroundSkipReason, ConversationBackground, MAX_BACKGROUND_BODY_BYTES, parseBackgroundRequest,
+} from '@/lib/backgroundApi';
+import { getConversationStore } from '@/lib/conversations';
+import { generateImages } from '@/lib/images/generate';
+import { ProviderError, getChatProvider, getImageProvider } from '@/lib/providers';
+import { checkAndConsume, checkLimit, limitExceededResponse, recordTokens } from '@/lib/usage';
+import { log, withRequestLogging } from '@/lib/observability';
+
+/**
+ * POST Handler
+ * Picks a scene for the conversation's background with the chat model and generates it with the image
+ * provider in the requested style. The contract (including when a request is skipped) is documented in
+ * lib/backgroundApi.ts.
+ */
+export const POST = withRequestLogging('/api/background', async (request: NextRequest) => {
+    const chatProvider = getChatProvider();
+    const imageProvider = getImageProvider();
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    if (imageProvider.id === 'off') {
+        return apiError('not_configured', 'Image generation is disabled on this server (IMAGE_PROVIDER=off).', 503);
+    }
+    if (!chatProvider.isConfigured() || !imageProvider.isConfigured()) {
+        const missing = !chatProvider.isConfigured() ? `"${chatProvider.id}" chat` : `"${imageProvider.id}" image`;
+        return apiError('not_configured', `API Key not configured for the ${missing} provider.`, 500);
+    }
+
+    const body = await readJsonBody(request, MAX_BACKGROUND_BODY_BYTES);
+    if (!body.ok) return body.response;
+
+    const parsed = parseBackgroundRequest(body.body);
+    if (!parsed.ok) {
+        return apiError('invalid_request', parsed.message, 400, parsed.details);
+    }
+    const { conversationId, style, messages, force } = parsed.request;
+
+    try {
+        const conversations = getConversationStore();
+        const conversation = conversationId ? await conversations.get(user.id, conversationId) : null;
+        if (conversationId && !conversation) {
+            return apiError('not_found', 'Conversation not found.', 404);
+        }
+
+        const existing: ConversationBackground = conversation?.background || {};
+        const skip = (skipped: BackgroundSkipReason) =>
+            NextResponse.json<BackgroundResponse>({ generated: false, skipped, background: existing });
+
+        // Debouncing: automatic requests leave pinned and recent backgrounds alone
+        if (!force && existing.pinned) return skip('pinned');
+        const sinceLast = existing.current ? (Date.now() - Date.parse(existing.current.createdAt)) / 1000 : Infinity;
+        if (!force && sinceLast < getBackgroundMinIntervalSeconds()) return skip('too_soon');
+
+        // Limits are checked before the chat model is paid for the scene: the image must be allowed, and the
+        // scene itself counts as a chat request
+        const imageCheck = await checkLimit(user.id, 'image');
+        if (!imageCheck.allowed) return limitExceededResponse(imageCheck);
+        const chatCheck = await checkAndConsume(user.id, 'chat');
+        if (!chatCheck.allowed) return limitExceededResponse(chatCheck);
+
+        const onUsage = (usage: { totalTokens: number }) => { recordTokens(user.id, usage.totalTokens).catch(() => {}); };
+        const scene = await describeScene(chatProvider, messages, force ? undefined : existing.current?.topic, onUsage, request.signal);
+        if (!scene) return skip('same_topic');
+
+        const result = await generateImages(user.id, imageProvider, buildBackgroundRequest(style, scene), request.signal);
+        if (!result.ok) {
+            return limitExceededResponse(result.limit);
+        }
+
+        const background: ConversationBackground = {
+            current: { url: result.response.images[0].url, topic: scene, style, createdAt: new Date().toISOString() },
+            ...(existing.current ? { previous: existing.current } : {}),
+            // "Regenerate" replaces a pinned background with a fresh, unpinned one
+            pinned: false,
+        };
+        if (conversation) {
+            await conversations.update(user.id, conversation.id, { background });
+        }
+        return NextResponse.json<BackgroundResponse>({ generated: true, background });
+
+    } catch (e: unknown) {
+        if (request.signal.aborted) return clientClosedRequest();
+        if (e instanceof ProviderError) {
+            log.error("Background Provider Error", { status: e.status, error: e.message });
+            return providerErrorResponse(e);
+        }
+        const errorMsg = e instanceof Error ? e.message : "Internal server error during background generation.";
+        log.error("Background API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
@@ -1,76 +1,209 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ProviderError, chatModelId, getChatProvider, getCompareModels } from '@/lib/providers';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, clientClosedRequest, providerErrorResponse, readJsonBody, unauthorized } from '@/lib/apiResponse';
+import { AttachmentErrorCode, MAX_REQUEST_ATTACHMENT_BYTES, formatBytes } from '@/lib/attachmentApi';
+import { getAttachmentStore } from '@/lib/attachments';
+import { ChatApiStreamEvent, ChatContextInfo, ChatRequestMessage, MAX_CHAT_BODY_BYTES, parseChatRequest } from '@/lib/chatApi';
+import { ContextMessage, prepareContext } from '@/lib/context';
+import { getConversationStore } from '@/lib/conversations';
+import { resolveGrounding } from '@/lib/grounding';
+import { getPersona } from '@/lib/personas';
+import { formatSseEvent } from '@/lib/sse';
+import { chatWithTools, getEnabledTools, streamChatWithTools } from '@/lib/tools';
+import { checkAndConsume, limitExceededResponse, recordTokens } from '@/lib/usage';
+import { log, recordGrounding, redactSecrets, withRequestLogging } from '@/lib/observability';
 
-// Interface definitions for clarity (not strictly needed in runtime, but good practice)
-interface ChatMessagePart { text: string }
-interface ChatMessage { role: 'user' | 'model'; parts: ChatMessagePart[] }
-interface GeminiPayload { contents: ChatMessage[] }
+class AttachmentError extends Error {
+    constructor(message: string, public code: AttachmentErrorCode, public status: number) {
+        super(message);
+    }
+}
 
 /**
- * GET Handler
- * Used by the client component (ChatClient.tsx) to quickly check if the GEMINI_API_KEY is configured.
- * This replaces the previous HEAD request to resolve the 405 Method Not Allowed error.
- * * Returns 200 OK if the key is found, or 500 if it is missing.
+ * Replaces attachment ids with the stored files as inline data. Only the user's own uploads resolve,
+ * and their combined size must fit in a single upstream request.
  */
-export async function GET(request: NextRequest) {
-    const apiKey = process.env.GEMINI_API_KEY;
-
-    if (!apiKey) {
-        // Return a 500 Internal Server Error, as a missing critical environment
-        // variable is a server misconfiguration error, informing the client the key is missing.
-        return NextResponse.json({ 
-            error: "API Key not configured on the server. Please set the GEMINI_API_KEY environment variable." 
-        }, { status: 500 }); 
-    }
+async function resolveAttachments(ownerId: string, messages: ChatRequestMessage[]): Promise<ContextMessage[]> {
+    const store = getAttachmentStore();
+    let totalBytes = 0;
+
+    return Promise.all(messages.map(async ({ attachmentIds, ...message }) => {
+        if (!attachmentIds?.length) return message;
 
-    // Key exists, return 200 OK.
-    return new NextResponse(null, { status: 200 });
+        const attachments = await Promise.all(attachmentIds.map(async id => {
+            const attachment = await store.get(ownerId, id);
+            if (!attachment) throw new AttachmentError(`Attachment "${id}" not found.`, 'invalid_request', 400);
+            totalBytes += attachment.meta.size;
+            if (totalBytes > MAX_REQUEST_ATTACHMENT_BYTES) {
+                throw new AttachmentError(`Attachments in this conversation exceed ${formatBytes(MAX_REQUEST_ATTACHMENT_BYTES)}.`, 'payload_too_large', 413);
+            }
+            return { mimeType: attachment.meta.mimeType, data: attachment.bytes.toString('base64'), name: attachment.meta.name };
+        }));
+        return { ...message, attachments };
+    }));
+}
+
+/**
+ * Wraps the reply's event stream as an SSE body.
+ * If the upstream connection fails mid-stream, a final `event: error` frame is emitted
+ * so the client can mark the partially rendered message as failed instead of hanging.
+ */
+function toSseStream(
+    events: AsyncIterator<ChatApiStreamEvent>,
+    onDone: (event: Extract<ChatApiStreamEvent, { type: 'done' }>) => ChatApiStreamEvent,
+    signal: AbortSignal,
+): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { done, value } = await events.next();
+                if (done) {
+                    controller.close();
+                    return;
+                }
+                const event: ChatApiStreamEvent = value.type === 'done' ? onDone(value)
+                    : value.type === 'error' ? { type: 'error', error: { message: redactSecrets(value.error.message) } }
+                    : value;
+                controller.enqueue(encoder.encode(formatSseEvent(event.type, event)));
+            } catch (e: unknown) {
+                // Stopped by the client: the provider call was aborted on purpose and nobody is listening
+                if (signal.aborted) return;
+                const errorMsg = e instanceof Error ? e.message : 'Upstream stream interrupted.';
+                log.error("Chat Stream Error", { error: errorMsg });
+                controller.enqueue(encoder.encode(formatSseEvent('error', { type: 'error', error: { message: redactSecrets(errorMsg) } })));
+                controller.close();
+            }
+        },
+        async cancel() {
+            // Client went away, stop reading from the provider
+            await events.return?.();
+        },
+    });
 }
 
 /**
  * POST Handler
- * Handles the main chat request, calls the Gemini API, and provides Google Search grounding.
+ * Handles the main chat request through the configured provider (or the requested compare model), using the
+ * requested persona's instructions.
+ * Gemini grounds the turn with Google Search according to the request's `grounding` mode (lib/grounding.ts;
+ * the persona's setting by default). The model may call the server-side tools (lib/tools) before it answers.
+ * The request contract is documented in lib/chatApi.ts; invalid bodies are rejected before any limit is consumed.
+ * Pass `?stream=true` to receive the reply as Server-Sent Events (`delta`, `tool`, `done` and `error` events).
  */
-export async function POST(request: NextRequest) {
-    const apiKey = process.env.GEMINI_API_KEY;
+export const POST = withRequestLogging('/api/chat', async (request: NextRequest) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const body = await readJsonBody(request, MAX_CHAT_BODY_BYTES);
+    if (!body.ok) return body.response;
+
+    const parsed = parseChatRequest(body.body);
+    if (!parsed.ok) {
+        return apiError('invalid_request', parsed.message, 400, parsed.details);
+    }
+    const clientPayload = parsed.request;
+
+    // Compare mode names one of the compare models; other requests use the configured chat model
+    const modelOption = clientPayload.model ? getCompareModels().find(option => chatModelId(option) === clientPayload.model) : undefined;
+    if (clientPayload.model && !modelOption) {
+        return apiError('invalid_request', `Unknown model "${clientPayload.model}".`, 400, [{ path: 'model', message: 'Not one of the compare models.' }]);
+    }
+    const provider = modelOption ? getChatProvider(modelOption.provider, modelOption.model) : getChatProvider();
+    if (!provider.isConfigured()) {
+        return apiError('not_configured', `API Key not configured on the server for the "${provider.id}" chat provider.`, 500);
+    }
+
+    // The persona supplies the system instruction, sampling parameters and the default grounding mode
+    const persona = await getPersona(clientPayload.personaId);
+    if (!persona) {
+        return apiError('invalid_request', `Unknown persona "${clientPayload.personaId}".`, 400, [{ path: 'personaId', message: 'Not a configured persona.' }]);
+    }
 
-    if (!apiKey) {
-        return NextResponse.json({ 
-            error: "API Key not configured on the server. Please set the GEMINI_API_KEY environment variable." 
-        }, { status: 500 });
+    const limitCheck = await checkAndConsume(user.id, 'chat');
+    if (!limitCheck.allowed) {
+        return limitExceededResponse(limitCheck);
     }
 
     try {
-        // Parse the incoming request body (chat history from client)
-        const clientPayload: GeminiPayload = await request.json();
-
-        // Construct the payload for the Gemini API call
-        const geminiPayload = {
-            contents: clientPayload.contents,
-            tools: [{ "google_search": {} }], // Enable Google Search Grounding
-            systemInstruction: {
-                parts: [{ text: "You are a world-class, fact-checked AI assistant. Use Google Search to ground your answers in real-time information. You must cite your sources when using search results." }],
-            },
+        const conversations = getConversationStore();
+        const conversation = clientPayload.conversationId ? await conversations.get(user.id, clientPayload.conversationId) : null;
+
+        // Fit the history into the token budget, condensing older turns into the conversation's rolling summary
+        const context = await prepareContext({
+            messages: await resolveAttachments(user.id, clientPayload.messages),
+            systemInstruction: persona.systemInstruction,
+            previousSummary: conversation?.contextSummary,
+            provider,
+            onUsage: usage => { recordTokens(user.id, usage.totalTokens).catch(() => {}); },
+            signal: request.signal,
+        });
+        if (conversation && context.updatedSummary) {
+            await conversations.update(user.id, conversation.id, { contextSummary: context.updatedSummary });
+        }
+        const contextInfo: ChatContextInfo = context.info;
+
+        const grounding = resolveGrounding(clientPayload.grounding, persona.grounding, clientPayload.messages);
+        recordGrounding(grounding.mode, grounding.grounded);
+
+        const chatRequest = {
+            messages: context.messages,
+            systemInstruction: context.systemInstruction,
+            generationConfig: persona.generationConfig,
+            grounding: grounding.grounded,
+            signal: request.signal,
         };
+        const loop = { provider, request: chatRequest, tools: getEnabledTools() };
 
-        // Call the Gemini API endpoint
-        const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-09-2025:generateContent?key=${apiKey}`;
+        if (request.nextUrl.searchParams.get('stream') === 'true') {
+            const events = streamChatWithTools(loop);
 
-        const response = await fetch(apiUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(geminiPayload)
-        });
+            // Pull the first event before answering so errors that happen before the stream
+            // starts (bad key, 429, ...) are still returned as regular JSON with their status.
+            const first = await events.next();
+            let replayed = false;
+            const replay: AsyncIterator<ChatApiStreamEvent> = {
+                next: async () => {
+                    if (replayed) return events.next();
+                    replayed = true;
+                    return first;
+                },
+                return: async () => events.return(undefined),
+            };
 
-        // Forward the response data and status back to the client
-        const data = await response.json();
-        
-        return NextResponse.json(data, { 
-            status: response.status 
-        });
+            // Token usage is only known once the final event arrives
+            const onDone = (event: Extract<ChatApiStreamEvent, { type: 'done' }>): ChatApiStreamEvent => {
+                recordTokens(user.id, event.response.usage?.totalTokens || 0).catch(() => {});
+                return { ...event, response: { ...event.response, context: contextInfo } };
+            };
+
+            return new Response(toSseStream(replay, onDone, request.signal), {
+                status: 200,
+                headers: {
+                    'Content-Type': 'text/event-stream; charset=utf-8',
+                    'Cache-Control': 'no-cache, no-transform',
+                    'Connection': 'keep-alive',
+                },
+            });
+        }
+
+        const data = await chatWithTools(loop);
+        await recordTokens(user.id, data.usage?.totalTokens || 0);
+        return NextResponse.json({ ...data, context: contextInfo });
 
     } catch (e: unknown) {
-        const errorMsg = e instanceof Error ? e.message : "Internal server error during Gemini API call.";
-        console.error("Gemini API Error:", errorMsg);
-        return NextResponse.json({ error: errorMsg }, { status: 500 });
+        if (request.signal.aborted) return clientClosedRequest();
+        if (e instanceof AttachmentError) {
+            return apiError(e.code, e.message, e.status);
+        }
+        if (e instanceof ProviderError) {
+            log.error("Chat Provider Error", { provider: provider.id, status: e.status, error: e.message });
+            return providerErrorResponse(e);
+        }
+        const errorMsg = e instanceof Error ? e.message : "Internal server error during chat API call.";
+        log.error("Chat API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
     }
-}
+});
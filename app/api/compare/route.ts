@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, unauthorized } from '@/lib/apiResponse';
+import { CompareOptionsResponse, MAX_COMPARE_COLUMNS } from '@/lib/compareApi';
+import { chatModelId, getChatProvider, getCompareModels } from '@/lib/providers';
+import { log, withRequestLogging } from '@/lib/observability';
+
+/**
+ * GET Handler
+ * Lists the models compare mode can use: the server's chat model first, then COMPARE_MODELS (lib/compareApi.ts).
+ */
+export const GET = withRequestLogging('/api/compare', async (request: NextRequest) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    try {
+        const models = getCompareModels().map((option, index) => ({
+            id: chatModelId(option),
+            provider: option.provider,
+            model: option.model,
+            isDefault: index === 0,
+            configured: getChatProvider(option.provider, option.model).isConfigured(),
+        }));
+        return NextResponse.json<CompareOptionsResponse>({ models, maxColumns: MAX_COMPARE_COLUMNS });
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to list compare models.";
+        log.error("Compare API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
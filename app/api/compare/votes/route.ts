@@ -0,0 +1,53 @@
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, readJsonBody, unauthorized } from '@/lib/apiResponse';
+import { getVoteStore, summarizeVotes } from '@/lib/compare';
+import { CompareResultsResponse, CompareVote, MAX_VOTE_BODY_BYTES, parseCompareVote } from '@/lib/compareApi';
+import { log, withRequestLogging } from '@/lib/observability';
+
+/**
+ * GET Handler
+ * Tallies the saved votes of all users per model and persona, for reviewing model changes.
+ */
+export const GET = withRequestLogging('/api/compare/votes', async (request: NextRequest) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    try {
+        const votes = await getVoteStore().list();
+        return NextResponse.json<CompareResultsResponse>({ totalVotes: votes.length, results: summarizeVotes(votes) });
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to read compare votes.";
+        log.error("Compare Votes API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
+
+/**
+ * POST Handler
+ * Saves the signed-in user's verdict on a comparison (contract in lib/compareApi.ts). Returns the stored vote.
+ */
+export const POST = withRequestLogging('/api/compare/votes', async (request: NextRequest) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    try {
+        const body = await readJsonBody(request, MAX_VOTE_BODY_BYTES);
+        if (!body.ok) return body.response;
+        const parsed = parseCompareVote(body.body);
+        if (!parsed.ok) return apiError('invalid_request', parsed.message, 400, parsed.details);
+
+        const vote: CompareVote = { id: randomUUID(), userId: user.id, createdAt: new Date().toISOString(), ...parsed.vote };
+        await getVoteStore().add(vote);
+        log.info("Compare Vote", {
+            models: vote.candidates.map(candidate => candidate.model),
+            winner: vote.winner === 'tie' ? 'tie' : vote.candidates[vote.winner].model,
+        });
+        return NextResponse.json(vote, { status: 201 });
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to save the vote.";
+        log.error("Compare Votes API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
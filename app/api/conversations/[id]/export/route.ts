@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, unauthorized } from '@/lib/apiResponse';
+import { getConversationStore } from '@/lib/conversations';
+import { renderConversationExport } from '@/lib/export';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/exportApi';
+import { getPersona } from '@/lib/personas';
+import { log, withRequestLogging } from '@/lib/observability';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET Handler
+ * Downloads a conversation as Markdown, JSON or HTML (`?format=`, see lib/exportApi.ts).
+ */
+export const GET = withRequestLogging('/api/conversations/[id]/export', async (request: NextRequest, { params }: RouteContext) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+    const { id } = await params;
+
+    const format = request.nextUrl.searchParams.get('format') || 'markdown';
+    if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+        return apiError('invalid_request', `Unknown export format "${format}".`, 400, [
+            { path: 'format', message: `Must be one of ${EXPORT_FORMATS.join(', ')}.` },
+        ]);
+    }
+
+    try {
+        const conversation = await getConversationStore().get(user.id, id);
+        if (!conversation) return apiError('not_found', "Conversation not found.", 404);
+
+        const persona = await getPersona(conversation.personaId);
+        const file = renderConversationExport(
+            conversation,
+            format as ExportFormat,
+            persona ? { id: persona.id, name: persona.name } : conversation.personaId ? { id: conversation.personaId } : undefined,
+        );
+        return new NextResponse(file.body, {
+            status: 200,
+            headers: {
+                'Content-Type': file.contentType,
+                'Content-Disposition': `attachment; filename="${file.filename}"`,
+                'Cache-Control': 'no-store',
+                'X-Content-Type-Options': 'nosniff',
+            },
+        });
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to export conversation.";
+        log.error("Conversation Export Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
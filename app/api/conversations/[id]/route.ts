@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, readJsonBody, unauthorized } from '@/lib/apiResponse';
+import { MAX_CONVERSATION_BODY_BYTES, getConversationStore, parseConversationPatch } from '@/lib/conversations';
+import { log, withRequestLogging } from '@/lib/observability';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+const notFound = () => apiError('not_found', "Conversation not found.", 404);
+
+/**
+ * GET Handler
+ * Loads a single conversation (owned by the signed-in user) with all of its messages.
+ */
+export const GET = withRequestLogging('/api/conversations/[id]', async (request: NextRequest, { params }: RouteContext) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+    const { id } = await params;
+    try {
+        const conversation = await getConversationStore().get(user.id, id);
+        return conversation ? NextResponse.json(conversation) : notFound();
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to load conversation.";
+        log.error("Conversations API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
+
+/**
+ * PATCH Handler
+ * Renames a conversation (`{ title }`) and/or replaces its messages (`{ messages }`).
+ */
+export const PATCH = withRequestLogging('/api/conversations/[id]', async (request: NextRequest, { params }: RouteContext) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+    const { id } = await params;
+    try {
+        const body = await readJsonBody(request, MAX_CONVERSATION_BODY_BYTES);
+        if (!body.ok) return body.response;
+        const parsed = parseConversationPatch(body.body);
+        if (!parsed.ok) return apiError('invalid_request', parsed.message, 400, parsed.details);
+
+        const conversation = await getConversationStore().update(user.id, id, parsed.patch);
+        return conversation ? NextResponse.json(conversation) : notFound();
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to update conversation.";
+        log.error("Conversations API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
+
+/**
+ * DELETE Handler
+ * Permanently deletes a conversation.
+ */
+export const DELETE = withRequestLogging('/api/conversations/[id]', async (request: NextRequest, { params }: RouteContext) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+    const { id } = await params;
+    try {
+        const deleted = await getConversationStore().delete(user.id, id);
+        return deleted ? new NextResponse(null, { status: 204 }) : notFound();
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to delete conversation.";
+        log.error("Conversations API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
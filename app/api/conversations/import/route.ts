@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, readJsonBody, unauthorized } from '@/lib/apiResponse';
+import { MAX_CONVERSATION_BODY_BYTES, getConversationStore, parseConversationPatch } from '@/lib/conversations';
+import { parseConversationExport } from '@/lib/exportApi';
+import { getPersona } from '@/lib/personas';
+import { log, withRequestLogging } from '@/lib/observability';
+
+// Room for the export envelope around a conversation of the maximum size
+const MAX_IMPORT_BODY_BYTES = MAX_CONVERSATION_BODY_BYTES + 64 * 1024;
+
+/**
+ * POST Handler
+ * Creates a new conversation from a JSON export (see lib/exportApi.ts) and returns it.
+ */
+export const POST = withRequestLogging('/api/conversations/import', async (request: NextRequest) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    try {
+        const body = await readJsonBody(request, MAX_IMPORT_BODY_BYTES);
+        if (!body.ok) return body.response;
+
+        const envelope = parseConversationExport(body.body);
+        if (!envelope.ok) return apiError('invalid_request', envelope.message, 400, envelope.details);
+        const { title, messages, activeLeafId, persona, background, createdAt } = envelope.conversation;
+
+        // The conversation itself must pass the same checks as a newly created one
+        const parsed = parseConversationPatch({ title, messages, activeLeafId, background });
+        if (!parsed.ok) {
+            const details = parsed.details.map(detail => ({ ...detail, path: `conversation.${detail.path}` }));
+            const message = details.length === 1 ? `${details[0].path}: ${details[0].message}` : parsed.message;
+            return apiError('invalid_request', message, 400, details);
+        }
+
+        // Personas are server configuration; one this server does not have falls back to the default
+        const knownPersona = persona && await getPersona(persona.id);
+
+        const conversation = await getConversationStore().create(user.id, {
+            ...parsed.patch,
+            ...(knownPersona ? { personaId: knownPersona.id } : {}),
+            createdAt,
+        });
+        return NextResponse.json(conversation, { status: 201 });
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to import conversation.";
+        log.error("Conversation Import Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, readJsonBody, unauthorized } from '@/lib/apiResponse';
+import { MAX_CONVERSATION_BODY_BYTES, getConversationStore, parseConversationPatch } from '@/lib/conversations';
+import { log, withRequestLogging } from '@/lib/observability';
+
+
+/**
+ * GET Handler
+ * Lists the signed-in user's saved conversations (most recently updated first) for the ChatClient sidebar.
+ */
+export const GET = withRequestLogging('/api/conversations', async (request: NextRequest) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    try {
+        const conversations = await getConversationStore().list(user.id);
+        return NextResponse.json({ conversations });
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to list conversations.";
+        log.error("Conversations API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
+
+/**
+ * POST Handler
+ * Creates a conversation. Body: `{ title?, messages? }`. Returns the full conversation with its new id.
+ */
+export const POST = withRequestLogging('/api/conversations', async (request: NextRequest) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    try {
+        const body = await readJsonBody(request, MAX_CONVERSATION_BODY_BYTES);
+        if (!body.ok) return body.response;
+        const parsed = parseConversationPatch(body.body);
+        if (!parsed.ok) return apiError('invalid_request', parsed.message, 400, parsed.details);
+
+        const conversation = await getConversationStore().create(user.id, parsed.patch);
+        return NextResponse.json(conversation, { status: 201 });
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to create conversation.";
+        log.error("Conversations API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/apiResponse';
+import { getHealth } from '@/lib/health';
+import type { HealthResponse } from '@/lib/healthApi';
+import { log, withRequestLogging } from '@/lib/observability';
+
+/**
+ * GET Handler
+ * Reports which chat/image providers and models are configured, whether their keys are present (never the
+ * keys themselves), whether the upstreams answer a cheap probe and the app version. The contract is in
+ * lib/healthApi.ts. Answers 503 when chat cannot work, so it doubles as a readiness check.
+ */
+export const GET = withRequestLogging('/api/health', async (request: NextRequest) => {
+    try {
+        const health = await getHealth({ probe: request.nextUrl.searchParams.get('probe') !== 'false' });
+        return NextResponse.json<HealthResponse>(health, {
+            status: health.status === 'down' ? 503 : 200,
+            headers: { 'Cache-Control': 'no-store' },
+        });
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Health check failed.";
+        log.error("Health API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
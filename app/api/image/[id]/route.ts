@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, unauthorized } from '@/lib/apiResponse';
+import { getImageStore } from '@/lib/images';
+import { log, withRequestLogging } from '@/lib/observability';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET Handler
+ * Serves a stored image as binary to the users who own it (others get 404, like attachments). Ids are content
+ * hashes, so the bytes behind a URL never change and browsers may cache them for good.
+ */
+export const GET = withRequestLogging('/api/image/[id]', async (request: NextRequest, { params }: RouteContext) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const { id } = await params;
+    const etag = `"${id}"`;
+
+    // A 304 carries no image bytes, so it needs no owner check
+    if (request.headers.get('if-none-match') === etag) {
+        return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    try {
+        const image = await getImageStore().get(user.id, id);
+        if (!image) {
+            return apiError('not_found', "Image not found.", 404);
+        }
+
+        return new NextResponse(new Uint8Array(image.bytes), {
+            status: 200,
+            headers: {
+                'Content-Type': image.meta.mimeType,
+                'Content-Length': String(image.meta.size),
+                'Cache-Control': 'private, max-age=31536000, immutable',
+                'ETag': etag,
+                // SVGs from the mock provider must not be able to run script when opened directly
+                'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+                'X-Content-Type-Options': 'nosniff',
+            },
+        });
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to load image.";
+        log.error("Image Serve Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
@@ -1,118 +1,103 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, clientClosedRequest, providerErrorResponse, readJsonBody, unauthorized } from '@/lib/apiResponse';
+import {
+    GalleryResponse, ImageErrorCode, ImageGenerationResponse, MAX_IMAGE_BODY_BYTES, parseImageGenerationRequest,
+} from '@/lib/imageApi';
+import { getImageStore, imageUrl } from '@/lib/images';
+import { generateImages } from '@/lib/images/generate';
+import { InlineData, ProviderError, getImageProvider } from '@/lib/providers';
+import { limitExceededResponse } from '@/lib/usage';
+import { log, withRequestLogging } from '@/lib/observability';
 
-// SWITCHED MODEL: Using the free Gemini model for image generation
-const IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
-// This model uses the standard generateContent endpoint, not the specialized :predict endpoint
-const IMAGE_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${IMAGE_MODEL}:generateContent`;
+const imageError = (code: ImageErrorCode, message: string, status: number) => apiError(code, message, status);
 
-// --- NEW INTERFACE DEFINITION ---
-interface ImageApiResponseBody {
-    candidates?: {
-        content?: {
-            parts?: {
-                inlineData?: {
-                    mimeType: string;
-                    data: string;
-                };
-            }[];
-        };
-    }[];
-    error?: {
-        message: string;
-    };
-    // Include the possible quota/API error structure here for runtime check
-    // This handles cases where the API returns a non-200 status with an error body
-    // or a 200 status with a specific error message structure.
-    message?: string; 
+// The image to edit; only the user's own images can be used
+async function loadSourceImage(userId: string, id: string): Promise<InlineData | null> {
+    const image = await getImageStore().get(userId, id);
+    return image ? { mimeType: image.meta.mimeType, data: image.bytes.toString('base64') } : null;
 }
-// --------------------------------
+
+/**
+ * GET Handler
+ * Lists the signed-in user's previously generated images (newest first) for the ChatClient gallery.
+ */
+export const GET = withRequestLogging('/api/image', async (request: NextRequest) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    try {
+        const entries = await getImageStore().listGallery(user.id);
+        return NextResponse.json<GalleryResponse>({
+            images: entries.map(entry => ({
+                id: entry.imageId,
+                url: imageUrl(entry.imageId),
+                mimeType: entry.mimeType,
+                prompt: entry.prompt,
+                createdAt: entry.createdAt,
+            })),
+        });
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to list images.";
+        log.error("Image Gallery Error", { error: errorMsg });
+        return imageError('internal_error', errorMsg, 500);
+    }
+});
 
 /**
  * POST Handler for Image Generation.
- * This route securely handles the Image API call using the server-side API key.
+ * This route securely handles the image provider call (IMAGE_PROVIDER/IMAGE_MODEL) using server-side credentials.
+ * The request/response contract is documented in lib/imageApi.ts. Results are saved in the image store and
+ * identical prompt/parameter combinations are answered from its cache without calling the model again.
+ * With `sourceImageId` the prompt edits an earlier image (the `/edit` chat command) instead.
  */
-export async function POST(request: NextRequest) {
-    const apiKey = process.env.GEMINI_API_KEY;
+export const POST = withRequestLogging('/api/image', async (request: NextRequest) => {
+    const provider = getImageProvider();
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
 
-    if (!apiKey) {
-        return NextResponse.json({ 
-            error: "API Key not configured for image generation. Please set the GEMINI_API_KEY environment variable." 
-        }, { status: 500 });
+    if (provider.id === 'off') {
+        return imageError('not_configured', 'Image generation is disabled on this server (IMAGE_PROVIDER=off).', 503);
+    }
+    if (!provider.isConfigured()) {
+        return imageError('not_configured', `API Key not configured for the "${provider.id}" image provider.`, 500);
     }
 
     try {
-        // The request body contains the prompt and parameters (which we need to reformat for Gemini)
-        const { instances } = await request.json();
-        const userPrompt = instances?.prompt; // Extract the prompt string
+        const body = await readJsonBody(request, MAX_IMAGE_BODY_BYTES);
+        if (!body.ok) return body.response;
 
-        if (!userPrompt) {
-            return NextResponse.json({ error: "Missing image generation prompt." }, { status: 400 });
+        const parsed = parseImageGenerationRequest(body.body);
+        if (!parsed.ok) {
+            return apiError('invalid_request', parsed.message, 400, parsed.details);
         }
 
-        // Construct the payload for the Gemini Image API call
-        const geminiImagePayload = {
-            contents: [{
-                parts: [{ text: userPrompt }]
-            }],
-            generationConfig: {
-                // MANDATORY: Tells Gemini to return an image modality part
-                responseModalities: ['IMAGE'], 
-            },
-        };
-
-        const maxRetries = 5;
-        let delay = 1000;
-        let finalResponse: Response | undefined;
-        let finalData: ImageApiResponseBody | undefined; // Using the specific interface now
-
-        for (let i = 0; i < maxRetries; i++) {
-            const response = await fetch(`${IMAGE_API_URL}?key=${apiKey}`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(geminiImagePayload)
-            });
-
-            finalResponse = response;
-            // Ensure we handle JSON parsing safely
-            try {
-                finalData = await response.json();
-            } catch (jsonError) {
-                // If parsing fails, treat it as an internal server error
-                if (i < maxRetries - 1) {
-                    await new Promise(resolve => setTimeout(resolve, delay));
-                    delay *= 2; 
-                    continue;
-                }
-                finalData = { error: { message: `Failed to parse response from API: ${jsonError}` } };
-                break;
+        let sourceImage: InlineData | null = null;
+        if (parsed.sourceImageId) {
+            if (!provider.supportsEditing) {
+                return apiError('invalid_request', `The "${provider.model}" image model cannot edit images.`, 400,
+                    [{ path: 'sourceImageId', message: 'Image editing is not supported by the configured image model.' }]);
             }
-
-
-            // Check for explicit rate limiting (429) or Quota Exceeded error in the response body
-            // Check both error field and top-level message field which can sometimes hold the error string
-            const isQuotaError = finalData?.error?.message?.includes("Quota exceeded") || finalData?.message?.includes("Quota exceeded");
-            
-            if (response.status === 429 || isQuotaError) {
-                if (i < maxRetries - 1) {
-                    // Implement exponential backoff
-                    await new Promise(resolve => setTimeout(resolve, delay));
-                    delay *= 2; 
-                    continue; // Retry the request
-                }
+            sourceImage = await loadSourceImage(user.id, parsed.sourceImageId);
+            if (!sourceImage) {
+                return apiError('invalid_request', 'Image to edit not found.', 400, [{ path: 'sourceImageId', message: 'Not an image from your gallery.' }]);
             }
-            
-            // If the request succeeded, or if it failed for another reason (or max retries reached), break the loop
-            break;
         }
 
-        // Forward the final response data and status back to the client
-        return NextResponse.json(finalData, { 
-            status: finalResponse?.status || 500
-        });
+        const result = await generateImages(user.id, provider, { ...parsed.request, ...(sourceImage ? { sourceImage } : {}) }, request.signal);
+        if (!result.ok) {
+            return limitExceededResponse(result.limit);
+        }
+        return NextResponse.json<ImageGenerationResponse>(result.response);
 
     } catch (e: unknown) {
+        if (request.signal.aborted) return clientClosedRequest();
+        if (e instanceof ProviderError) {
+            log.error("Image Provider Error", { provider: provider.id, status: e.status, error: e.message });
+            return providerErrorResponse(e);
+        }
         const errorMsg = e instanceof Error ? e.message : "Internal server error during image generation API call.";
-        console.error("Image API Error:", errorMsg);
-        return NextResponse.json({ error: errorMsg }, { status: 500 });
+        log.error("Image API Error", { error: errorMsg });
+        return imageError('internal_error', errorMsg, 500);
     }
-}
+});
@@ -0,0 +1,27 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/apiResponse';
+import { METRICS_CONTENT_TYPE, renderMetrics, withRequestLogging } from '@/lib/observability';
+
+// Hashing first gives both sides the same length, which timingSafeEqual requires
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * GET Handler
+ * Serves the in-process metrics (lib/observability/metrics.ts) in the Prometheus text format. Requires
+ * `Authorization: Bearer <METRICS_TOKEN>`; without METRICS_TOKEN configured the endpoint does not exist.
+ */
+export const GET = withRequestLogging('/api/metrics', async (request: NextRequest) => {
+    const token = process.env.METRICS_TOKEN?.trim();
+    if (!token) return apiError('not_found', "Metrics are not enabled on this server (METRICS_TOKEN).", 404);
+
+    const presented = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() || '';
+    if (!timingSafeEqual(digest(presented), digest(token))) {
+        return apiError('unauthorized', "A valid metrics token is required.", 401);
+    }
+
+    return new NextResponse(renderMetrics(), {
+        status: 200,
+        headers: { 'Content-Type': METRICS_CONTENT_TYPE, 'Cache-Control': 'no-store' },
+    });
+});
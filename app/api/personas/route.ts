@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/apiResponse';
+import { PersonaListResponse, listPersonas } from '@/lib/personas';
+import { log, withRequestLogging } from '@/lib/observability';
+
+/**
+ * GET Handler
+ * Lists the configured personas (without their system instructions) and the default persona id.
+ */
+export const GET = withRequestLogging('/api/personas', async () => {
+    try {
+        return NextResponse.json<PersonaListResponse>(await listPersonas());
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to load personas.";
+        log.error("Personas API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { apiError, unauthorized } from '@/lib/apiResponse';
+import { getUsageReport } from '@/lib/usage';
+import { log, withRequestLogging } from '@/lib/observability';
+
+/**
+ * GET Handler
+ * Returns the signed-in user's limits, today's usage and remaining allowance (`null` = unlimited).
+ */
+export const GET = withRequestLogging('/api/usage', async (request: NextRequest) => {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    try {
+        return NextResponse.json(await getUsageReport(user.id));
+    } catch (e: unknown) {
+        const errorMsg = e instanceof Error ? e.message : "Failed to load usage.";
+        log.error("Usage API Error", { error: errorMsg });
+        return apiError('internal_error', errorMsg, 500);
+    }
+});
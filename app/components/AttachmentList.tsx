@@ -0,0 +1,75 @@
+"use client";
+import React from 'react';
+import Image from 'next/image';
+import { formatBytes } from '@/lib/attachmentApi';
+
+export interface AttachmentListItem {
+    key: string;
+    name: string;
+    mimeType: string;
+    size: number;
+    // Stored file URL, or a local object URL for uploads that are still pending
+    url?: string;
+    status?: 'uploading' | 'error';
+    error?: string;
+}
+
+interface AttachmentListProps {
+    items: AttachmentListItem[];
+    // Shows a remove button on each item (composer only)
+    onRemove?: (key: string) => void;
+}
+
+const fileLabel = (mimeType: string) => {
+    if (mimeType === 'application/pdf') return 'PDF';
+    if (mimeType === 'text/csv') return 'CSV';
+    return mimeType.startsWith('text/') ? 'TXT' : 'FILE';
+};
+
+/**
+ * AttachmentList Component: Image attachments as thumbnails, other files as chips.
+ * Used both for files waiting to be sent and for attachments in the message history.
+ */
+const AttachmentList = ({ items, onRemove }: AttachmentListProps) => (
+    <div className="d-flex flex-wrap gap-2 attachment-list">
+        {items.map(item => {
+            const isImage = item.mimeType.startsWith('image/') && item.url;
+            const content = isImage ? (
+                <Image src={item.url!} alt={item.name} fill unoptimized style={{ objectFit: 'cover' }} />
+            ) : (
+                <>
+                    <span className="badge text-bg-secondary me-1">{fileLabel(item.mimeType)}</span>
+                    <span className="text-truncate">{item.name}</span>
+                    <span className="text-muted ms-1 text-nowrap">{formatBytes(item.size)}</span>
+                </>
+            );
+
+            return (
+                <div
+                    key={item.key}
+                    className={`position-relative border rounded-3 bg-white text-dark small ${isImage ? 'attachment-thumb' : 'attachment-chip d-flex align-items-center px-2 py-1'} ${item.status === 'error' ? 'border-danger' : ''}`}
+                    title={item.error || item.name}
+                >
+                    {item.url && !item.status ? (
+                        <a href={item.url} target="_blank" rel="noopener noreferrer" className={`text-reset text-decoration-none ${isImage ? '' : 'd-flex align-items-center overflow-hidden'}`}>
+                            {content}
+                        </a>
+                    ) : content}
+                    {item.status === 'uploading' && (
+                        <span className="spinner-border spinner-border-sm ms-1 attachment-spinner" role="status" aria-label="Uploading"></span>
+                    )}
+                    {onRemove && (
+                        <button
+                            type="button"
+                            className="btn-close attachment-remove"
+                            onClick={() => onRemove(item.key)}
+                            aria-label={`Remove ${item.name}`}
+                        ></button>
+                    )}
+                </div>
+            );
+        })}
+    </div>
+);
+
+export default AttachmentList;
@@ -0,0 +1,84 @@
+"use client";
+import React from 'react';
+import { BACKGROUND_STYLES, BackgroundStyle, ConversationBackground } from '@/lib/backgroundApi';
+
+interface BackgroundControlsProps {
+    style: BackgroundStyle;
+    background: ConversationBackground;
+    // A background request is in flight
+    busy: boolean;
+    // Nothing to base a scene on yet, or image generation is unavailable
+    canRegenerate: boolean;
+    disabled: boolean;
+    onStyleChange: (style: BackgroundStyle) => void;
+    onRegenerate: () => void;
+    onTogglePin: () => void;
+    onRestorePrevious: () => void;
+    onOpenGallery: () => void;
+}
+
+const STYLE_LABELS: Record<BackgroundStyle, string> = {
+    fantasy: 'Fantasy',
+    photographic: 'Photographic',
+    minimal: 'Minimal',
+    off: 'No background',
+};
+
+/**
+ * BackgroundControls Component: Style preset picker plus regenerate, pin, restore-previous and gallery buttons
+ * for the conversation background.
+ */
+const BackgroundControls = ({
+    style, background, busy, canRegenerate, disabled,
+    onStyleChange, onRegenerate, onTogglePin, onRestorePrevious, onOpenGallery,
+}: BackgroundControlsProps) => {
+    const off = style === 'off';
+
+    return (
+        <div className="d-flex align-items-center ms-2 gap-1">
+            <select
+                className="form-select form-select-sm w-auto"
+                aria-label="Background style"
+                value={style}
+                onChange={(e) => onStyleChange(e.target.value as BackgroundStyle)}
+                disabled={disabled}
+            >
+                {BACKGROUND_STYLES.map(option => (
+                    <option key={option} value={option}>{STYLE_LABELS[option]}</option>
+                ))}
+            </select>
+            <div className="btn-group btn-group-sm" role="group" aria-label="Background actions">
+                <button
+                    className="btn btn-outline-secondary"
+                    onClick={onRegenerate}
+                    disabled={disabled || off || busy || !canRegenerate}
+                    title="Regenerate the background from the recent conversation"
+                >
+                    ↻
+                </button>
+                <button
+                    className={`btn btn-outline-secondary${background.pinned ? ' active' : ''}`}
+                    onClick={onTogglePin}
+                    disabled={disabled || off || !background.current}
+                    aria-pressed={Boolean(background.pinned)}
+                    title={background.pinned ? 'Unpin: let the background follow the conversation again' : 'Pin: keep this background'}
+                >
+                    📌
+                </button>
+                <button
+                    className="btn btn-outline-secondary"
+                    onClick={onRestorePrevious}
+                    disabled={disabled || off || !background.previous}
+                    title={background.previous ? `Restore the previous background (${background.previous.topic})` : 'No previous background'}
+                >
+                    ↶
+                </button>
+                <button className="btn btn-outline-secondary text-nowrap" onClick={onOpenGallery} disabled={disabled}>
+                    Gallery
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default BackgroundControls;
@@ -0,0 +1,70 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import type { GalleryImage, GalleryResponse } from '@/lib/imageApi';
+
+interface BackgroundGalleryProps {
+    onApply: (image: GalleryImage) => void;
+    onClose: () => void;
+}
+
+/**
+ * BackgroundGallery Component: Overlay listing the user's earlier backgrounds (GET /api/image).
+ * Clicking a thumbnail reapplies it to the current conversation.
+ */
+const BackgroundGallery = ({ onApply, onClose }: BackgroundGalleryProps) => {
+    const [images, setImages] = useState<GalleryImage[] | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const loadGallery = async () => {
+            try {
+                const response = await fetch('/api/image');
+                const result = await response.json();
+                if (!response.ok) throw new Error(result?.error?.message || `HTTP error! Status: ${response.status}`);
+                setImages((result as GalleryResponse).images);
+            } catch (e: unknown) {
+                setError(e instanceof Error ? e.message : 'Failed to load the gallery.');
+            }
+        };
+        loadGallery();
+    }, []);
+
+    return (
+        <div className="gallery-backdrop" role="dialog" aria-modal="true" aria-label="Background gallery" onClick={onClose}>
+            <div className="bg-white rounded-4 shadow-lg p-4 gallery-panel" onClick={(e) => e.stopPropagation()}>
+                <div className="d-flex justify-content-between align-items-center mb-3">
+                    <h2 className="h5 fw-bold mb-0">Background gallery</h2>
+                    <button className="btn-close" onClick={onClose} aria-label="Close"></button>
+                </div>
+
+                {error && <div className="alert alert-danger p-2 small" role="alert">{error}</div>}
+                {!images && !error && (
+                    <div className="text-center my-4 text-primary">
+                        <div className="spinner-border spinner-border-sm" role="status">
+                            <span className="visually-hidden">Loading...</span>
+                        </div>
+                    </div>
+                )}
+                {images?.length === 0 && (
+                    <p className="small text-muted text-center my-4">No backgrounds generated yet.</p>
+                )}
+
+                <div className="gallery-grid">
+                    {images?.map(image => (
+                        <button
+                            key={image.id}
+                            className="gallery-thumb border-0 p-0 rounded-3 overflow-hidden"
+                            onClick={() => onApply(image)}
+                            title={image.prompt}
+                        >
+                            <Image src={image.url} alt={image.prompt} fill unoptimized sizes="160px" style={{ objectFit: 'cover' }} />
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BackgroundGallery;
@@ -0,0 +1,36 @@
+"use client";
+import React from 'react';
+import type { CommandSuggestion } from '@/lib/commands';
+
+interface CommandMenuProps {
+    suggestions: CommandSuggestion[];
+    // Highlighted entry, picked with Tab or Enter
+    activeIndex: number;
+    onPick: (suggestion: CommandSuggestion) => void;
+}
+
+/**
+ * CommandMenu Component: Slash command autocomplete shown above the chat input while a command is typed.
+ * The keyboard handling (arrows, Tab, Enter, Escape) stays with the input; this only renders the list.
+ */
+const CommandMenu = ({ suggestions, activeIndex, onPick }: CommandMenuProps) => (
+    <div className="list-group shadow-sm command-menu" role="listbox" aria-label="Commands">
+        {suggestions.map((suggestion, index) => (
+            <button
+                key={suggestion.completion}
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`list-group-item list-group-item-action py-1 small d-flex gap-2 ${index === activeIndex ? 'active' : ''}`}
+                // Keeps the focus in the input
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => onPick(suggestion)}
+            >
+                <code className={index === activeIndex ? 'text-white' : ''}>{suggestion.label}</code>
+                {suggestion.description && <span className="ms-auto text-truncate opacity-75">{suggestion.description}</span>}
+            </button>
+        ))}
+    </div>
+);
+
+export default CommandMenu;
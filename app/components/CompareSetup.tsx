@@ -0,0 +1,87 @@
+"use client";
+import React from 'react';
+import type { CompareCandidate, CompareModel } from '@/lib/compareApi';
+import type { PersonaSummary } from '@/lib/personas/types';
+
+interface CompareSetupProps {
+    models: CompareModel[];
+    personas: PersonaSummary[];
+    candidates: CompareCandidate[];
+    maxColumns: number;
+    disabled: boolean;
+    onChange: (candidates: CompareCandidate[]) => void;
+    onClose: () => void;
+}
+
+/**
+ * CompareSetup Component: Picks the model and persona of each compare column, shown above the chat input while
+ * compare mode is on. Every message is then answered by all columns in parallel, each column counting as one
+ * chat request against the user's limits.
+ */
+const CompareSetup = ({ models, personas, candidates, maxColumns, disabled, onChange, onClose }: CompareSetupProps) => {
+    const update = (index: number, change: Partial<CompareCandidate>) =>
+        onChange(candidates.map((candidate, i) => i === index ? { ...candidate, ...change } : candidate));
+
+    return (
+        <div className="compare-setup d-flex flex-wrap align-items-center gap-2 mb-2 small">
+            <span className="fw-semibold">⚖️ Compare</span>
+            {candidates.map((candidate, index) => (
+                <div key={index} className="input-group input-group-sm w-auto">
+                    <select
+                        className="form-select form-select-sm"
+                        value={candidate.model}
+                        onChange={(e) => update(index, { model: e.target.value })}
+                        disabled={disabled}
+                        aria-label={`Model of column ${index + 1}`}
+                    >
+                        {models.map(model => (
+                            <option key={model.id} value={model.id} disabled={!model.configured}>
+                                {model.id}{model.configured ? '' : ' (no key)'}
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        className="form-select form-select-sm"
+                        value={candidate.personaId}
+                        onChange={(e) => update(index, { personaId: e.target.value })}
+                        disabled={disabled}
+                        aria-label={`Persona of column ${index + 1}`}
+                    >
+                        {personas.map(persona => (
+                            <option key={persona.id} value={persona.id}>{persona.name}</option>
+                        ))}
+                    </select>
+                    {candidates.length > 2 && (
+                        <button
+                            type="button"
+                            className="btn btn-outline-secondary"
+                            onClick={() => onChange(candidates.filter((_, i) => i !== index))}
+                            disabled={disabled}
+                            aria-label={`Remove column ${index + 1}`}
+                        >
+                            ✕
+                        </button>
+                    )}
+                </div>
+            ))}
+            {candidates.length < maxColumns && (
+                <button
+                    type="button"
+                    className="btn btn-sm btn-outline-secondary"
+                    onClick={() => onChange([...candidates, candidates[candidates.length - 1]])}
+                    disabled={disabled}
+                >
+                    + Column
+                </button>
+            )}
+            <span className="text-muted ms-auto">
+                Each question uses {candidates.length} chat requests of your quota
+            </span>
+            <button type="button" className="btn btn-sm btn-link" onClick={onClose} disabled={disabled}>
+                Exit compare
+            </button>
+        </div>
+    );
+};
+
+export default CompareSetup;
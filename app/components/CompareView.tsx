@@ -0,0 +1,91 @@
+"use client";
+import React from 'react';
+import type { ConversationMessage } from '@/lib/conversations/types';
+import type { TokenUsage } from '@/lib/providers/types';
+import MessageBubble from './MessageBubble';
+
+export interface CompareColumn {
+    // Model and persona, e.g. "gemini:gemini-2.5-pro · Research"
+    label: string;
+    message: ConversationMessage;
+    // Measured in the browser from sending the request
+    firstTokenMs?: number;
+    latencyMs?: number;
+    usage?: TokenUsage;
+}
+
+interface CompareViewProps {
+    columns: CompareColumn[];
+    // The saved verdict: a column index or "tie"
+    vote?: number | 'tie';
+    // Voting and continuing wait until every column has finished
+    disabled: boolean;
+    onVote: (winner: number | 'tie') => void;
+    onContinue: (index: number) => void;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+function ColumnStats({ column }: { column: CompareColumn }) {
+    const sources = column.message.sources?.length || 0;
+    const stats = [
+        column.firstTokenMs !== undefined && `⏱ ${formatSeconds(column.firstTokenMs)} to first token`,
+        column.latencyMs !== undefined && `${formatSeconds(column.latencyMs)} total`,
+        column.usage && `🔢 ${column.usage.totalTokens.toLocaleString()} tokens (${column.usage.promptTokens.toLocaleString()} in / ${column.usage.completionTokens.toLocaleString()} out)`,
+        `📚 ${sources} ${sources === 1 ? 'source' : 'sources'}`,
+    ].filter(Boolean);
+    return <div className="small text-muted mb-2">{stats.join(' · ')}</div>;
+}
+
+/**
+ * CompareView Component: The replies of a comparison side by side, each with its latency, token usage and
+ * sources. The user votes for the better reply (or a tie) and continues the conversation with one of them.
+ */
+const CompareView = ({ columns, vote, disabled, onVote, onContinue }: CompareViewProps) => (
+    <div className="compare-view mb-3">
+        <div className="row g-2">
+            {columns.map((column, index) => (
+                <div key={column.message.id} className="col compare-column">
+                    <div className={`card h-100 p-2 ${vote === index ? 'border-success' : ''}`}>
+                        <div className="fw-semibold small text-truncate mb-1" title={column.label}>{column.label}</div>
+                        <ColumnStats column={column} />
+                        <MessageBubble message={column.message} />
+                        <div className="d-flex gap-2 mt-auto">
+                            <button
+                                type="button"
+                                className={`btn btn-sm ${vote === index ? 'btn-success' : 'btn-outline-success'}`}
+                                onClick={() => onVote(index)}
+                                disabled={disabled || vote !== undefined}
+                            >
+                                👍 Better
+                            </button>
+                            <button
+                                type="button"
+                                className="btn btn-sm btn-outline-primary"
+                                onClick={() => onContinue(index)}
+                                disabled={disabled || column.message.status === 'error'}
+                            >
+                                Continue with this
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            ))}
+        </div>
+        <div className="d-flex align-items-center gap-2 mt-2 small">
+            <button
+                type="button"
+                className={`btn btn-sm ${vote === 'tie' ? 'btn-secondary' : 'btn-outline-secondary'}`}
+                onClick={() => onVote('tie')}
+                disabled={disabled || vote !== undefined}
+            >
+                🤝 Tie
+            </button>
+            <span className="text-muted">
+                {vote !== undefined ? 'Vote saved. Continue with one of the replies.' : 'Which reply is better? Continuing with a reply counts as a vote for it.'}
+            </span>
+        </div>
+    </div>
+);
+
+export default CompareView;
@@ -0,0 +1,146 @@
+"use client";
+import React, { useRef, useState } from 'react';
+import type { ConversationSummary } from '@/lib/conversations/types';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/exportApi';
+
+interface ConversationSidebarProps {
+    conversations: ConversationSummary[];
+    activeId: string | null;
+    // Switching is blocked while a reply is streaming
+    disabled: boolean;
+    onSelect: (id: string) => void;
+    onNew: () => void;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+    // A JSON export picked with the Import button
+    onImport: (file: File) => void;
+}
+
+const EXPORT_LABELS: Record<ExportFormat, string> = { markdown: 'Markdown', json: 'JSON', html: 'HTML' };
+
+/**
+ * ConversationSidebar Component: Lists saved conversations with rename/delete controls, plus export of the
+ * active conversation and import of a JSON export.
+ */
+const ConversationSidebar = ({ conversations, activeId, disabled, onSelect, onNew, onRename, onDelete, onImport }: ConversationSidebarProps) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const startEditing = (conversation: ConversationSummary) => {
+        setEditingId(conversation.id);
+        setDraftTitle(conversation.title);
+    };
+
+    const commitEdit = () => {
+        if (editingId && draftTitle.trim()) {
+            onRename(editingId, draftTitle.trim());
+        }
+        setEditingId(null);
+    };
+
+    return (
+        <div className="bg-white shadow-lg rounded-4 p-3 d-flex flex-column conversation-sidebar">
+            <div className="d-flex gap-1 mb-3">
+                <button className="btn btn-outline-primary btn-sm flex-grow-1" onClick={onNew} disabled={disabled}>
+                    + New conversation
+                </button>
+                <button
+                    className="btn btn-outline-secondary btn-sm"
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={disabled}
+                    title="Import a conversation from a JSON export"
+                >
+                    Import
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="d-none"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        // Reset so picking the same file again still fires onChange
+                        e.target.value = '';
+                        if (file) onImport(file);
+                    }}
+                />
+            </div>
+            <div className="list-group list-group-flush overflow-auto flex-grow-1">
+                {conversations.length === 0 && (
+                    <p className="small text-muted text-center my-3">No saved conversations yet.</p>
+                )}
+                {conversations.map(conversation => (
+                    <div
+                        key={conversation.id}
+                        className={`list-group-item list-group-item-action d-flex align-items-center gap-1 px-2 ${conversation.id === activeId ? 'active' : ''}`}
+                    >
+                        {editingId === conversation.id ? (
+                            <input
+                                className="form-control form-control-sm"
+                                value={draftTitle}
+                                autoFocus
+                                onChange={(e) => setDraftTitle(e.target.value)}
+                                onBlur={commitEdit}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') commitEdit();
+                                    if (e.key === 'Escape') setEditingId(null);
+                                }}
+                            />
+                        ) : (
+                            <>
+                                <button
+                                    className="btn btn-link p-0 text-start text-truncate flex-grow-1 text-decoration-none small"
+                                    style={{ color: 'inherit' }}
+                                    onClick={() => onSelect(conversation.id)}
+                                    disabled={disabled}
+                                    title={conversation.title}
+                                >
+                                    {conversation.title}
+                                </button>
+                                <button
+                                    className="btn btn-sm p-0 px-1"
+                                    style={{ color: 'inherit' }}
+                                    onClick={() => startEditing(conversation)}
+                                    aria-label="Rename conversation"
+                                    title="Rename"
+                                >
+                                    ✎
+                                </button>
+                                <button
+                                    className="btn btn-sm p-0 px-1"
+                                    style={{ color: 'inherit' }}
+                                    onClick={() => {
+                                        if (window.confirm(`Delete "${conversation.title}"?`)) onDelete(conversation.id);
+                                    }}
+                                    disabled={disabled}
+                                    aria-label="Delete conversation"
+                                    title="Delete"
+                                >
+                                    ×
+                                </button>
+                            </>
+                        )}
+                    </div>
+                ))}
+            </div>
+            {activeId && (
+                <div className="small text-muted border-top pt-2 mt-2">
+                    Export:
+                    {EXPORT_FORMATS.map(format => (
+                        <a
+                            key={format}
+                            className="ms-2 text-decoration-none"
+                            href={`/api/conversations/${activeId}/export?format=${format}`}
+                            download
+                        >
+                            {EXPORT_LABELS[format]}
+                        </a>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ConversationSidebar;
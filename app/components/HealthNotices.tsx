@@ -0,0 +1,62 @@
+"use client";
+import React from 'react';
+import { HealthResponse, ProviderHealth, describeProviderHealth } from '@/lib/healthApi';
+
+interface HealthNoticesProps {
+    health: HealthResponse | null;
+    // True when /api/health itself could not be reached
+    checkFailed: boolean;
+    checking: boolean;
+    onRecheck: () => void;
+}
+
+// Missing chat credentials make the app unusable; everything else is a warning or a note
+const alertClass = (health: ProviderHealth, isChat: boolean) => {
+    if (health.state === 'key_missing') return isChat ? 'alert-danger' : 'alert-secondary';
+    if (health.state === 'disabled') return 'alert-light';
+    return 'alert-warning';
+};
+
+/**
+ * HealthNotices Component: Specific, actionable configuration/upstream notices from GET /api/health,
+ * shown above the composer.
+ */
+const HealthNotices = ({ health, checkFailed, checking, onRecheck }: HealthNoticesProps) => {
+    const recheckButton = (
+        <button className="btn btn-link btn-sm p-0 ms-2 align-baseline" onClick={onRecheck} disabled={checking}>
+            {checking ? 'Checking...' : 'Check again'}
+        </button>
+    );
+
+    if (checkFailed) {
+        return (
+            <div className="alert alert-warning p-2 small mt-2 mb-2" role="alert">
+                Could not check the server configuration. Chat may still work.{recheckButton}
+            </div>
+        );
+    }
+    if (!health) return null;
+
+    const notices = [
+        { key: 'chat', provider: health.chat, text: describeProviderHealth(health.chat, 'Chat'), isChat: true },
+        { key: 'image', provider: health.image, text: describeProviderHealth(health.image, 'Background images'), isChat: false },
+    ].filter(notice => notice.text);
+
+    return (
+        <>
+            {notices.map(notice => (
+                <div
+                    key={notice.key}
+                    className={`alert ${alertClass(notice.provider, notice.isChat)} p-2 small mt-2 mb-2`}
+                    role="alert"
+                    title={`${notice.provider.provider} / ${notice.provider.model || 'no model'} · v${health.version}`}
+                >
+                    {notice.text}
+                    {(notice.provider.state === 'unreachable' || notice.provider.state === 'circuit_open') && recheckButton}
+                </div>
+            ))}
+        </>
+    );
+};
+
+export default HealthNotices;
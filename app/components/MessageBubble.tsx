@@ -0,0 +1,343 @@
+"use client";
+import React, { useState } from 'react';
+import Image from 'next/image';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { ConversationImage, ConversationMessage } from '@/lib/conversations/types';
+import type { ToolInvocation } from '@/lib/chatApi';
+import type { ChatFinish, Citation, SearchInfo } from '@/lib/providers/types';
+import { insertCitationMarkers } from '@/lib/citations';
+import AttachmentList from './AttachmentList';
+
+interface MessageBubbleProps {
+    message: ConversationMessage;
+    // Omitted for messages that are never sent to the model (greetings, errors, streaming replies)
+    onTogglePin?: () => void;
+    // Position among the alternatives for this turn (edited copies of a user message, regenerated replies)
+    branch?: BranchPosition;
+    // Sends an edited copy of a user message as a new branch; omitted while a reply is being generated
+    onEdit?: (text: string) => void;
+    // Asks for another reply to the same question as a new branch; omitted while a reply is being generated
+    onRegenerate?: () => void;
+    // Asks the model to carry on with a truncated reply; omitted while a reply is being generated
+    onContinue?: () => void;
+}
+
+export interface BranchPosition {
+    index: number;
+    count: number;
+    // Switching is blocked while a reply is being generated
+    disabled: boolean;
+    onPrevious: () => void;
+    onNext: () => void;
+}
+
+const CITE_PREFIX = '#cite-';
+
+const citationAnchor = (messageId: string, sourceIndex: number) => `cite-${messageId}-${sourceIndex + 1}`;
+
+// Markdown link markers (rendered as superscripts) pointing at the numbered sources list
+const withCitationMarkers = (text: string, citations: Citation[] | undefined, messageId: string): string =>
+    insertCitationMarkers(text, citations, index => `[${index + 1}](#${citationAnchor(messageId, index)})`);
+
+// "HARM_CATEGORY_DANGEROUS_CONTENT" -> "dangerous content"
+const formatCategory = (category: string) => category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+// Explains a reply that did not complete normally; the wording depends on whether any text arrived
+function FinishNotice({ finish, hasText, onContinue }: { finish: ChatFinish; hasText: boolean; onContinue?: () => void }) {
+    if (finish.state === 'blocked') {
+        const categories = finish.categories?.length ? ` (${finish.categories.map(formatCategory).join(', ')})` : '';
+        const what = finish.promptBlocked ? 'Your message was blocked by the safety filters' : hasText ? 'The reply was stopped by the safety filters' : 'The reply was blocked by the safety filters';
+        return (
+            <div className="alert alert-warning p-2 mt-2 mb-0 small" role="alert">
+                🛡 <strong>{what}{categories}.</strong> Try rephrasing; this reply is not sent back to the model.
+            </div>
+        );
+    }
+    if (finish.state === 'truncated') {
+        return (
+            <div className="alert alert-secondary p-2 mt-2 mb-0 small d-flex align-items-center gap-2" role="status">
+                <span className="me-auto">✂ The reply was cut off at the length limit.</span>
+                {onContinue && <button className="btn btn-sm btn-outline-secondary py-0" onClick={onContinue}>Continue</button>}
+            </div>
+        );
+    }
+    if (finish.state === 'recitation') {
+        return (
+            <div className="alert alert-info p-2 mt-2 mb-0 small" role="status">
+                📚 The reply was stopped because it closely repeated existing material. Ask for a summary in your own words or regenerate it.
+            </div>
+        );
+    }
+    return null;
+}
+
+// Long results (e.g. a fetched page) are only previewed; the model received all of it
+const MAX_TOOL_RESULT_CHARS = 2000;
+
+const formatToolResult = (tool: ToolInvocation) => {
+    if (tool.error) return tool.error;
+    const json = JSON.stringify(tool.result, null, 2);
+    return json.length > MAX_TOOL_RESULT_CHARS ? `${json.slice(0, MAX_TOOL_RESULT_CHARS)}\n…` : json;
+};
+
+// The server-side tool calls behind a reply, collapsed to one line until opened
+function ToolCalls({ tools }: { tools: ToolInvocation[] }) {
+    const names = [...new Set(tools.map(tool => tool.name))].join(', ');
+    const failed = tools.filter(tool => tool.error).length;
+    return (
+        <details className="tool-calls small mb-2">
+            <summary className="text-muted">
+                🛠 Used {tools.length === 1 ? 'a tool' : `${tools.length} tools`}: {names}{failed > 0 && ` (${failed} failed)`}
+            </summary>
+            {tools.map((tool, index) => (
+                <div key={index} className="mt-2">
+                    <div className="d-flex align-items-baseline gap-2">
+                        <code>{tool.name}</code>
+                        <span className={tool.error ? 'text-danger' : 'text-success'}>{tool.error ? '✗ failed' : '✓'}</span>
+                        <span className="text-muted ms-auto">{tool.durationMs} ms</span>
+                    </div>
+                    <div className="text-muted mt-1">Arguments</div>
+                    <pre className="mb-1">{JSON.stringify(tool.args, null, 2)}</pre>
+                    <div className="text-muted">{tool.error ? 'Error' : 'Result'}</div>
+                    <pre className="mb-0">{formatToolResult(tool)}</pre>
+                </div>
+            ))}
+        </details>
+    );
+}
+
+// Images generated with /imagine or /edit; each opens full size in a new tab
+function GeneratedImages({ image, pending }: { image: ConversationImage; pending: boolean }) {
+    return (
+        <div className="mb-1">
+            <p className="small text-muted mb-2">🎨 {image.sourceImageId ? 'Edit' : 'Imagine'}: {image.prompt}</p>
+            {pending ? (
+                <div className="generated-image d-flex align-items-center justify-content-center border rounded-3 small text-muted">
+                    <span className="spinner-border spinner-border-sm me-2" role="status" aria-hidden="true"></span>
+                    Generating image…
+                </div>
+            ) : (
+                <div className="d-flex flex-wrap gap-2">
+                    {image.images.map(ref => (
+                        <a key={ref.id} href={ref.url} target="_blank" rel="noopener noreferrer" className="generated-image border rounded-3 overflow-hidden">
+                            <Image src={ref.url} alt={image.prompt} fill unoptimized sizes="256px" style={{ objectFit: 'cover' }} />
+                        </a>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Links in the suggestions chip open in a new tab; the frame itself never navigates
+const entryPointDocument = (html: string) => `<!DOCTYPE html><base target="_blank"><meta name="referrer" content="no-referrer">${html}`;
+
+/**
+ * What the model searched for, plus Google's search suggestions chip. The chip is self-contained HTML and CSS
+ * from the provider, so it is rendered in a sandboxed frame without scripts or access to the page.
+ */
+function SearchInfoPanel({ search }: { search: SearchInfo }) {
+    return (
+        <div className="search-info">
+            {search.queries.length > 0 && (
+                <p className="mb-1 text-muted" style={{ fontSize: '0.7rem' }}>
+                    🔎 Searched for: {search.queries.map((query, index) => (
+                        <span key={index} className="search-query">{query}</span>
+                    ))}
+                </p>
+            )}
+            {search.entryPoint && (
+                <iframe
+                    className="search-entry-point"
+                    title="Google Search suggestions"
+                    sandbox="allow-popups allow-popups-to-escape-sandbox"
+                    srcDoc={entryPointDocument(search.entryPoint)}
+                />
+            )}
+        </div>
+    );
+}
+
+// Bootstrap-flavoured renderers for the Markdown elements models commonly emit
+const markdownComponents: Components = {
+    a: ({ href, children }) => {
+        if (href?.startsWith(CITE_PREFIX)) {
+            return (
+                <sup className="citation-marker">
+                    <a href={href} className="text-decoration-none">[{children}]</a>
+                </sup>
+            );
+        }
+        return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+    },
+    table: ({ children }) => (
+        <div className="table-responsive">
+            <table className="table table-sm table-bordered mb-2">{children}</table>
+        </div>
+    ),
+};
+
+/**
+ * MessageBubble Component: Renders a single chat message (User or AI).
+ * AI replies are rendered as Markdown with inline citation markers linking to the numbered sources list.
+ * The footer switches between branches ("< 2/3 >") and offers edit (user) or regenerate (AI).
+ * Blocked, truncated and recitation-limited replies get a notice (truncated ones with a Continue action), and
+ * server-side tool calls are listed in a collapsible section above the reply. Grounded replies show their search
+ * queries and the search suggestions chip below the sources. Image messages (/imagine, /edit) show their prompt
+ * and the generated images.
+ */
+const MessageBubble = ({ message, onTogglePin, branch, onEdit, onRegenerate, onContinue }: MessageBubbleProps) => {
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState('');
+    const isUser = message.role === 'user';
+    // Sources are de-duplicated server-side; citation indices refer to positions in this list
+    const sources = message.sources || [];
+
+    // Bootstrap classes for styling
+    const bubbleClass = isUser
+        ? 'bg-primary text-white ms-auto border-0' // Blue for user
+        : 'bg-light text-dark me-auto border';     // Light background for AI
+    const failedClass = message.status === 'error' ? 'border-danger' : message.finish?.state === 'blocked' ? 'border-warning' : '';
+    const cursor = message.status === 'streaming' && !message.image && <span className="streaming-cursor" aria-hidden="true">▍</span>;
+    const showBranch = branch && branch.count > 1;
+
+    const startEditing = () => {
+        setDraft(message.text);
+        setEditing(true);
+    };
+
+    const submitEdit = () => {
+        if (!onEdit || (!draft.trim() && !message.attachments?.length)) return;
+        onEdit(draft.trim());
+        setEditing(false);
+    };
+
+    return (
+        <div className={`d-flex mb-3 ${isUser ? 'justify-content-end' : 'justify-content-start'}`}>
+            <div
+                className={`card p-3 shadow-sm message-bubble ${bubbleClass} ${failedClass} ${message.pinned ? 'pinned' : ''}`}
+                // Custom style for rounded corners to match the original app's look
+                style={{ maxWidth: '85%', borderRadius: isUser ? '1rem 1rem 0.25rem 1rem' : '1rem 1rem 1rem 0.25rem'}}
+            >
+                {onTogglePin && (
+                    <button
+                        type="button"
+                        className={`btn btn-sm p-0 border-0 pin-toggle ${message.pinned ? 'active' : ''}`}
+                        onClick={onTogglePin}
+                        title={message.pinned ? 'Unpin (may be summarized in long conversations)' : 'Pin (always sent to the model word for word)'}
+                        aria-pressed={!!message.pinned}
+                        aria-label={message.pinned ? 'Unpin message' : 'Pin message'}
+                    >
+                        📌
+                    </button>
+                )}
+                {!!message.attachments?.length && (
+                    <div className={message.text ? 'mb-2' : ''}>
+                        <AttachmentList items={message.attachments.map(attachment => ({ key: attachment.id, ...attachment }))} />
+                    </div>
+                )}
+                {!isUser && !!message.tools?.length && <ToolCalls tools={message.tools} />}
+                {message.image && <GeneratedImages image={message.image} pending={message.status === 'streaming'} />}
+                {isUser && editing ? (
+                    <div>
+                        <textarea
+                            className="form-control form-control-sm mb-2"
+                            rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+                            value={draft}
+                            autoFocus
+                            aria-label="Edit message"
+                            onChange={(e) => setDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                                if (e.key === 'Escape') setEditing(false);
+                            }}
+                        />
+                        <div className="d-flex justify-content-end gap-2">
+                            <button className="btn btn-sm btn-light" onClick={() => setEditing(false)}>Cancel</button>
+                            <button
+                                className="btn btn-sm btn-outline-light"
+                                onClick={submitEdit}
+                                disabled={!onEdit || draft.trim() === message.text || (!draft.trim() && !message.attachments?.length)}
+                            >
+                                Save &amp; send
+                            </button>
+                        </div>
+                    </div>
+                ) : isUser ? (
+                    message.text && <p className="mb-0 pre-wrap">{message.text}</p>
+                ) : message.text || cursor ? (
+                    <div className="markdown-body">
+                        <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                            {withCitationMarkers(message.text, message.citations, message.id)}
+                        </ReactMarkdown>
+                        {cursor}
+                    </div>
+                ) : null}
+                {/* Failed requests carry their explanation as the text; interrupted streams keep the partial text plus a detail */}
+                {message.status === 'error' && message.errorDetail && (
+                    <div className="alert alert-danger p-2 mt-2 mb-0 small" role="alert">
+                        <strong>Response interrupted:</strong> {message.errorDetail}
+                    </div>
+                )}
+                {message.finish && message.status !== 'streaming' && (
+                    <FinishNotice finish={message.finish} hasText={!!message.text} onContinue={onContinue} />
+                )}
+                {(sources.length > 0 || message.search) && (
+                    <div className="mt-2 pt-2 border-top border-light border-opacity-50 text-start">
+                        {sources.length > 0 && (
+                            <p className="fw-bold mb-1" style={{ fontSize: '0.8rem', color: isUser ? '#f0f0f0' : '#6c757d' }}>Sources:</p>
+                        )}
+                        {sources.map((s, index) => (
+                            <div key={index} id={citationAnchor(message.id, index)} className="text-truncate source-item" style={{ fontSize: '0.7rem' }}>
+                                <a href={s.uri} target="_blank" rel="noopener noreferrer" className="text-success text-decoration-none">
+                                    {index + 1}. {s.title || s.uri}
+                                </a>
+                            </div>
+                        ))}
+                        {message.search && <SearchInfoPanel search={message.search} />}
+                    </div>
+                )}
+                {!editing && (showBranch || onEdit || onRegenerate) && (
+                    <div className={`d-flex align-items-center gap-1 mt-2 small message-actions ${isUser ? 'justify-content-end' : ''}`}>
+                        {showBranch && (
+                            <span className="d-inline-flex align-items-center" aria-label={`Version ${branch.index + 1} of ${branch.count}`}>
+                                <button
+                                    className="btn btn-sm p-0 px-1 border-0"
+                                    style={{ color: 'inherit' }}
+                                    onClick={branch.onPrevious}
+                                    disabled={branch.disabled || branch.index === 0}
+                                    aria-label="Previous version"
+                                >
+                                    ‹
+                                </button>
+                                {branch.index + 1}/{branch.count}
+                                <button
+                                    className="btn btn-sm p-0 px-1 border-0"
+                                    style={{ color: 'inherit' }}
+                                    onClick={branch.onNext}
+                                    disabled={branch.disabled || branch.index === branch.count - 1}
+                                    aria-label="Next version"
+                                >
+                                    ›
+                                </button>
+                            </span>
+                        )}
+                        {onEdit && (
+                            <button className="btn btn-sm p-0 px-1 border-0" style={{ color: 'inherit' }} onClick={startEditing} title="Edit and resend" aria-label="Edit message">
+                                ✎
+                            </button>
+                        )}
+                        {onRegenerate && (
+                            <button className="btn btn-sm p-0 px-1 border-0" style={{ color: 'inherit' }} onClick={onRegenerate} title="Regenerate reply" aria-label="Regenerate reply">
+                                ↻
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default MessageBubble;
@@ -0,0 +1,79 @@
+"use client";
+import React, { useState } from 'react';
+import type { SessionUser } from '@/lib/auth/session';
+
+interface SignInFormProps {
+    onSignedIn: (user: SessionUser) => void;
+}
+
+/**
+ * SignInForm Component: Username/password form backed by POST /api/auth/signin.
+ */
+const SignInForm = ({ onSignedIn }: SignInFormProps) => {
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        setSubmitting(true);
+        setError('');
+
+        try {
+            const response = await fetch('/api/auth/signin', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username, password }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result?.error?.message || `Sign-in failed. Status: ${response.status}`);
+            }
+            setPassword('');
+            onSignedIn(result.user as SessionUser);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : 'Sign-in failed.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <form className="bg-white shadow-lg rounded-4 p-4 p-md-5" style={{ width: '100%', maxWidth: '420px', zIndex: 1 }} onSubmit={handleSubmit}>
+            <h1 className="h4 fw-bolder text-dark mb-4">Sign in</h1>
+            <div className="mb-3">
+                <label className="form-label small text-muted" htmlFor="signin-username">Username</label>
+                <input
+                    id="signin-username"
+                    className="form-control"
+                    autoComplete="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    disabled={submitting}
+                    autoFocus
+                />
+            </div>
+            <div className="mb-3">
+                <label className="form-label small text-muted" htmlFor="signin-password">Password</label>
+                <input
+                    id="signin-password"
+                    type="password"
+                    className="form-control"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={submitting}
+                />
+            </div>
+            {error && (
+                <div className="alert alert-danger p-2 small" role="alert">{error}</div>
+            )}
+            <button type="submit" className="btn btn-primary w-100" disabled={submitting || !username || !password}>
+                {submitting ? <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true"></span> : 'Sign in'}
+            </button>
+        </form>
+    );
+};
+
+export default SignInForm;
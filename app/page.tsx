@@ -1,229 +1,440 @@
 "use client";
 import React, { useState, useEffect, useRef } from 'react';
+import type { ChatFinish, Citation, SearchInfo, Source, TokenUsage } from '@/lib/providers/types';
+import type { Conversation, ConversationMessage, ConversationSummary } from '@/lib/conversations/types';
+import { activeBranch, latestLeaf, normalizeTree, siblingsById } from '@/lib/conversations/tree';
+import { readSseEvents } from '@/lib/sse';
+import { ApiErrorResponse, describeApiError } from '@/lib/apiErrors';
+import {
+    ChatApiResponse, ChatApiStreamEvent, ChatContextInfo, ChatRequestMessage, GroundingMode, MAX_MESSAGE_CHARS, ToolInvocation,
+} from '@/lib/chatApi';
+import type { SessionUser } from '@/lib/auth/session';
+import type { UsageReport } from '@/lib/usage';
+import type { PersonaListResponse, PersonaSummary } from '@/lib/personas/types';
+import type { HealthResponse } from '@/lib/healthApi';
+import { BACKGROUND_STYLES, BackgroundResponse, BackgroundStyle, ConversationBackground } from '@/lib/backgroundApi';
+import type { GalleryImage, ImageGenerationResponse } from '@/lib/imageApi';
+import { CommandContext, CommandSuggestion, parseSlashCommand, suggestCommands } from '@/lib/commands';
+import type { ExportFormat } from '@/lib/exportApi';
+import type { CompareCandidate, CompareOptionsResponse, CompareVoteCandidate, CompareVoteRequest } from '@/lib/compareApi';
+import {
+    ATTACHMENT_MIME_TYPES, AttachmentRef, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_MESSAGE,
+    formatBytes, resolveAttachmentMimeType,
+} from '@/lib/attachmentApi';
+import AttachmentList, { type AttachmentListItem } from './components/AttachmentList';
+import BackgroundGallery from './components/BackgroundGallery';
+import BackgroundControls from './components/BackgroundControls';
+import CommandMenu from './components/CommandMenu';
+import CompareSetup from './components/CompareSetup';
+import CompareView from './components/CompareView';
+import ConversationSidebar from './components/ConversationSidebar';
+import HealthNotices from './components/HealthNotices';
+import MessageBubble from './components/MessageBubble';
+import SignInForm from './components/SignInForm';
 
 // --- TypeScript Interface Definitions ---
 
-interface Source {
-    uri: string;
-    title?: string;
-}
+// Messages are stored server-side exactly as rendered, so the client uses the persisted shape directly
+type ChatMessage = ConversationMessage;
 
-interface ChatMessage {
-    role: 'user' | 'ai';
-    text: string;
-    sources?: Source[];
+// A file picked, dropped or pasted into the composer; `ref` is set once the upload finished
+interface PendingAttachment extends AttachmentListItem {
+    ref?: AttachmentRef;
 }
 
-interface MessageBubbleProps {
-    message: ChatMessage;
+// One column of a comparison: the reply's message (a sibling branch below the question) and its timings
+interface ComparisonColumn extends CompareCandidate {
+    messageId: string;
+    firstTokenMs?: number;
+    latencyMs?: number;
+    usage?: TokenUsage;
 }
 
-// Custom interface for the browser global object to avoid 'any' error
-interface CustomWindow extends Window {
-    __initial_auth_token?: string;
+// The replies on screen side by side, until the user continues with one of them
+interface Comparison {
+    questionId: string;
+    columns: ComparisonColumn[];
+    vote?: number | 'tie';
 }
 
-// Interface for the API response structure 
-interface GeminiResponse {
-    candidates?: {
-        content?: {
-            parts?: { text: string }[];
-        };
-        groundingMetadata?: {
-            groundingAttributions?: {
-                web?: {
-                    uri: string;
-                    title: string;
-                } | undefined;
-            }[] | undefined;
-        };
-    }[];
-    error?: {
-        message: string;
-    };
-}
+// Quiet time after a reply before a new background is requested, and how many recent turns it is based on
+const BACKGROUND_DEBOUNCE_MS = 4000;
+const BACKGROUND_CONTEXT_MESSAGES = 6;
+const BACKGROUND_STYLE_KEY = 'backgroundStyle';
 
-// Interface for Imagen API response structure
-interface ImagenResponse {
-    predictions?: {
-        bytesBase64Encoded: string;
-    }[];
-    // ADDED: Include optional error structure for failed API calls from the proxy
-    error?: {
-        message: string;
-    };
-}
+const formatCount = (value: number) => value >= 10000 ? `${Math.round(value / 1000)}k` : String(value);
+
+const greetingText = (name?: string) => `Hello${name ? ` ${name}` : ''}! I am a grounded AI assistant. Ask me anything, and I will use Google Search to provide up-to-date, sourced information. As a bonus, I'll update the background image based on our conversation's topic!`;
+
+const createMessage = (role: ChatMessage['role'], text: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+    id: crypto.randomUUID(),
+    role,
+    text,
+    createdAt: new Date().toISOString(),
+    ...extra,
+});
+
+// The greeting is UI-only: it is shown in the chat but never sent to the model.
+// Personas bring their own greeting; the built-in text is used until they are loaded.
+const greetingMessage = (name?: string, persona?: PersonaSummary) => createMessage(
+    'ai',
+    persona ? persona.greeting.replace(/\{name\}/g, name || 'there') : greetingText(name),
+    { uiOnly: true, parentId: null },
+);
 
+// What the save effect compares against to skip no-op saves
+const serializeTree = (messages: ChatMessage[], leafId: string | undefined) => JSON.stringify({ messages, leafId });
 
 /**
- * MessageBubble Component: Renders a single chat message (User or AI)
+ * Converts the visible history into the turns sent to /api/chat. UI-only messages, failed requests
+ * (error bubbles, interrupted replies) and replies blocked by safety filters are left out, as are assistant
+ * messages before the first user turn (greetings saved before UI-only messages were marked).
  */
-const MessageBubble = ({ message }: MessageBubbleProps) => {
-    const isUser = message.role === 'user';
-    const uniqueSources = message.sources 
-        ? message.sources.filter((v, i, a) => a.findIndex(t => (t.uri === v.uri)) === i)
-        : [];
-        
-    // Bootstrap classes for styling
-    const bubbleClass = isUser 
-        ? 'bg-primary text-white ms-auto border-0' // Blue for user
-        : 'bg-light text-dark me-auto border';     // Light background for AI
+const toChatRequestMessages = (messages: ChatMessage[]): ChatRequestMessage[] => {
+    const turns = messages.filter(msg => !msg.uiOnly && msg.status !== 'error' && msg.finish?.state !== 'blocked'
+        && (msg.text || msg.attachments?.length));
+    const firstUser = turns.findIndex(msg => msg.role === 'user');
+    return turns.slice(Math.max(firstUser, 0)).map(msg => ({
+        id: msg.id,
+        role: msg.role === 'user' ? 'user' : 'assistant',
+        content: msg.text,
+        ...(msg.attachments?.length ? { attachmentIds: msg.attachments.map(attachment => attachment.id) } : {}),
+        ...(msg.pinned ? { pinned: true } : {}),
+    }));
+};
 
-    return (
-        <div className={`d-flex mb-3 ${isUser ? 'justify-content-end' : 'justify-content-start'}`}>
-            <div 
-                className={`card p-3 shadow-sm ${bubbleClass}`} 
-                // Custom style for rounded corners to match the original app's look
-                style={{ maxWidth: '85%', borderRadius: isUser ? '1rem 1rem 0.25rem 1rem' : '1rem 1rem 1rem 0.25rem'}}
-            >
-                <p className="mb-0 pre-wrap">{message.text}</p>
-                {uniqueSources.length > 0 && (
-                    <div className="mt-2 pt-2 border-top border-light border-opacity-50 text-start">
-                        <p className="fw-bold mb-1" style={{ fontSize: '0.8rem', color: isUser ? '#f0f0f0' : '#6c757d' }}>Sources:</p>
-                        {uniqueSources.map((s, index) => (
-                            <div key={index} className="text-truncate" style={{ fontSize: '0.7rem' }}>
-                                <a href={s.uri} target="_blank" rel="noopener noreferrer" className="text-success text-decoration-none">
-                                    {index + 1}. {s.title || s.uri}
-                                </a>
-                            </div>
-                        ))}
-                    </div>
-                )}
-            </div>
-        </div>
-    );
+// Sent after a truncated reply to have the model pick up where it stopped; never stored in the conversation
+const CONTINUE_PROMPT = 'Continue exactly where your previous reply stopped. Do not repeat anything you already wrote.';
+
+// A streamed /api/chat reply as read so far; `final` is the response of the `done` event
+interface StreamedReply {
+    text: string;
+    tools: ToolInvocation[];
+    final?: ChatApiResponse;
+    error?: string;
+}
+
+/**
+ * Reads the SSE body of a streamed /api/chat reply; `onProgress` sees the text and tool calls as they arrive.
+ * A connection lost while reading is reported in `error` like the server's `error` events (unless aborted).
+ */
+const readChatReply = async (
+    body: ReadableStream<Uint8Array>, signal: AbortSignal, onProgress: (reply: StreamedReply) => void,
+): Promise<StreamedReply> => {
+    const reply: StreamedReply = { text: '', tools: [] };
+    try {
+        for await (const frame of readSseEvents(body)) {
+            let streamEvent: ChatApiStreamEvent;
+            try {
+                streamEvent = JSON.parse(frame.data) as ChatApiStreamEvent;
+            } catch {
+                continue; // Ignore keep-alives or partial garbage
+            }
+
+            if (streamEvent.type === 'delta') {
+                reply.text += streamEvent.text;
+                onProgress(reply);
+            } else if (streamEvent.type === 'tool') {
+                // Tool calls are shown as they finish and stay on the message however the reply ends
+                reply.tools = [...reply.tools, streamEvent.tool];
+                onProgress(reply);
+            } else if (streamEvent.type === 'done') {
+                // The final event carries the full text plus grounding sources and citation offsets
+                reply.final = streamEvent.response;
+            } else if (streamEvent.type === 'error') {
+                reply.error = streamEvent.error.message || 'The stream ended unexpectedly.';
+            }
+        }
+    } catch (error) {
+        if (!signal.aborted) {
+            console.error('Stream Read Error:', error);
+            reply.error = error instanceof Error ? error.message : 'The connection was lost while streaming.';
+        }
+    }
+    return reply;
 };
 
+// The most recent background in a conversation is the one to restore when reopening it
+const latestBackground = (messages: ChatMessage[]): string =>
+    [...messages].reverse().find(message => message.backgroundImage)?.backgroundImage || '';
+
 /**
  * Main Application Component (ChatClient) - Client Component for UI and Interaction
  */
 const ChatClient = () => {
-    const [chatHistory, setChatHistory] = useState<ChatMessage[]>([
-        { role: 'ai', text: "Hello Skathix! I am a grounded AI assistant. Ask me anything, and I will use Google Search to provide up-to-date, sourced information. As a bonus, I'll update the background image based on our conversation's topic!" }
-    ]);
+    const [chatHistory, setChatHistory] = useState<ChatMessage[]>(() => [greetingMessage()]);
     const [userInput, setUserInput] = useState('');
     const [loading, setLoading] = useState(true);
     const [backgroundLoading, setBackgroundLoading] = useState(false);
-    const [userId, setUserId] = useState('Initializing...');
-    const [backgroundImage, setBackgroundImage] = useState<string>(''); // Base64 image URL
+    const [authStatus, setAuthStatus] = useState<'checking' | 'signedOut' | 'signedIn' | 'error'>('checking');
+    const [user, setUser] = useState<SessionUser | null>(null);
+    const [usage, setUsage] = useState<UsageReport | null>(null);
+    const [background, setBackground] = useState<ConversationBackground>({}); // Background of the active conversation
+    const [backgroundStyle, setBackgroundStyle] = useState<BackgroundStyle>('fantasy');
+    const backgroundTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const [galleryOpen, setGalleryOpen] = useState(false);
+    const [backgroundBlocked, setBackgroundBlocked] = useState<string | null>(null); // Why the last background was refused
     const chatRef = useRef<HTMLDivElement>(null);
-    const [apiKeyExists, setApiKeyExists] = useState(true); 
+    const [health, setHealth] = useState<HealthResponse | null>(null); // Provider configuration and reachability
+    const [healthCheckFailed, setHealthCheckFailed] = useState(false);
+    const [healthChecking, setHealthChecking] = useState(false);
     const isInitialRender = useRef(true); // Flag to prevent background generation on initial load
+    const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+    const [conversationId, setConversationId] = useState<string | null>(null);
+    const conversationIdRef = useRef<string | null>(null); // Read by async callbacks that outlive a conversation switch
+    const lastSavedRef = useRef<string>(''); // Serialized message tree of the last save, to skip no-op saves
+    const [activeLeafId, setActiveLeafId] = useState<string | null>(null); // Last message of the branch on screen (null = latest)
+    const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+    const [dragActive, setDragActive] = useState(false);
+    const [contextInfo, setContextInfo] = useState<ChatContextInfo | null>(null); // How the last request fit the token budget
+    const [personaList, setPersonaList] = useState<PersonaListResponse | null>(null);
+    const [personaId, setPersonaId] = useState<string | null>(null); // Persona of the active conversation (null = default)
+    const [groundingChoice, setGroundingChoice] = useState<GroundingMode | null>(null); // Web search for the next turns (null = persona's default)
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [generating, setGenerating] = useState(false); // A chat request is in flight and can be stopped
+    const chatAbortRef = useRef<AbortController | null>(null);
+    const [commandNotice, setCommandNotice] = useState<string | null>(null); // Output of the last slash command
+    const [commandMenu, setCommandMenu] = useState({ index: 0, dismissed: false }); // Autocomplete state for the input
+    const [compareOptions, setCompareOptions] = useState<CompareOptionsResponse | null>(null); // Models a compare column can use
+    const [compareCandidates, setCompareCandidates] = useState<CompareCandidate[] | null>(null); // Compare columns (null = compare mode off)
+    const [comparison, setComparison] = useState<Comparison | null>(null);
+
+    // `chatHistory` holds every branch of the conversation; only the active one is shown and sent to the model
+    const visibleMessages = activeBranch(chatHistory, activeLeafId);
+    const visibleLeafId = visibleMessages[visibleMessages.length - 1]?.id;
+    const siblingGroups = siblingsById(chatHistory);
+    // A comparison is shown in place of its replies while one of them ends the branch on screen
+    const shownComparison = comparison?.columns.some(column => column.messageId === visibleLeafId) ? comparison : null;
 
     // --- 1. Authentication Setup & API Key Check ---
-    useEffect(() => {
-        const initializeAuth = async () => {
-            try {
-                const initialAuthToken = typeof window !== 'undefined' && typeof (window as CustomWindow).__initial_auth_token !== 'undefined' 
-                    ? (window as CustomWindow).__initial_auth_token 
-                    : null;
-                
-                let mockUserId = 'anonymous-user-' + Math.random().toString(36).substring(2, 9);
-                if (initialAuthToken) {
-                    mockUserId = 'auth-user-' + initialAuthToken.substring(0, 8); 
-                }
-                setUserId(mockUserId);
+    // Runs once a session is known to be valid (on load or right after signing in)
+    const startSession = async (sessionUser: SessionUser) => {
+        setUser(sessionUser);
+        setAuthStatus('signedIn');
+        setLoading(true);
 
-                try {
-                    const checkResponse = await fetch('/api/chat', { method: 'GET' });
-                    if (!checkResponse.ok) { 
-                        setApiKeyExists(false); 
-                    }
-                } catch (error) {
-                    console.error("API Key Check Error:", error);
-                    setApiKeyExists(false); 
-                }
+        const personas = await loadPersonas();
+        const defaultPersona = personas?.personas.find(persona => persona.id === personas.defaultPersonaId);
+        activateConversation(null, [greetingMessage(sessionUser.name, defaultPersona)], defaultPersona?.id);
 
-                setLoading(false);
-            } catch (error) {
-                console.error("Initialization Error:", error);
-                setUserId('Auth Error');
-                setLoading(false);
-                setApiKeyExists(false); 
-            }
-        };
+        await Promise.all([checkHealth(), refreshConversations(), refreshUsage(), loadCompareOptions()]);
+        setLoading(false);
+    };
 
-        initializeAuth();
-    }, []);
+    // 503 (chat cannot work) still carries the full report
+    const checkHealth = async () => {
+        setHealthChecking(true);
+        try {
+            const response = await fetch('/api/health');
+            if (!response.ok && response.status !== 503) throw new Error(`HTTP error! Status: ${response.status}`);
+            setHealth((await response.json()) as HealthResponse);
+            setHealthCheckFailed(false);
+        } catch (error) {
+            console.error('Health Check Error:', error);
+            setHealthCheckFailed(true);
+        }
+        setHealthChecking(false);
+    };
 
-    // --- 2. Dynamic Background Generation Logic ---
-    const generateAndSetBackground = async (prompt: string) => {
-        setBackgroundLoading(true);
+    const loadPersonas = async (): Promise<PersonaListResponse | null> => {
+        try {
+            const response = await fetch('/api/personas');
+            if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
+            const result = (await response.json()) as PersonaListResponse;
+            setPersonaList(result);
+            return result;
+        } catch (error) {
+            // Chat still works with the server's default persona
+            console.error('Persona List Error:', error);
+            return null;
+        }
+    };
 
-        const imagePrompt = `A stunning, high-definition fantasy illustration for the topic: "${prompt}". Focus on cinematic lighting, epic composition, and painterly detail. Digital art. Cinematic.`;
-        
-        // Use the local proxy route instead of the public endpoint
-        const apiUrl = '/api/image'; 
+    // Without the list compare mode only offers the server's chat model
+    const loadCompareOptions = async () => {
+        try {
+            const response = await fetch('/api/compare');
+            if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
+            setCompareOptions((await response.json()) as CompareOptionsResponse);
+        } catch (error) {
+            console.error('Compare Options Error:', error);
+        }
+    };
 
-        const payload = { 
-            instances: { prompt: imagePrompt }, 
-            parameters: { "sampleCount": 1 } 
-        };
+    const findPersona = (id: string | null | undefined) =>
+        personaList?.personas.find(persona => persona.id === (id || personaList.defaultPersonaId));
 
-        const maxRetries = 3;
-        let delay = 1000;
-        let base64Data: string | undefined;
+    // Personas that search by default decide per turn, so casual and creative prompts skip the search
+    const activePersona = findPersona(personaId);
+    const groundingMode: GroundingMode = groundingChoice || (activePersona?.grounding ? 'auto' : 'off');
 
-        for (let i = 0; i < maxRetries; i++) {
-            try {
-                const response = await fetch(apiUrl, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify(payload)
-                });
-                
-                if (response.status === 429) { // Handle rate limiting
-                    if (i < maxRetries - 1) {
-                        await new Promise(resolve => setTimeout(resolve, delay));
-                        delay *= 2;
-                        continue;
-                    }
-                }
+    const refreshUsage = async () => {
+        try {
+            const response = await fetch('/api/usage');
+            if (response.ok) setUsage((await response.json()) as UsageReport);
+        } catch (error) {
+            console.error('Usage Fetch Error:', error);
+        }
+    };
 
-                const result: ImagenResponse = await response.json();
-                
-                // If the response is not OK (e.g., 500 from our proxy for API key error), throw
-                if (!response.ok) {
-                    // This line now correctly accesses the optional 'error' property on ImagenResponse
-                    throw new Error(result?.error?.message || `Image API HTTP error! Status: ${response.status}`);
-                }
+    // Called on sign-out and whenever an API route answers 401 (expired or revoked session)
+    const endSession = () => {
+        setUser(null);
+        setUsage(null);
+        setAuthStatus('signedOut');
+        setConversations([]);
+        activateConversation(null, [greetingMessage()]);
+        setLoading(false);
+    };
 
-                base64Data = result?.predictions?.[0]?.bytesBase64Encoded;
+    const signOut = async () => {
+        try {
+            await fetch('/api/auth/signout', { method: 'POST' });
+        } catch (error) {
+            console.error("Sign-out Error:", error);
+        }
+        endSession();
+    };
 
-                if (!base64Data) {
-                    // Check if there was a problem with the payload/API but no HTTP error
-                    if (result?.error?.message) {
-                        throw new Error(`Image API Error: ${result.error.message}`);
-                    }
-                    throw new Error("Received empty or malformed image data.");
-                }
-                break;
-            } catch (error) {
-                console.error('Image Generation Error:', error);
-                if (i === maxRetries - 1) {
-                    console.error("Failed to generate image after retries.");
-                    setBackgroundLoading(false);
-                    return;
-                }
-                await new Promise(resolve => setTimeout(resolve, delay));
-                delay *= 2;
+    const initializeAuth = async () => {
+        try {
+            const sessionResponse = await fetch('/api/auth/session');
+            if (sessionResponse.status === 401) {
+                endSession();
+                return;
             }
+            if (!sessionResponse.ok) throw new Error(`Session check failed. Status: ${sessionResponse.status}`);
+
+            const { user: sessionUser } = (await sessionResponse.json()) as { user: SessionUser };
+            await startSession(sessionUser);
+        } catch (error) {
+            console.error("Initialization Error:", error);
+            setAuthStatus('error');
+            setLoading(false);
         }
-        
-        if (base64Data) {
-            const imageUrl = `url(data:image/png;base64,${base64Data})`;
-            setBackgroundImage(imageUrl);
+    };
+
+    // Runs once on mount; the ref keeps the first render's handler, so the effect has no dependencies
+    const initializeAuthRef = useRef(initializeAuth);
+    useEffect(() => {
+        initializeAuthRef.current();
+    }, []);
+
+    // --- 2. Dynamic Background Generation Logic ---
+    // The server picks the scene from the recent turns and skips the request while the background is pinned,
+    // recent or still on topic. `messages` is the history to base it on; `force` is the "Regenerate" button.
+    const requestBackground = async (messages: ChatMessage[], force = false) => {
+        const recent = toChatRequestMessages(messages).slice(-BACKGROUND_CONTEXT_MESSAGES).map(({ role, content }) => ({ role, content }));
+        if (backgroundStyle === 'off' || !imagesAvailable || !recent.length) return;
+
+        setBackgroundLoading(true);
+        const startedInConversation = conversationIdRef.current;
+
+        try {
+            const response = await fetch('/api/background', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...(startedInConversation ? { conversationId: startedInConversation } : {}),
+                    style: backgroundStyle,
+                    messages: recent,
+                    ...(force ? { force: true } : {}),
+                }),
+            });
+            const result = (await response.json()) as Partial<BackgroundResponse & ApiErrorResponse>;
+
+            if (!response.ok) {
+                // Refused prompts, exhausted quotas and upstream outages all end up here; the old background stays
+                console.warn(`Background image not generated (${result.error?.code ?? response.status}): ${result.error?.message ?? ''}`);
+                if (result.error?.code === 'blocked') setBackgroundBlocked(result.error.message);
+            } else if (result.generated && result.background && conversationIdRef.current === startedInConversation) {
+                // Dropped if the user switched conversations while it was generating
+                setBackground(result.background);
+                setBackgroundBlocked(null);
+            }
+        } catch (error) {
+            console.error('Background Generation Error:', error);
         }
+
+        refreshUsage();
         setBackgroundLoading(false);
     };
 
+    // Waits for the conversation to settle, so a quick exchange of messages yields one request instead of several
+    const scheduleBackground = (messages: ChatMessage[]) => {
+        if (backgroundTimerRef.current) clearTimeout(backgroundTimerRef.current);
+        backgroundTimerRef.current = setTimeout(() => {
+            backgroundTimerRef.current = null;
+            requestBackground(messages);
+        }, BACKGROUND_DEBOUNCE_MS);
+    };
+
+    const cancelScheduledBackground = () => {
+        if (backgroundTimerRef.current) clearTimeout(backgroundTimerRef.current);
+        backgroundTimerRef.current = null;
+    };
+
+    // Pin, restore and gallery picks are saved on the conversation right away
+    const saveBackground = async (next: ConversationBackground) => {
+        setBackground(next);
+        const id = conversationIdRef.current;
+        if (!id) return;
+        try {
+            await fetch(`/api/conversations/${id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ background: next }),
+            });
+        } catch (error) {
+            console.error('Conversation Background Error:', error);
+        }
+    };
+
+    const toggleBackgroundPin = () => saveBackground({ ...background, pinned: !background.pinned });
+
+    const restorePreviousBackground = () => {
+        if (!background.previous) return;
+        saveBackground({ current: background.previous, previous: background.current, pinned: background.pinned });
+    };
+
+    // A background picked from the gallery is a deliberate choice, so it is pinned
+    const applyGalleryImage = (image: GalleryImage) => {
+        saveBackground({
+            current: {
+                url: image.url,
+                topic: image.prompt,
+                style: backgroundStyle === 'off' ? 'fantasy' : backgroundStyle,
+                createdAt: new Date().toISOString(),
+            },
+            ...(background.current ? { previous: background.current } : {}),
+            pinned: true,
+        });
+        setGalleryOpen(false);
+    };
+
+    const changeBackgroundStyle = (style: BackgroundStyle) => {
+        setBackgroundStyle(style);
+        localStorage.setItem(BACKGROUND_STYLE_KEY, style);
+        if (style === 'off') cancelScheduledBackground();
+    };
+
     // --- 3. Apply Background to Body (via style injection) ---
+    // Conversations saved before backgrounds were stored on the conversation keep theirs on a message
+    const backgroundImage = backgroundStyle === 'off' ? ''
+        : background.current ? `url(${background.current.url})` : latestBackground(visibleMessages);
+
+    useEffect(() => {
+        const saved = localStorage.getItem(BACKGROUND_STYLE_KEY);
+        if ((BACKGROUND_STYLES as readonly string[]).includes(saved || '')) setBackgroundStyle(saved as BackgroundStyle);
+    }, []);
+
     useEffect(() => {
         if (backgroundImage) {
             // Apply the image URL to the CSS variable in the body style
             document.body.style.setProperty('--dynamic-bg-image', backgroundImage);
             document.body.style.setProperty('--dynamic-bg-opacity', '1'); // Show overlay when image is set
         } else {
+            document.body.style.setProperty('--dynamic-bg-image', 'none');
             document.body.style.setProperty('--dynamic-bg-opacity', '0'); // Hide overlay when no image is set
         }
     }, [backgroundImage]);
@@ -235,132 +446,774 @@ const ChatClient = () => {
         }
     }, [chatHistory]);
 
-    // --- 5. Chat Logic: Send Message to API Proxy Route ---
+    // --- 5. Conversation Persistence ---
+    const refreshConversations = async () => {
+        try {
+            const response = await fetch('/api/conversations');
+            if (response.status === 401) return endSession();
+            if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
+            const result = (await response.json()) as { conversations: ConversationSummary[] };
+            setConversations(result.conversations);
+        } catch (error) {
+            console.error('Conversation List Error:', error);
+        }
+    };
+
+    // The save effect below refreshes the sidebar through the latest render's function without re-running for it
+    const refreshConversationsRef = useRef(refreshConversations);
+    useEffect(() => {
+        refreshConversationsRef.current = refreshConversations;
+    });
+
+    const activateConversation = (
+        id: string | null, messages: ChatMessage[], persona?: string, conversationBackground?: ConversationBackground, leafId?: string,
+    ) => {
+        // A reply still streaming (or a background still waiting) belongs to the conversation being left
+        chatAbortRef.current?.abort();
+        cancelScheduledBackground();
+        conversationIdRef.current = id;
+        setPersonaId(persona || null);
+        setGroundingChoice(null);
+        // Conversations saved before branching get their tree links here; they are saved with the next change
+        const tree = normalizeTree(messages);
+        const branch = activeBranch(tree, leafId);
+        lastSavedRef.current = serializeTree(tree, branch[branch.length - 1]?.id);
+        setConversationId(id);
+        setChatHistory(tree);
+        setActiveLeafId(leafId || null);
+        setBackground(conversationBackground || {});
+        setBackgroundBlocked(null);
+        setContextInfo(null);
+        setComparison(null);
+    };
+
+    // Switching persona before the first question also swaps the greeting; later switches apply from the next reply on
+    const changePersona = async (id: string) => {
+        setPersonaId(id);
+        setGroundingChoice(null);
+        if (chatHistory.every(message => message.uiOnly)) {
+            setChatHistory([greetingMessage(user?.name, findPersona(id))]);
+            setActiveLeafId(null);
+        }
+        if (!conversationId) return;
+        try {
+            await fetch(`/api/conversations/${conversationId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ personaId: id }),
+            });
+        } catch (error) {
+            console.error('Conversation Persona Error:', error);
+        }
+    };
+
+    // Pinned messages survive context summarization word for word; the save effect persists the flag
+    const togglePin = (id: string) => {
+        setChatHistory(prev => prev.map(message => message.id === id ? { ...message, pinned: !message.pinned || undefined } : message));
+    };
+
+    // Save the active conversation whenever its messages or the branch on screen change (but never mid-stream)
+    useEffect(() => {
+        if (!conversationId || loading) return;
+        const serialized = serializeTree(chatHistory, visibleLeafId);
+        if (serialized === lastSavedRef.current) return;
+
+        const timer = setTimeout(async () => {
+            try {
+                const response = await fetch(`/api/conversations/${conversationId}`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ messages: chatHistory, ...(visibleLeafId ? { activeLeafId: visibleLeafId } : {}) }),
+                });
+                if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
+                lastSavedRef.current = serialized;
+                refreshConversationsRef.current();
+            } catch (error) {
+                console.error('Conversation Save Error:', error);
+            }
+        }, 500);
+        return () => clearTimeout(timer);
+    }, [chatHistory, visibleLeafId, conversationId, loading]);
+
+    const selectConversation = async (id: string) => {
+        if (id === conversationId) return;
+        try {
+            const response = await fetch(`/api/conversations/${id}`);
+            if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
+            const conversation = (await response.json()) as Conversation;
+            activateConversation(conversation.id, conversation.messages, conversation.personaId, conversation.background, conversation.activeLeafId);
+        } catch (error) {
+            console.error('Conversation Load Error:', error);
+        }
+    };
+
+    const startNewConversation = () => {
+        // New conversations keep the persona that is currently selected
+        activateConversation(null, [greetingMessage(user?.name, findPersona(personaId))], personaId || undefined);
+    };
+
+    const renameConversation = async (id: string, title: string) => {
+        try {
+            await fetch(`/api/conversations/${id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ title }),
+            });
+        } catch (error) {
+            console.error('Conversation Rename Error:', error);
+        }
+        refreshConversations();
+    };
+
+    const deleteConversation = async (id: string) => {
+        try {
+            await fetch(`/api/conversations/${id}`, { method: 'DELETE' });
+        } catch (error) {
+            console.error('Conversation Delete Error:', error);
+        }
+        if (id === conversationId) startNewConversation();
+        refreshConversations();
+    };
+
+    const importConversation = async (file: File) => {
+        try {
+            const response = await fetch('/api/conversations/import', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: await file.text(),
+            });
+            if (response.status === 401) return endSession();
+            if (!response.ok) {
+                const errorResult = (await response.json().catch(() => undefined)) as ApiErrorResponse | undefined;
+                window.alert(`Could not import "${file.name}": ${describeApiError(errorResult?.error, response.status, response.headers.get('X-Request-Id'))}`);
+                return;
+            }
+            const conversation = (await response.json()) as Conversation;
+            activateConversation(conversation.id, conversation.messages, conversation.personaId, conversation.background, conversation.activeLeafId);
+        } catch (error) {
+            console.error('Conversation Import Error:', error);
+        }
+        refreshConversations();
+    };
+
+    // Without a health report chat is assumed to work; only a missing chat key rules it out
+    const chatAvailable = health?.chat.state !== 'key_missing';
+    const imagesAvailable = !health || !['disabled', 'key_missing'].includes(health.image.state);
+    const isInputDisabled = loading || authStatus !== 'signedIn' || !chatAvailable;
+    const attachmentsUploading = pendingAttachments.some(item => item.status === 'uploading');
+    const canSend = !isInputDisabled && !attachmentsUploading && !shownComparison
+        && (userInput.trim() !== '' || pendingAttachments.some(item => item.ref));
+
+    // --- 6. Attachments: upload on pick/drop/paste, sent with the next message ---
+    const updatePendingAttachment = (key: string, update: Partial<PendingAttachment>) => {
+        setPendingAttachments(prev => prev.map(item => item.key === key ? { ...item, ...update } : item));
+    };
+
+    const uploadAttachment = async (item: PendingAttachment, file: File) => {
+        try {
+            const form = new FormData();
+            form.append('file', file);
+            const response = await fetch('/api/attachments', { method: 'POST', body: form });
+            if (response.status === 401) {
+                endSession();
+                return;
+            }
+            const result = await response.json().catch(() => undefined);
+            if (!response.ok) throw new Error(describeApiError((result as ApiErrorResponse | undefined)?.error, response.status, response.headers.get('X-Request-Id')));
+            const ref = result as AttachmentRef;
+            updatePendingAttachment(item.key, { ref, url: ref.url, mimeType: ref.mimeType, status: undefined });
+        } catch (error) {
+            console.error('Attachment Upload Error:', error);
+            updatePendingAttachment(item.key, { status: 'error', error: error instanceof Error ? error.message : 'Upload failed.' });
+        }
+    };
+
+    const addAttachments = (files: File[]) => {
+        const room = MAX_ATTACHMENTS_PER_MESSAGE - pendingAttachments.length;
+        const accepted = files.slice(0, Math.max(room, 0)).map(file => {
+            const mimeType = resolveAttachmentMimeType(file.name, file.type);
+            const item: PendingAttachment = {
+                key: crypto.randomUUID(),
+                name: file.name || 'pasted file',
+                mimeType: mimeType || file.type,
+                size: file.size,
+                status: 'uploading',
+            };
+            // Invalid files stay in the list with their error instead of silently disappearing
+            if (!mimeType) return { file, item: { ...item, status: 'error' as const, error: `Unsupported file type "${file.type || file.name}".` } };
+            if (file.size > MAX_ATTACHMENT_BYTES) return { file, item: { ...item, status: 'error' as const, error: `Larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}.` } };
+            return { file, item };
+        });
+
+        setPendingAttachments(prev => [...prev, ...accepted.map(({ item }) => item)]);
+        accepted.filter(({ item }) => item.status === 'uploading').forEach(({ file, item }) => uploadAttachment(item, file));
+    };
+
+    const removeAttachment = (key: string) => {
+        setPendingAttachments(prev => prev.filter(item => item.key !== key));
+    };
+
+    const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setDragActive(false);
+        if (!isInputDisabled && event.dataTransfer.files.length) addAttachments(Array.from(event.dataTransfer.files));
+    };
+
+    const handlePaste = (event: React.ClipboardEvent<HTMLInputElement>) => {
+        if (event.clipboardData.files.length) {
+            event.preventDefault();
+            addAttachments(Array.from(event.clipboardData.files));
+        }
+    };
+
+    // --- 7. Chat Logic: Send Message to API Proxy Route ---
     const sendMessage = async () => {
-        const query = userInput.trim();
-        // Only generate BG for longer, new queries and if not already loading a background
-        const shouldGenerateBg = query.split(/\s+/).length > 3 && !backgroundLoading; 
+        const input = userInput.trim();
+        const attachments = pendingAttachments.flatMap(item => item.ref ? [item.ref] : []);
+
+        if ((!input && !attachments.length) || loading || !chatAvailable || attachmentsUploading) return; 
 
-        if (!query || loading || !apiKeyExists) return; 
+        setCommandNotice(null);
+        const command = parseSlashCommand(input);
+        if (command) {
+            // Pending attachments stay for the next message
+            setUserInput('');
+            if (!command.command) {
+                setCommandNotice(`Unknown command /${command.name}. Type /help for the list, or start with // to send the text as it is.`);
+                return;
+            }
+            await command.command.run(command.args, commandContext);
+            return;
+        }
+        // "//" sends a message that starts with a slash
+        const query = input.startsWith('//') ? input.slice(1) : input;
 
-        const newUserMessage: ChatMessage = { role: 'user', text: query };
-        setChatHistory(prev => [...prev, newUserMessage]);
+        const newUserMessage = createMessage('user', query, {
+            parentId: visibleLeafId ?? null,
+            ...(attachments.length ? { attachments } : {}),
+        });
         setUserInput('');
-        setLoading(true);
+        setPendingAttachments([]);
+        if (compareCandidates) {
+            await requestComparison([...visibleMessages, newUserMessage], newUserMessage, compareCandidates);
+        } else {
+            await requestReply([...visibleMessages, newUserMessage], newUserMessage);
+        }
+    };
 
-        // Start background generation concurrently, if criteria met
-        if (shouldGenerateBg) {
-            // Initiate background generation without awaiting it
-            generateAndSetBackground(query);
+    // Editing keeps the original message: the edited copy becomes its sibling and gets a reply of its own
+    const editMessage = (id: string, text: string) => {
+        const index = visibleMessages.findIndex(message => message.id === id);
+        if (index < 0 || loading || !chatAvailable) return;
+        const original = visibleMessages[index];
+        const edited = createMessage('user', text, {
+            parentId: original.parentId ?? null,
+            ...(original.attachments?.length ? { attachments: original.attachments } : {}),
+        });
+        requestReply([...visibleMessages.slice(0, index), edited], edited);
+    };
+
+    // The new reply becomes a sibling of the regenerated one
+    const regenerateReply = (id: string) => {
+        const index = visibleMessages.findIndex(message => message.id === id);
+        if (index < 1 || loading || !chatAvailable) return;
+        requestReply(visibleMessages.slice(0, index));
+    };
+
+    // A truncated reply is extended in place rather than answered with a new message
+    const continueReply = (id: string) => {
+        const index = visibleMessages.findIndex(message => message.id === id);
+        if (index < 1 || loading || !chatAvailable) return;
+        requestReply(visibleMessages.slice(0, index + 1), undefined, visibleMessages[index]);
+    };
+
+    // Switching to a sibling brings back the most recent branch below it
+    const switchBranch = (siblings: ChatMessage[], index: number) => {
+        if (loading || !siblings[index]) return;
+        setActiveLeafId(latestLeaf(chatHistory, siblings[index].id));
+    };
+
+    // The first message (or image) of a new chat creates the server-side conversation
+    const ensureConversation = async (title: string, messages: ChatMessage[], leafId?: string) => {
+        if (conversationId) return;
+        try {
+            const response = await fetch('/api/conversations', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    title,
+                    messages,
+                    ...(leafId ? { activeLeafId: leafId } : {}),
+                    ...(personaId ? { personaId } : {}),
+                }),
+            });
+            if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
+            const conversation = (await response.json()) as Conversation;
+            conversationIdRef.current = conversation.id;
+            lastSavedRef.current = serializeTree(conversation.messages, conversation.activeLeafId);
+            setConversationId(conversation.id);
+            refreshConversations();
+        } catch (error) {
+            // Keep chatting even if persistence is unavailable
+            console.error('Conversation Create Error:', error);
         }
+    };
 
-        // Convert chat history to the format expected by the Gemini API
-        const chatMessages = [...chatHistory, newUserMessage].map(msg => ({
-            role: msg.role === 'user' ? 'user' : 'model',
-            parts: [{ text: msg.text }],
-        }));
+    /**
+     * Streams a reply to the last (user) message of `branch`, which is exactly what is sent to /api/chat.
+     * `added` is a new message (sent or edited) that is put into the tree first; the reply becomes its child.
+     * With `continuing` (a truncated reply that ends `branch`), the model is asked to carry on and the new text
+     * is appended to that message instead.
+     */
+    const requestReply = async (branch: ChatMessage[], added?: ChatMessage, continuing?: ChatMessage) => {
+        const question = branch[branch.length - 1];
+        if (added) {
+            setChatHistory(prev => [...prev, added]);
+            setActiveLeafId(added.id);
+        }
+        setLoading(true);
 
+        await ensureConversation((question.text || question.attachments?.[0]?.name || '').slice(0, 60), added ? [...chatHistory, added] : chatHistory, question.id);
+
+        // The background is reconsidered once the reply is in
+        cancelScheduledBackground();
+
+        // Convert chat history to the provider-neutral format expected by /api/chat
         const payload = {
-            contents: chatMessages,
+            ...(conversationIdRef.current ? { conversationId: conversationIdRef.current } : {}),
+            ...(personaId ? { personaId } : {}),
+            ...(personaList ? { grounding: groundingMode } : {}),
+            messages: [
+                ...toChatRequestMessages(branch),
+                ...(continuing ? [{ role: 'user' as const, content: CONTINUE_PROMPT }] : []),
+            ],
+        };
+
+        // Call the local Next.js API route /api/chat in streaming mode
+        const apiUrl = '/api/chat?stream=true'; 
+
+        // "Stop generating" (or switching conversations) aborts the request, which cancels the upstream call too
+        const controller = new AbortController();
+        chatAbortRef.current = controller;
+        setGenerating(true);
+        // Replies (and error bubbles) hang below the question and become the end of the branch on screen
+        const addReply = (reply: ChatMessage) => {
+            setChatHistory(prev => [...prev, reply]);
+            setActiveLeafId(reply.id);
+        };
+        const finishRequest = () => {
+            if (chatAbortRef.current === controller) chatAbortRef.current = null;
+            setGenerating(false);
+            setLoading(false);
+        };
+
+        let streamBody: ReadableStream<Uint8Array>;
+        // Quoted in error messages so a failure can be found in the server logs
+        let requestId: string | null = null;
+        try {
+            const response = await fetch(apiUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+                signal: controller.signal,
+            });
+
+            if (response.status === 401) { // Session expired: back to the sign-in form
+                finishRequest();
+                endSession();
+                return;
+            }
+
+            // The server already retried transient upstream failures, so any error left is explained to the user
+            if (!response.ok || !response.body) {
+                const errorResult = (await response.json().catch(() => undefined)) as ApiErrorResponse | undefined;
+                addReply(createMessage('ai', describeApiError(errorResult?.error, response.status, response.headers.get('X-Request-Id')), {
+                    status: 'error',
+                    parentId: question.id,
+                }));
+                finishRequest();
+                refreshUsage();
+                return;
+            }
+            streamBody = response.body;
+            requestId = response.headers.get('X-Request-Id');
+
+        } catch (error) {
+            finishRequest();
+            if (controller.signal.aborted) return;
+            console.error('API Proxy Fetch Error:', error);
+            const reason = error instanceof Error ? ` ${error.message}` : '';
+            addReply(createMessage('ai', `Error: Could not reach the assistant.${reason}`, { status: 'error', parentId: question.id }));
+            return;
+        }
+
+        // Add an empty AI message (or reopen the one being continued) and fill it in as chunks arrive
+        const aiMessage = continuing || createMessage('ai', '', { status: 'streaming', parentId: question.id });
+        const updateStreamingMessage = (update: Partial<ChatMessage>) => {
+            setChatHistory(prev => prev.map(message => message.id === aiMessage.id ? { ...message, ...update } : message));
         };
+        if (continuing) {
+            updateStreamingMessage({ status: 'streaming', finish: undefined });
+        } else {
+            addReply(aiMessage);
+        }
 
-        // Call the local Next.js API route /api/chat
-        const apiUrl = '/api/chat'; 
+        // A continuation's citations point into its own text and sources, so they are shifted past the original's
+        const baseText = continuing?.text || '';
+        const baseSources = continuing?.sources || [];
+        const baseCitations = continuing?.citations || [];
+        const baseTools = continuing?.tools || [];
+        const reply = await readChatReply(streamBody, controller.signal, progress => {
+            updateStreamingMessage({ text: baseText + progress.text, ...(progress.tools.length ? { tools: [...baseTools, ...progress.tools] } : {}) });
+        });
+        const text = reply.final?.text || reply.text;
+        let sources: Source[] = reply.final?.sources || [];
+        let citations: Citation[] | undefined = reply.final?.citations;
+        let search: SearchInfo | undefined = reply.final?.search;
+        const finish: ChatFinish | undefined = reply.final?.finish;
+        let streamError = reply.error;
+        if (reply.final) setContextInfo(reply.final.context || null);
 
-        const maxRetries = 5;
-        let delay = 1000;
-        let result: GeminiResponse | undefined;
+        if (continuing) {
+            sources = [...baseSources, ...sources];
+            citations = [...baseCitations, ...(citations || []).map(citation => ({
+                endIndex: citation.endIndex + baseText.length,
+                sourceIndices: citation.sourceIndices.map(index => index + baseSources.length),
+            }))];
+            // The continuation's searches add to the original's
+            const baseSearch = continuing.search;
+            if (baseSearch && search) {
+                search = { queries: [...new Set([...baseSearch.queries, ...search.queries])], entryPoint: search.entryPoint || baseSearch.entryPoint };
+            } else {
+                search = search || baseSearch;
+            }
+        }
+        // Only unusual endings are kept on the message; a continuation replaces the earlier "truncated"
+        const finishUpdate = { finish: finish && finish.state !== 'complete' ? finish : undefined };
 
-        for (let i = 0; i < maxRetries; i++) {
+        if (controller.signal.aborted) {
+            // Stopped: keep what arrived so far as the reply, or drop the empty bubble
+            if (continuing) {
+                updateStreamingMessage({ text: baseText + text, status: undefined, finish: text ? undefined : continuing.finish });
+            } else if (text) {
+                updateStreamingMessage({ text, status: undefined });
+            } else {
+                setChatHistory(prev => prev.filter(message => message.id !== aiMessage.id));
+                setActiveLeafId(prev => prev === aiMessage.id ? question.id : prev);
+            }
+        } else if (streamError) {
+            if (requestId) streamError += ` (Request ID: ${requestId})`;
+            if (continuing) {
+                // The original reply stays usable; the failed continuation is reported below it
+                updateStreamingMessage({ text: baseText + text, status: undefined, finish: continuing.finish });
+                addReply(createMessage('ai', `Error: Could not continue the reply. ${streamError}`, { status: 'error', parentId: aiMessage.id }));
+            } else {
+                updateStreamingMessage({ text, sources, status: 'error', errorDetail: streamError });
+            }
+        } else if (text) {
+            const fullText = baseText + text;
+            updateStreamingMessage({ text: fullText, sources, citations, search, status: undefined, ...finishUpdate });
+            if (finish?.state !== 'blocked') {
+                const history = continuing ? branch.slice(0, -1) : branch;
+                scheduleBackground([...history, { ...aiMessage, text: fullText, status: undefined }]);
+            }
+        } else if (finish && finish.state !== 'complete') {
+            // Blocked prompts (and empty stops) come back without text; the notice explains what happened
+            updateStreamingMessage({ text: baseText, status: undefined, ...finishUpdate });
+        } else if (continuing) {
+            updateStreamingMessage({ status: undefined, finish: continuing.finish });
+        } else {
+            updateStreamingMessage({ text: 'An unexpected error occurred: Received an empty or malformed response.', status: undefined });
+        }
+
+        finishRequest();
+        refreshUsage();
+    };
+
+    const stopGenerating = () => {
+        chatAbortRef.current?.abort();
+    };
+
+    // --- 8. Compare Mode: the same question answered by several models or personas side by side ---
+    const compareModels = compareOptions?.models.filter(model => model.configured) || [];
+    const defaultCompareModel = compareOptions?.models.find(model => model.isDefault)?.id || '';
+    const compareAvailable = compareModels.length > 1 || (personaList?.personas.length || 0) > 1;
+
+    // Two models with the current persona if more than one is configured, otherwise two personas
+    const startCompare = () => {
+        const currentPersona = activePersona?.id || personaList?.defaultPersonaId || '';
+        if (compareModels.length > 1) {
+            setCompareCandidates(compareModels.slice(0, 2).map(model => ({ model: model.id, personaId: currentPersona })));
+            return;
+        }
+        const otherPersona = personaList?.personas.find(persona => persona.id !== currentPersona)?.id || currentPersona;
+        setCompareCandidates([
+            { model: defaultCompareModel, personaId: currentPersona },
+            { model: defaultCompareModel, personaId: otherPersona },
+        ]);
+    };
+
+    /**
+     * Sends `branch` (ending with the new question `added`) to every candidate at once. Each reply becomes a
+     * sibling branch below the question and is streamed into its own column; the first one is the branch on screen.
+     */
+    const requestComparison = async (branch: ChatMessage[], added: ChatMessage, candidates: CompareCandidate[]) => {
+        const replies = candidates.map(() => createMessage('ai', '', { status: 'streaming', parentId: added.id }));
+        setChatHistory(prev => [...prev, added, ...replies]);
+        setActiveLeafId(replies[0].id);
+        setComparison({ questionId: added.id, columns: candidates.map((candidate, index) => ({ ...candidate, messageId: replies[index].id })) });
+        setLoading(true);
+
+        await ensureConversation((added.text || added.attachments?.[0]?.name || '').slice(0, 60), [...chatHistory, added], added.id);
+        cancelScheduledBackground();
+
+        const payload = {
+            ...(conversationIdRef.current ? { conversationId: conversationIdRef.current } : {}),
+            ...(personaList ? { grounding: groundingMode } : {}),
+            messages: toChatRequestMessages(branch),
+        };
+        const controller = new AbortController();
+        chatAbortRef.current = controller;
+        setGenerating(true);
+
+        const updateColumn = (index: number, update: Partial<ComparisonColumn>) => setComparison(prev => prev?.questionId === added.id
+            ? { ...prev, columns: prev.columns.map((column, i) => i === index ? { ...column, ...update } : column) }
+            : prev);
+        const updateReply = (index: number, update: Partial<ChatMessage>) =>
+            setChatHistory(prev => prev.map(message => message.id === replies[index].id ? { ...message, ...update } : message));
+
+        // Columns are timed from the same start, so their latencies compare directly
+        const startedAt = Date.now();
+        let sessionExpired = false;
+        await Promise.all(candidates.map(async (candidate, index) => {
             try {
-                const response = await fetch(apiUrl, {
+                const response = await fetch('/api/chat?stream=true', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify(payload),
+                    body: JSON.stringify({ ...payload, model: candidate.model, personaId: candidate.personaId }),
+                    signal: controller.signal,
                 });
-
-                if (response.status === 429) { // Handle rate limiting
-                    if (i < maxRetries - 1) {
-                        await new Promise(resolve => setTimeout(resolve, delay));
-                        delay *= 2;
-                        continue;
-                    }
+                if (response.status === 401) {
+                    sessionExpired = true;
+                    return;
                 }
-
-                result = (await response.json()) as GeminiResponse;
-                if (!response.ok) {
-                    throw new Error(result?.error?.message || `HTTP error! Status: ${response.status}`);
+                if (!response.ok || !response.body) {
+                    const errorResult = (await response.json().catch(() => undefined)) as ApiErrorResponse | undefined;
+                    updateReply(index, { text: describeApiError(errorResult?.error, response.status, response.headers.get('X-Request-Id')), status: 'error' });
+                    return;
                 }
-                break;
+                const requestId = response.headers.get('X-Request-Id');
+
+                let firstToken = true;
+                const reply = await readChatReply(response.body, controller.signal, progress => {
+                    if (firstToken) updateColumn(index, { firstTokenMs: Date.now() - startedAt });
+                    firstToken = false;
+                    updateReply(index, { text: progress.text, ...(progress.tools.length ? { tools: progress.tools } : {}) });
+                });
+                updateColumn(index, { latencyMs: Date.now() - startedAt, usage: reply.final?.usage });
 
+                const final = reply.final;
+                const text = final?.text || reply.text;
+                if (index === 0 && final) setContextInfo(final.context || null);
+                if (controller.signal.aborted) {
+                    // Stopped columns keep what arrived, so the layout stays put
+                    updateReply(index, text ? { text, status: undefined } : { text: 'Stopped before the reply arrived.', status: 'error' });
+                } else if (reply.error) {
+                    updateReply(index, { text, status: 'error', errorDetail: requestId ? `${reply.error} (Request ID: ${requestId})` : reply.error });
+                } else if (final && (text || final.finish.state !== 'complete')) {
+                    updateReply(index, {
+                        text, sources: final.sources, citations: final.citations, search: final.search, status: undefined,
+                        finish: final.finish.state !== 'complete' ? final.finish : undefined,
+                    });
+                } else {
+                    updateReply(index, { text: 'An unexpected error occurred: Received an empty or malformed response.', status: undefined });
+                }
             } catch (error) {
-                console.error('API Proxy Fetch Error:', error);
-                if (i === maxRetries - 1) {
-                    const finalErrorMsg: ChatMessage = { role: 'ai', text: `Error: Could not connect to the API after multiple retries. Please check the server logs.` };
-                    setChatHistory(prev => [...prev, finalErrorMsg]);
-                    setLoading(false);
+                if (controller.signal.aborted) {
+                    updateReply(index, { text: 'Stopped before the reply arrived.', status: 'error' });
                     return;
                 }
-                await new Promise(resolve => setTimeout(resolve, delay));
-                delay *= 2;
+                console.error('API Proxy Fetch Error:', error);
+                const reason = error instanceof Error ? ` ${error.message}` : '';
+                updateReply(index, { text: `Error: Could not reach the assistant.${reason}`, status: 'error' });
             }
+        }));
+
+        if (chatAbortRef.current === controller) chatAbortRef.current = null;
+        setGenerating(false);
+        setLoading(false);
+        if (sessionExpired) {
+            endSession();
+            return;
         }
+        refreshUsage();
+    };
 
-        // Process Response using the strictly defined type
-        const candidate = result?.candidates?.[0];
-        const text = candidate?.content?.parts?.[0]?.text;
-
-        if (text) {
-            let sources: Source[] = [];
-            const groundingMetadata = candidate?.groundingMetadata;
-            if (groundingMetadata && groundingMetadata.groundingAttributions) {
-                sources = groundingMetadata.groundingAttributions
-                    .map(attribution => ({ 
-                        uri: attribution.web?.uri || '',
-                        title: attribution.web?.title,
-                    }))
-                    // Filter out sources with empty URIs
-                    .filter((source: Source) => source.uri.length > 0); 
-            }
+    // Saved for review (GET /api/compare/votes); a failed save lets the user vote again
+    const submitVote = async (winner: number | 'tie', continued = false) => {
+        if (!comparison || comparison.vote !== undefined) return;
+        const questionId = comparison.questionId;
+        setComparison(prev => prev?.questionId === questionId ? { ...prev, vote: winner } : prev);
 
-            const aiMessage: ChatMessage = { 
-                role: 'ai', 
-                text: text, 
-                sources: sources,
+        const candidates = comparison.columns.map((column): CompareVoteCandidate => {
+            const reply = chatHistory.find(message => message.id === column.messageId);
+            return {
+                model: column.model,
+                personaId: column.personaId,
+                text: reply?.text || '',
+                ...(column.latencyMs !== undefined ? { latencyMs: column.latencyMs } : {}),
+                ...(column.usage ? { usage: column.usage } : {}),
+                sourceCount: reply?.sources?.length || 0,
+                finish: reply?.status === 'error' ? 'error' : reply?.finish?.state || 'complete',
             };
-            setChatHistory(prev => [...prev, aiMessage]);
+        });
+        const vote: CompareVoteRequest = {
+            ...(conversationIdRef.current ? { conversationId: conversationIdRef.current } : {}),
+            prompt: chatHistory.find(message => message.id === questionId)?.text || '',
+            candidates,
+            winner,
+            ...(continued ? { continued } : {}),
+        };
+        try {
+            const response = await fetch('/api/compare/votes', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(vote),
+            });
+            if (response.status === 401) return endSession();
+            if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
+        } catch (error) {
+            console.error('Compare Vote Error:', error);
+            setComparison(prev => prev?.questionId === questionId ? { ...prev, vote: undefined } : prev);
+        }
+    };
 
-        } else {
-            const errorDetail = result?.error?.message || "Received an empty or malformed response.";
-            const errorMsg: ChatMessage = { role: 'ai', text: `An unexpected error occurred: ${errorDetail}` };
-            setChatHistory(prev => [...prev, errorMsg]);
+    // Continuing counts as a vote for the reply (unless the user already voted) and makes it the branch on screen
+    const continueWithReply = (index: number) => {
+        if (!comparison) return;
+        if (comparison.vote === undefined) submitVote(index, true);
+        setActiveLeafId(comparison.columns[index].messageId);
+        setComparison(null);
+    };
+
+    const compareColumns = shownComparison?.columns.flatMap(column => {
+        const message = chatHistory.find(item => item.id === column.messageId);
+        const label = `${column.model} · ${findPersona(column.personaId)?.name || column.personaId}`;
+        return message ? [{ label, message, firstTokenMs: column.firstTokenMs, latencyMs: column.latencyMs, usage: column.usage }] : [];
+    }) || [];
+
+    // --- 9. Slash Commands (registered in lib/commands.ts) ---
+    // /imagine and /edit: the images become a message of their own, which the chat model never sees
+    const generateChatImage = async (prompt: string, sourceImageId?: string) => {
+        if (!imagesAvailable) {
+            setCommandNotice('Image generation is not available on this server.');
+            return;
         }
+        const image = { prompt, images: [], ...(sourceImageId ? { sourceImageId } : {}) };
+        const message = createMessage('ai', '', { status: 'streaming', parentId: visibleLeafId ?? null, image });
+        const updateImageMessage = (update: Partial<ChatMessage>) => {
+            setChatHistory(prev => prev.map(item => item.id === message.id ? { ...item, ...update } : item));
+        };
+
+        setLoading(true);
+        await ensureConversation(prompt.slice(0, 60), chatHistory, visibleLeafId);
+        setChatHistory(prev => [...prev, message]);
+        setActiveLeafId(message.id);
 
+        try {
+            const response = await fetch('/api/image', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ prompt, ...(sourceImageId ? { sourceImageId } : {}) }),
+            });
+            if (response.status === 401) { // Session expired: back to the sign-in form
+                setLoading(false);
+                endSession();
+                return;
+            }
+            const result = (await response.json().catch(() => undefined)) as Partial<ImageGenerationResponse & ApiErrorResponse> | undefined;
+            if (!response.ok || !result?.images?.length) {
+                updateImageMessage({ text: describeApiError(result?.error, response.status, response.headers.get('X-Request-Id')), status: 'error' });
+            } else {
+                updateImageMessage({ image: { ...image, images: result.images }, status: undefined });
+            }
+        } catch (error) {
+            console.error('Chat Image Error:', error);
+            const reason = error instanceof Error ? ` ${error.message}` : '';
+            updateImageMessage({ text: `Error: Could not reach the image service.${reason}`, status: 'error' });
+        }
         setLoading(false);
+        refreshUsage();
+    };
+
+    // /edit changes the latest image of the branch on screen
+    const editLatestImage = async (instruction: string) => {
+        const latest = [...visibleMessages].reverse().find(message => message.image?.images.length)?.image;
+        if (!latest) {
+            setCommandNotice('There is no generated image to edit yet. Create one with /imagine first.');
+            return;
+        }
+        await generateChatImage(instruction, latest.images[0].id);
+    };
+
+    // Same download as the sidebar's export links
+    const exportConversation = (format: ExportFormat) => {
+        const link = document.createElement('a');
+        link.href = `/api/conversations/${conversationId}/export?format=${format}`;
+        link.download = '';
+        link.click();
+    };
+
+    const commandContext: CommandContext = {
+        personas: personaList?.personas.map(({ id, name }) => ({ id, name })) || [],
+        personaId: personaId || personaList?.defaultPersonaId || '',
+        hasConversation: !!conversationId,
+        imagine: prompt => generateChatImage(prompt),
+        editImage: editLatestImage,
+        clearConversation: startNewConversation,
+        switchPersona: changePersona,
+        exportConversation,
+        setBackgroundStyle: changeBackgroundStyle,
+        notify: setCommandNotice,
+    };
+
+    const commandSuggestions = commandMenu.dismissed ? [] : suggestCommands(userInput, commandContext);
+
+    const pickSuggestion = (suggestion: CommandSuggestion) => {
+        setUserInput(suggestion.completion);
+        setCommandMenu({ index: 0, dismissed: false });
     };
 
     const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
-        if (event.key === 'Enter' && !loading && userInput.trim() !== '') {
+        if (commandSuggestions.length) {
+            const count = commandSuggestions.length;
+            if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                event.preventDefault();
+                setCommandMenu({ index: (commandMenu.index + (event.key === 'ArrowDown' ? 1 : count - 1)) % count, dismissed: false });
+                return;
+            }
+            if (event.key === 'Escape') {
+                setCommandMenu({ index: 0, dismissed: true });
+                return;
+            }
+            // Tab always completes; Enter completes a partly typed name and runs a complete command
+            if (event.key === 'Tab' || (event.key === 'Enter' && !parseSlashCommand(userInput.trim())?.command)) {
+                event.preventDefault();
+                pickSuggestion(commandSuggestions[Math.min(commandMenu.index, count - 1)]);
+                return;
+            }
+        }
+        if (event.key === 'Enter' && canSend) {
             sendMessage();
         }
     };
 
-    const isInputDisabled = loading || userId.includes('Error') || !apiKeyExists;
-
     return (
         <>
-            {/* Bootstrap 5 CDN Link - Simulates a global stylesheet import in Next.js */}
-            <link 
-                rel="stylesheet" 
-                href="https://cdn.jsdelivr.net/npm/bootstrap@5.3.3/dist/css/bootstrap.min.css" 
-                crossOrigin="anonymous" 
-            />
-            
-            {/* Global Styles for Typography and centering - Background handled by globals.css now */}
+            {/* Global Styles for Typography and centering - Bootstrap and the Inter font come from layout.tsx, the background from globals.css */}
             <style>{`
-                @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;700;800&display=swap');
                 body {
-                    font-family: 'Inter', sans-serif;
+                    font-family: var(--font-inter), sans-serif;
                     /* Background styles moved to globals.css for body */
                     display: flex;
                     justify-content: center;
@@ -377,6 +1230,179 @@ const ChatClient = () => {
                 .pre-wrap {
                     white-space: pre-wrap;
                 }
+                .markdown-body > :last-child {
+                    margin-bottom: 0;
+                }
+                .markdown-body pre {
+                    background: #f1f3f5;
+                    padding: 0.75rem;
+                    border-radius: 0.5rem;
+                    font-size: 0.85rem;
+                }
+                .markdown-body code {
+                    font-size: 0.85em;
+                }
+                .citation-marker {
+                    margin-left: 1px;
+                }
+                .streaming-cursor {
+                    display: inline-block;
+                    margin-left: 1px;
+                    animation: blink 1s step-start infinite;
+                }
+                @keyframes blink {
+                    50% { opacity: 0; }
+                }
+                .app-layout {
+                    width: 100%;
+                    max-width: 1000px;
+                }
+                .conversation-sidebar {
+                    width: 260px;
+                    flex-shrink: 0;
+                    height: 80vh;
+                    max-height: 800px;
+                    z-index: 1;
+                }
+                @media (max-width: 768px) {
+                    .conversation-sidebar {
+                        display: none !important;
+                    }
+                }
+                .gallery-backdrop {
+                    position: fixed;
+                    inset: 0;
+                    background: rgba(0, 0, 0, 0.5);
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                    z-index: 10;
+                    padding: 1rem;
+                }
+                .gallery-panel {
+                    width: 100%;
+                    max-width: 720px;
+                    max-height: 80vh;
+                    overflow-y: auto;
+                }
+                .gallery-grid {
+                    display: grid;
+                    grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+                    gap: 0.75rem;
+                }
+                .gallery-thumb {
+                    position: relative;
+                    aspect-ratio: 16 / 9;
+                    cursor: pointer;
+                }
+                .message-bubble {
+                    position: relative;
+                }
+                .pin-toggle {
+                    position: absolute;
+                    top: -0.6rem;
+                    right: -0.4rem;
+                    font-size: 0.8rem;
+                    opacity: 0;
+                    transition: opacity 0.15s;
+                }
+                .message-bubble:hover .pin-toggle,
+                .pin-toggle:focus-visible,
+                .pin-toggle.active {
+                    opacity: 1;
+                }
+                .message-actions {
+                    opacity: 0.75;
+                }
+                .tool-calls summary {
+                    cursor: pointer;
+                }
+                .tool-calls pre {
+                    max-height: 12rem;
+                    overflow: auto;
+                    white-space: pre-wrap;
+                    word-break: break-word;
+                    font-size: 0.75rem;
+                    background-color: rgba(0, 0, 0, 0.04);
+                    border-radius: 0.25rem;
+                    padding: 0.25rem 0.5rem;
+                }
+                .grounding-select {
+                    flex: 0 0 auto;
+                    width: auto;
+                }
+                .compare-column {
+                    min-width: 240px;
+                }
+                .compare-column .message-bubble {
+                    max-width: 100% !important;
+                }
+                .search-info {
+                    margin-top: 0.5rem;
+                }
+                .search-query {
+                    display: inline-block;
+                    margin: 0 0.25rem 0.25rem 0;
+                    padding: 0 0.4rem;
+                    border: 1px solid #dee2e6;
+                    border-radius: 1rem;
+                    background-color: #fff;
+                }
+                .search-entry-point {
+                    display: block;
+                    width: 100%;
+                    height: 3.5rem;
+                    border: 0;
+                }
+                .command-menu {
+                    position: absolute;
+                    left: 0;
+                    right: 0;
+                    bottom: 100%;
+                    margin-bottom: 0.25rem;
+                    max-height: 16rem;
+                    overflow-y: auto;
+                    z-index: 10;
+                }
+                .generated-image {
+                    position: relative;
+                    display: block;
+                    width: 256px;
+                    max-width: 100%;
+                    aspect-ratio: 1;
+                    border-radius: 0.5rem;
+                    overflow: hidden;
+                }
+                .message-bubble.pinned {
+                    box-shadow: 0 0 0 2px #ffc107 !important;
+                }
+                .drag-active {
+                    outline: 3px dashed #0d6efd;
+                    outline-offset: -6px;
+                }
+                .attachment-thumb {
+                    width: 72px;
+                    height: 72px;
+                    overflow: hidden;
+                }
+                .attachment-chip {
+                    max-width: 240px;
+                }
+                .attachment-remove {
+                    position: absolute;
+                    top: -6px;
+                    right: -6px;
+                    background-color: #fff;
+                    border-radius: 50%;
+                    padding: 0.3rem;
+                    font-size: 0.6rem;
+                    opacity: 1;
+                }
+                .attachment-spinner {
+                    position: absolute;
+                    bottom: 4px;
+                    right: 4px;
+                }
                 .bg-status-loading {
                     color: #fff;
                     background-color: #0d6efd;
@@ -385,69 +1411,278 @@ const ChatClient = () => {
                 }
             `}</style>
 
-            <div className="container-sm bg-white shadow-lg rounded-4 p-4 p-md-5 chat-container" style={{ maxWidth: '700px', zIndex: 1, position: 'relative' }}>
+            {authStatus === 'signedOut' ? (
+                <SignInForm onSignedIn={startSession} />
+            ) : (
+                <div className="d-flex gap-3 justify-content-center app-layout">
+                    <ConversationSidebar
+                        conversations={conversations}
+                        activeId={conversationId}
+                        disabled={loading}
+                        onSelect={selectConversation}
+                        onNew={startNewConversation}
+                        onRename={renameConversation}
+                        onDelete={deleteConversation}
+                        onImport={importConversation}
+                    />
+
+                    <div
+                        className={`container-sm bg-white shadow-lg rounded-4 p-4 p-md-5 chat-container ${dragActive ? 'drag-active' : ''}`}
+                        style={{ maxWidth: '700px', zIndex: 1, position: 'relative' }}
+                        onDragOver={(e) => { e.preventDefault(); setDragActive(!isInputDisabled); }}
+                        onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragActive(false); }}
+                        onDrop={handleDrop}
+                    >
                 
-                {/* Header & User Info */}
-                <div className="mb-4 pb-2 border-bottom border-secondary border-opacity-25">
-                    <h1 className="h3 fw-bolder text-dark">Grounded AI Assistant (Secure Next.js)</h1>
-                    <div className="d-flex justify-content-between align-items-center mt-1">
-                        <p className="small text-muted text-truncate mb-0">User ID: {userId}</p>
-                        {backgroundLoading && (
-                            <span className="bg-status-loading small fw-semibold">
-                                <span className="spinner-border spinner-border-sm me-2" role="status" aria-hidden="true"></span>
-                                Generating Background...
-                            </span>
-                        )}
-                    </div>
-                </div>
+                        {/* Header & User Info */}
+                        <div className="mb-4 pb-2 border-bottom border-secondary border-opacity-25">
+                            <h1 className="h3 fw-bolder text-dark">Grounded AI Assistant (Secure Next.js)</h1>
+                            <div className="d-flex justify-content-between align-items-center mt-1">
+                                <p className="small text-muted text-truncate mb-0">
+                                    {authStatus === 'error' ? 'Authentication Error' : `Signed in as ${user?.name ?? '...'}`}
+                                    {user && (
+                                        <button className="btn btn-link btn-sm p-0 ms-2 align-baseline" onClick={signOut}>Sign out</button>
+                                    )}
+                                </p>
+                                {usage && (
+                                    <p className="small text-muted mb-0 ms-2 text-nowrap" title={`Resets at ${new Date(usage.resetsAt).toLocaleTimeString()}`}>
+                                        {[
+                                            usage.remaining.chatRequests !== null && `${formatCount(usage.remaining.chatRequests)} chats`,
+                                            usage.remaining.tokens !== null && `${formatCount(usage.remaining.tokens)} tokens`,
+                                            usage.remaining.images !== null && `${formatCount(usage.remaining.images)} images`,
+                                        ].filter(Boolean).join(' · ')} left today
+                                    </p>
+                                )}
+                                {personaList && (
+                                    <select
+                                        className="form-select form-select-sm ms-2 w-auto"
+                                        aria-label="Persona"
+                                        title={activePersona?.description}
+                                        value={personaId || personaList.defaultPersonaId}
+                                        onChange={(e) => changePersona(e.target.value)}
+                                        disabled={authStatus !== 'signedIn' || loading}
+                                    >
+                                        {personaList.personas.map(persona => (
+                                            <option key={persona.id} value={persona.id}>{persona.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                {imagesAvailable && (
+                                    <BackgroundControls
+                                        style={backgroundStyle}
+                                        background={background}
+                                        busy={backgroundLoading}
+                                        canRegenerate={chatHistory.some(message => message.role === 'user')}
+                                        disabled={authStatus !== 'signedIn'}
+                                        onStyleChange={changeBackgroundStyle}
+                                        onRegenerate={() => requestBackground(visibleMessages, true)}
+                                        onTogglePin={toggleBackgroundPin}
+                                        onRestorePrevious={restorePreviousBackground}
+                                        onOpenGallery={() => setGalleryOpen(true)}
+                                    />
+                                )}
+                                {backgroundLoading && (
+                                    <span className="bg-status-loading small fw-semibold">
+                                        <span className="spinner-border spinner-border-sm me-2" role="status" aria-hidden="true"></span>
+                                        Generating Background...
+                                    </span>
+                                )}
+                                {!backgroundLoading && backgroundBlocked && (
+                                    <span className="small text-warning-emphasis ms-2" title={backgroundBlocked}>🛡 Background blocked</span>
+                                )}
+                            </div>
+                        </div>
 
-                {/* Chat Messages Area */}
-                <div ref={chatRef} className="flex-grow-1 overflow-auto mb-4 p-2" style={{ maxHeight: '100%' }}>
-                    {chatHistory.map((message, index) => (
-                        <MessageBubble key={index} message={message} />
-                    ))}
+                        {/* Chat Messages Area */}
+                        <div ref={chatRef} className="flex-grow-1 overflow-auto mb-4 p-2" style={{ maxHeight: '100%' }}>
+                            {(shownComparison ? visibleMessages.slice(0, -1) : visibleMessages).map((message, index) => {
+                                const siblings = siblingGroups.get(message.id) || [message];
+                                const position = siblings.findIndex(sibling => sibling.id === message.id);
+                                const canAnswer = !loading && chatAvailable && !message.uiOnly;
+                                return (
+                                    <MessageBubble
+                                        key={message.id}
+                                        message={message}
+                                        onTogglePin={message.uiOnly || message.status || message.image ? undefined : () => togglePin(message.id)}
+                                        branch={{
+                                            index: position,
+                                            count: siblings.length,
+                                            disabled: loading,
+                                            onPrevious: () => switchBranch(siblings, position - 1),
+                                            onNext: () => switchBranch(siblings, position + 1),
+                                        }}
+                                        onEdit={canAnswer && message.role === 'user' ? (text) => editMessage(message.id, text) : undefined}
+                                        onRegenerate={canAnswer && message.role === 'ai' && !message.image && visibleMessages[index - 1]?.role === 'user'
+                                            ? () => regenerateReply(message.id) : undefined}
+                                        onContinue={canAnswer && message.finish?.state === 'truncated' ? () => continueReply(message.id) : undefined}
+                                    />
+                                );
+                            })}
+
+                            {/* Replies of the last question side by side */}
+                            {shownComparison && (
+                                <CompareView
+                                    columns={compareColumns}
+                                    vote={shownComparison.vote}
+                                    disabled={loading}
+                                    onVote={(winner) => submitVote(winner)}
+                                    onContinue={continueWithReply}
+                                />
+                            )}
                     
-                    {/* Loading Indicator/Status */}
-                    {loading && !userId.includes('Error') && apiKeyExists && (
-                        <div className="text-center my-3 text-primary">
-                            <div className="spinner-border spinner-border-sm me-2" role="status">
-                                <span className="visually-hidden">Loading...</span>
-                            </div>
-                            {userId.includes('Initializing') ? 'Authenticating...' : 'Assistant is typing...'}
+                            {/* Loading Indicator/Status */}
+                            {loading && authStatus !== 'error' && chatAvailable && visibleMessages[visibleMessages.length - 1]?.status !== 'streaming' && (
+                                <div className="text-center my-3 text-primary">
+                                    <div className="spinner-border spinner-border-sm me-2" role="status">
+                                        <span className="visually-hidden">Loading...</span>
+                                    </div>
+                                    {authStatus === 'checking' ? 'Authenticating...' : 'Assistant is typing...'}
+                                </div>
+                            )}
                         </div>
-                    )}
-                </div>
 
-                {/* API Key Status Warning */}
-                {!apiKeyExists && (
-                    <div className="alert alert-danger p-2 small mt-2" role="alert">
-                        <strong>Configuration Error:</strong> The secret API key is missing or improperly configured on the server. Please set the **`GEMINI_API_KEY`** environment variable.
+                        {/* Provider configuration and reachability */}
+                        {authStatus === 'signedIn' && (
+                            <HealthNotices health={health} checkFailed={healthCheckFailed} checking={healthChecking} onRecheck={checkHealth} />
+                        )}
+
+                        {/* Context budget notice */}
+                        {contextInfo && contextInfo.summarizedMessages > 0 && (
+                            <p className="small text-muted mb-2" title={`~${formatCount(contextInfo.estimatedTokens)} of ${formatCount(contextInfo.tokenBudget)} tokens sent`}>
+                                {contextInfo.summarizedMessages} earlier messages were summarized to fit the context budget. Pin a message to keep it word for word.
+                            </p>
+                        )}
+
+                        {/* Output of the last slash command */}
+                        {commandNotice && (
+                            <div className="alert alert-secondary d-flex align-items-start py-1 px-2 mb-2 small" role="status">
+                                <span className="pre-wrap flex-grow-1">{commandNotice}</span>
+                                <button type="button" className="btn-close btn-sm ms-2" aria-label="Dismiss" onClick={() => setCommandNotice(null)}></button>
+                            </div>
+                        )}
+
+                        {/* Models and personas of the compare columns */}
+                        {compareCandidates && (
+                            <CompareSetup
+                                models={compareOptions?.models || []}
+                                personas={personaList?.personas || []}
+                                candidates={compareCandidates}
+                                maxColumns={compareOptions?.maxColumns || 2}
+                                disabled={isInputDisabled}
+                                onChange={setCompareCandidates}
+                                onClose={() => setCompareCandidates(null)}
+                            />
+                        )}
+
+                        {/* Attachments waiting to be sent */}
+                        {pendingAttachments.length > 0 && (
+                            <div className="mb-2">
+                                <AttachmentList items={pendingAttachments} onRemove={removeAttachment} />
+                            </div>
+                        )}
+
+                        {/* Chat Input Area */}
+                        <div className="position-relative">
+                            {commandSuggestions.length > 0 && (
+                                <CommandMenu
+                                    suggestions={commandSuggestions}
+                                    activeIndex={Math.min(commandMenu.index, commandSuggestions.length - 1)}
+                                    onPick={pickSuggestion}
+                                />
+                            )}
+                            <div className="input-group">
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    className="d-none"
+                                    multiple
+                                    accept={ATTACHMENT_MIME_TYPES.join(',') + ',.csv,.md'}
+                                    onChange={(e) => {
+                                        addAttachments(Array.from(e.target.files || []));
+                                        e.target.value = ''; // Allow picking the same file again
+                                    }}
+                                />
+                                <button
+                                    className="btn btn-outline-secondary btn-lg rounded-start-pill"
+                                    onClick={() => fileInputRef.current?.click()}
+                                    disabled={isInputDisabled || pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+                                    title="Attach images, PDFs or CSV files (or drop/paste them here)"
+                                    aria-label="Attach files"
+                                >
+                                    📎
+                                </button>
+                                {personaList && (
+                                    <select
+                                        className="form-select grounding-select"
+                                        aria-label="Web search"
+                                        title="Web search: always ground replies with Google Search, let each question decide (auto), or never search"
+                                        value={groundingMode}
+                                        onChange={(e) => setGroundingChoice(e.target.value as GroundingMode)}
+                                        disabled={isInputDisabled}
+                                    >
+                                        <option value="auto">🔎 Auto</option>
+                                        <option value="always">🔎 Always</option>
+                                        <option value="off">🔎 Off</option>
+                                    </select>
+                                )}
+                                {compareAvailable && (
+                                    <button
+                                        className={`btn btn-lg ${compareCandidates ? 'btn-secondary' : 'btn-outline-secondary'}`}
+                                        onClick={() => compareCandidates ? setCompareCandidates(null) : startCompare()}
+                                        disabled={isInputDisabled}
+                                        title="Compare mode: answer each question with several models or personas side by side"
+                                        aria-label="Compare mode"
+                                        aria-pressed={!!compareCandidates}
+                                    >
+                                        ⚖️
+                                    </button>
+                                )}
+                                <input 
+                                    type="text" 
+                                    className="form-control form-control-lg" 
+                                    placeholder={shownComparison
+                                        ? 'Vote for the better reply above, or continue with one of them...'
+                                        : "Ask your question here (e.g., 'A description of a fearsome fire dragon'), or type / for commands..."}
+                                    value={userInput}
+                                    onChange={(e) => {
+                                        setUserInput(e.target.value);
+                                        setCommandMenu({ index: 0, dismissed: false });
+                                    }}
+                                    onKeyDown={handleKeyDown}
+                                    onPaste={handlePaste}
+                                    maxLength={MAX_MESSAGE_CHARS}
+                                    disabled={isInputDisabled}
+                                />
+                                {generating ? (
+                                    <button
+                                        className="btn btn-outline-danger btn-lg rounded-end-pill shadow-sm text-nowrap"
+                                        onClick={stopGenerating}
+                                        id="stop-btn"
+                                    >
+                                        <span className="spinner-grow spinner-grow-sm me-2" role="status" aria-hidden="true"></span>
+                                        Stop generating
+                                    </button>
+                                ) : (
+                                    <button 
+                                        className="btn btn-primary btn-lg rounded-end-pill shadow-sm"
+                                        onClick={sendMessage}
+                                        disabled={!canSend}
+                                        id="send-btn"
+                                    >
+                                        {(loading && authStatus === 'signedIn') ? (
+                                            <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true"></span>
+                                        ) : 'Send'}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
                     </div>
-                )}
-
-                {/* Chat Input Area */}
-                <div className="input-group">
-                    <input 
-                        type="text" 
-                        className="form-control form-control-lg rounded-start-pill" 
-                        placeholder="Ask your question here (e.g., 'A description of a fearsome fire dragon')..."
-                        value={userInput}
-                        onChange={(e) => setUserInput(e.target.value)}
-                        onKeyDown={handleKeyDown}
-                        disabled={isInputDisabled}
-                    />
-                    <button 
-                        className="btn btn-primary btn-lg rounded-end-pill shadow-sm"
-                        onClick={sendMessage}
-                        disabled={isInputDisabled || userInput.trim() === ''}
-                        id="send-btn"
-                    >
-                        {(loading && userId.includes('auth-user')) ? (
-                            <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true"></span>
-                        ) : 'Send'}
-                    </button>
                 </div>
-            </div>
+            )}
+
+            {galleryOpen && (
+                <BackgroundGallery onApply={applyGalleryImage} onClose={() => setGalleryOpen(false)} />
+            )}
         </>
     );
 };
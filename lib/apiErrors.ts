@@ -0,0 +1,96 @@
+/**
+ * Error envelope shared by every API route:
+ *
+ *   { "error": { "code": "invalid_request", "message": "...", "details": [{ "path": "messages[2].role", "message": "..." }] } }
+ *
+ * `code` is stable and meant for programs (ChatClient maps it to a user-facing message), `message` is a
+ * human-readable summary and `details` lists individual validation problems when there are several.
+ * Route-specific subsets of the codes are documented next to each contract (lib/chatApi.ts, lib/imageApi.ts, ...).
+ *
+ * Every API response carries an `X-Request-Id` header naming the request in the server logs; ChatClient adds it
+ * to the error messages it shows so a report can be matched with the logs.
+ */
+
+export type ApiErrorCode =
+    | 'unauthorized'        // 401: no valid session
+    | 'invalid_credentials' // 401: sign-in with a wrong username or password
+    | 'forbidden'           // 403: a request that changes data came from another site (see lib/security.ts)
+    | 'not_found'           // 404
+    | 'invalid_json'        // 400: the body is not valid JSON
+    | 'invalid_request'     // 400: the body does not match the route's schema, see `details`
+    | 'payload_too_large'   // 413: body (or attachments) over the route's size limit
+    | 'unsupported_type'    // 415: attachment MIME type not accepted
+    | 'blocked'             // 422: the model refused the prompt (safety filters)
+    | 'rate_limited'        // 429: per-minute limit hit, see Retry-After
+    | 'quota_exceeded'      // 429: daily or upstream quota exhausted
+    | 'upstream_malformed'  // 502: the upstream answered with something we could not read
+    | 'upstream_error'      // any other upstream failure, status forwarded
+    | 'not_configured'      // 500: provider credentials missing
+    | 'internal_error';     // 500
+
+export interface ApiErrorDetail {
+    // Location of the problem in the request body, e.g. `messages[3].content`
+    path: string;
+    message: string;
+}
+
+export interface ApiErrorResponse<Code extends string = ApiErrorCode> {
+    error: {
+        code: Code;
+        message: string;
+        details?: ApiErrorDetail[];
+        // Set when trying again later can help, i.e. 429s and unavailable upstreams (mirrors the Retry-After header)
+        retryAfterSeconds?: number;
+    };
+}
+
+// Retrying these cannot succeed without changing the request (or the server configuration)
+const PERMANENT_ERROR_CODES: ReadonlySet<string> = new Set<ApiErrorCode>([
+    'unauthorized', 'invalid_credentials', 'forbidden', 'not_found', 'invalid_json', 'invalid_request',
+    'payload_too_large', 'unsupported_type', 'blocked', 'not_configured',
+]);
+
+export function isRetryableApiError(code: string | undefined): boolean {
+    return !code || !PERMANENT_ERROR_CODES.has(code);
+}
+
+const formatWait = (seconds: number) => seconds < 90 ? `${Math.ceil(seconds)} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+
+/**
+ * Turns an error envelope into the text ChatClient shows to the user, followed by the request ID when known.
+ */
+export function describeApiError(error: ApiErrorResponse<string>['error'] | undefined, status: number, requestId?: string | null): string {
+    const message = describeError(error, status);
+    return requestId ? `${message} (Request ID: ${requestId})` : message;
+}
+
+function describeError(error: ApiErrorResponse<string>['error'] | undefined, status: number): string {
+    const detail = error?.details?.length
+        ? ` (${error.details.slice(0, 3).map(item => `${item.path}: ${item.message}`).join('; ')})`
+        : '';
+    const retryHint = error?.retryAfterSeconds ? ` Try again in ${formatWait(error.retryAfterSeconds)}.` : '';
+
+    switch (error?.code) {
+        case 'unauthorized':
+            return 'Your session has expired. Please sign in again.';
+        case 'invalid_json':
+        case 'invalid_request':
+            return `The request was rejected: ${error.message}${detail}`;
+        case 'payload_too_large':
+            return `This conversation is too large to send: ${error.message} Start a new conversation or remove some attachments.`;
+        case 'unsupported_type':
+            return error.message;
+        case 'blocked':
+            return `The model declined this request: ${error.message}`;
+        case 'rate_limited':
+        case 'quota_exceeded':
+            return `Limit reached: ${error.message}${retryHint}`;
+        case 'not_configured':
+            return `The server is not configured for this model provider: ${error.message}`;
+        case 'upstream_malformed':
+        case 'upstream_error':
+            return `The model provider returned an error: ${error.message}${retryHint}`;
+        default:
+            return error?.message || `The request failed (HTTP ${status}).`;
+    }
+}
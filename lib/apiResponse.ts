@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiErrorCode, ApiErrorDetail, ApiErrorResponse } from './apiErrors';
+import type { ProviderError } from './providers/types';
+import { redactSecrets } from './observability/redact';
+
+/**
+ * Builds a response in the shared error envelope (see lib/apiErrors.ts). Messages often pass on an exception's
+ * text, so credentials are redacted from them.
+ */
+export function apiError(code: ApiErrorCode, message: string, status: number, details?: ApiErrorDetail[]): NextResponse<ApiErrorResponse> {
+    return NextResponse.json<ApiErrorResponse>(
+        { error: { code, message: redactSecrets(message), ...(details?.length ? { details } : {}) } },
+        { status }
+    );
+}
+
+/**
+ * Forwards a ProviderError (after the upstream client gave up retrying) in the shared envelope,
+ * passing on the upstream's Retry-After so the client knows when trying again makes sense.
+ */
+export function providerErrorResponse(e: ProviderError): NextResponse<ApiErrorResponse> {
+    const retryAfterSeconds = e.retryAfterSeconds !== undefined ? Math.ceil(e.retryAfterSeconds) : undefined;
+    return NextResponse.json<ApiErrorResponse>(
+        { error: { code: e.code, message: redactSecrets(e.message), ...(retryAfterSeconds !== undefined ? { retryAfterSeconds } : {}) } },
+        { status: e.status, headers: retryAfterSeconds !== undefined ? { 'Retry-After': String(retryAfterSeconds) } : undefined }
+    );
+}
+
+// The client disconnected (or pressed "Stop generating"); nobody reads this response
+export const clientClosedRequest = () => new NextResponse(null, { status: 499 });
+
+export const unauthorized = () => apiError('unauthorized', "Authentication required.", 401);
+
+type JsonBodyResult =
+    | { ok: true; body: unknown }
+    | { ok: false; response: NextResponse<ApiErrorResponse> };
+
+/**
+ * Reads a request body of at most `maxBytes`, or returns null for a larger one. The declared Content-Length is
+ * checked first; the bytes are counted again as they arrive and the stream is cancelled once the limit is passed,
+ * so a wrong Content-Length or a chunked body without one never gets more than `maxBytes` buffered.
+ */
+export async function readBodyLimited(request: NextRequest, maxBytes: number): Promise<Buffer | null> {
+    if (Number(request.headers.get('content-length')) > maxBytes) return null;
+    if (!request.body) return Buffer.alloc(0);
+
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Reads and parses a JSON body, refusing anything larger than `maxBytes` before it reaches a handler.
+ */
+export async function readJsonBody(request: NextRequest, maxBytes: number): Promise<JsonBodyResult> {
+    const raw = await readBodyLimited(request, maxBytes);
+    if (!raw) {
+        return { ok: false, response: apiError('payload_too_large', `Request body exceeds ${Math.floor(maxBytes / 1024)} KB.`, 413) };
+    }
+
+    try {
+        return { ok: true, body: JSON.parse(raw.toString('utf8')) };
+    } catch {
+        return { ok: false, response: apiError('invalid_json', 'Request body must be valid JSON.', 400) };
+    }
+}
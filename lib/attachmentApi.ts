@@ -0,0 +1,117 @@
+import type { ApiErrorResponse } from './apiErrors';
+
+/**
+ * Contract of the chat attachment endpoints.
+ *
+ * `POST /api/attachments` takes `multipart/form-data` with a single `file` field. The file must be one of
+ * ATTACHMENT_MIME_TYPES (files with an empty or generic browser type are matched by extension) and at most
+ * MAX_ATTACHMENT_BYTES. Images and PDFs must also start with their format's signature (verifyAttachmentContent). Success (201): an `AttachmentRef`; the bytes are served back from `url`
+ * (`GET /api/attachments/<id>`, owner only).
+ *
+ * Chat messages reference uploads by id (`attachmentIds` on a message sent to `POST /api/chat`); the chat
+ * route loads them and forwards them to the model as inline data.
+ *
+ * Failure: the shared error envelope (lib/apiErrors.ts) with one of the codes below.
+ */
+
+export const ATTACHMENT_MIME_TYPES = [
+    'image/png',
+    'image/jpeg',
+    'image/webp',
+    'image/gif',
+    'image/heic',
+    'image/heif',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'text/markdown',
+] as const;
+
+export type AttachmentMimeType = typeof ATTACHMENT_MIME_TYPES[number];
+
+// Browsers often report CSV/Markdown files with an empty or vendor-specific type
+const EXTENSION_MIME_TYPES: Record<string, AttachmentMimeType> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    gif: 'image/gif',
+    heic: 'image/heic',
+    heif: 'image/heif',
+    pdf: 'application/pdf',
+    txt: 'text/plain',
+    csv: 'text/csv',
+    md: 'text/markdown',
+};
+
+export const MAX_ATTACHMENT_BYTES = 8 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+// Inline data counts towards the upstream request size, which is capped at ~20 MB by Gemini
+export const MAX_REQUEST_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+export interface AttachmentRef {
+    id: string;
+    url: string;
+    name: string;
+    mimeType: AttachmentMimeType;
+    size: number;
+}
+
+export type AttachmentErrorCode =
+    | 'invalid_request'     // 400: no `file` field, or an unknown attachment id in a chat message
+    | 'unsupported_type'    // 415: the MIME type is not in ATTACHMENT_MIME_TYPES, or the content is not of that type
+    | 'payload_too_large'   // 413: the file (or all attachments of a chat request) exceeds the size limit
+    | 'internal_error';     // 500
+
+export type AttachmentErrorResponse = ApiErrorResponse<AttachmentErrorCode>;
+
+/**
+ * Returns the supported MIME type for a file, falling back to its extension, or null if it is not supported.
+ */
+export function resolveAttachmentMimeType(name: string, type: string): AttachmentMimeType | null {
+    const normalized = type.split(';')[0].trim().toLowerCase();
+    if ((ATTACHMENT_MIME_TYPES as readonly string[]).includes(normalized)) return normalized as AttachmentMimeType;
+
+    const extension = name.split('.').pop()?.toLowerCase() || '';
+    return EXTENSION_MIME_TYPES[extension] || null;
+}
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+// ISO base media brands (bytes 8-11, after "ftyp") of HEIC and other HEIF images
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx'];
+const HEIF_BRANDS = ['mif1', 'msf1', 'heim', 'heis'];
+
+// The image or PDF format the leading bytes identify; text files have no signature
+function sniffBinaryType(bytes: Uint8Array): AttachmentMimeType | null {
+    if (startsWith(bytes, [0x89, ...ascii('PNG\r\n'), 0x1a, 0x0a])) return 'image/png';
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+    if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+    if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+    if (startsWith(bytes, ascii('ftyp'), 4)) {
+        const brand = String.fromCharCode(...bytes.subarray(8, 12));
+        if (HEIC_BRANDS.includes(brand)) return 'image/heic';
+        if (HEIF_BRANDS.includes(brand)) return 'image/heif';
+    }
+    // PDF readers accept the header anywhere in the first kilobyte
+    if (new TextDecoder('latin1').decode(bytes.subarray(0, 1024)).includes('%PDF-')) return 'application/pdf';
+    return null;
+}
+
+/**
+ * Checks an upload's content against the type resolved from its name and browser type: images and PDFs must
+ * carry their format's signature. Returns the type to store (the detected one, e.g. for a PNG named .jpg), or
+ * null when the content is not an image or PDF after all. Text types are passed through as they are.
+ */
+export function verifyAttachmentContent(mimeType: AttachmentMimeType, bytes: Uint8Array): AttachmentMimeType | null {
+    if (mimeType.startsWith('text/')) return mimeType;
+    return sniffBinaryType(bytes);
+}
+
+export function formatBytes(size: number): string {
+    if (size < 1024) return `${size} B`;
+    if (size < 1024 * 1024) return `${Math.round(size / 1024)} KB`;
+    return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
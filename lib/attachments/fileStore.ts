@@ -0,0 +1,51 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createKeyedQueue, readJson, writeAtomic } from '../fileStorage';
+import { AttachmentStore, StoredAttachmentMeta } from './types';
+
+// Ids are sha256 hex digests; anything else is rejected before touching the filesystem
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Stores uploads under `<dataDir>/attachments/<owner>/<sha256>.bin` (+ `.json` metadata).
+ * Files are kept per owner, so an id is only ever resolved for the user who uploaded it. Saves of the same file
+ * (a double drop or paste) are queued, so the second one finds the first instead of racing it.
+ */
+export function createFileAttachmentStore(dataDir: string): AttachmentStore {
+    const root = path.join(dataDir, 'attachments');
+    const ownerDir = (ownerId: string) => path.join(root, encodeURIComponent(ownerId));
+    const blobFile = (ownerId: string, id: string) => path.join(ownerDir(ownerId), `${id}.bin`);
+    const metaFile = (ownerId: string, id: string) => path.join(ownerDir(ownerId), `${id}.json`);
+
+    const enqueue = createKeyedQueue();
+
+    const getMeta = async (ownerId: string, id: string): Promise<StoredAttachmentMeta | null> =>
+        HASH_PATTERN.test(id) ? readJson<StoredAttachmentMeta>(metaFile(ownerId, id)) : null;
+
+    return {
+        save(ownerId: string, name: string, mimeType: string, bytes: Buffer): Promise<StoredAttachmentMeta> {
+            const id = createHash('sha256').update(bytes).digest('hex');
+            return enqueue(`${ownerId}/${id}`, async () => {
+                const existing = await getMeta(ownerId, id);
+                if (existing) return existing;
+
+                const meta: StoredAttachmentMeta = { id, ownerId, name, mimeType, size: bytes.length, createdAt: new Date().toISOString() };
+                await writeAtomic(blobFile(ownerId, id), bytes);
+                await writeAtomic(metaFile(ownerId, id), JSON.stringify(meta));
+                return meta;
+            });
+        },
+
+        async get(ownerId: string, id: string) {
+            const meta = await getMeta(ownerId, id);
+            if (!meta) return null;
+            try {
+                return { meta, bytes: await fs.readFile(blobFile(ownerId, id)) };
+            } catch (e: unknown) {
+                if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+                throw e;
+            }
+        },
+    };
+}
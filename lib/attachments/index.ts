@@ -0,0 +1,27 @@
+import { getDataDir } from '../dataDir';
+import type { AttachmentMimeType, AttachmentRef } from '../attachmentApi';
+import { createFileAttachmentStore } from './fileStore';
+import { AttachmentStore, StoredAttachmentMeta } from './types';
+
+export * from './types';
+
+let store: AttachmentStore | undefined;
+
+export function getAttachmentStore(): AttachmentStore {
+    if (!store) store = createFileAttachmentStore(getDataDir());
+    return store;
+}
+
+export function attachmentUrl(id: string): string {
+    return `/api/attachments/${id}`;
+}
+
+export function toAttachmentRef(meta: StoredAttachmentMeta): AttachmentRef {
+    return {
+        id: meta.id,
+        url: attachmentUrl(meta.id),
+        name: meta.name,
+        mimeType: meta.mimeType as AttachmentMimeType,
+        size: meta.size,
+    };
+}
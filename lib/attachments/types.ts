@@ -0,0 +1,17 @@
+// --- Chat attachment store types ---
+
+export interface StoredAttachmentMeta {
+    // sha256 of the file bytes, unique per owner
+    id: string;
+    ownerId: string;
+    name: string;
+    mimeType: string;
+    size: number;
+    createdAt: string;
+}
+
+export interface AttachmentStore {
+    // Stores the bytes for the owner (deduplicated by content hash) and returns their metadata
+    save(ownerId: string, name: string, mimeType: string, bytes: Buffer): Promise<StoredAttachmentMeta>;
+    get(ownerId: string, id: string): Promise<{ meta: StoredAttachmentMeta; bytes: Buffer } | null>;
+}
@@ -0,0 +1,59 @@
+import { scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { getDataDir } from '../dataDir';
+import { SessionUser } from './session';
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/**
+ * Local credential store: `<DATA_DIR>/users.json` (or AUTH_USERS_FILE), an array of
+ * `{ username, displayName?, passwordHash }` where passwordHash is `scrypt:<salt hex>:<hash hex>`.
+ * Add users with `npm run add-user -- <username> [display name]` (the password is read from stdin).
+ */
+
+interface StoredUser {
+    username: string;
+    displayName?: string;
+    passwordHash: string;
+}
+
+const KEY_LENGTH = 64;
+
+function getUsersFile(): string {
+    return process.env.AUTH_USERS_FILE || path.join(getDataDir(), 'users.json');
+}
+
+async function loadUsers(): Promise<StoredUser[]> {
+    try {
+        return JSON.parse(await fs.readFile(getUsersFile(), 'utf8')) as StoredUser[];
+    } catch (e: unknown) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw e;
+    }
+}
+
+async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [scheme, saltHex, hashHex] = passwordHash.split(':');
+    if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length || KEY_LENGTH);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Returns the user when the username/password pair is valid, otherwise null.
+ */
+export async function authenticate(username: string, password: string): Promise<SessionUser | null> {
+    const users = await loadUsers();
+    const user = users.find(candidate => candidate.username === username);
+    if (!user) {
+        // Spend the same time as a real check so unknown usernames are not distinguishable by timing
+        await verifyPassword(password, `scrypt:00:${'0'.repeat(KEY_LENGTH * 2)}`);
+        return null;
+    }
+    if (!(await verifyPassword(password, user.passwordHash))) return null;
+    return { id: user.username, name: user.displayName || user.username };
+}
@@ -0,0 +1,2 @@
+export * from './session';
+export { authenticate } from './credentials';
@@ -0,0 +1,112 @@
+import { readEnvNumber } from '../env';
+
+/**
+ * Signed session cookies. Uses only Web Crypto so it runs both in middleware and in route handlers.
+ *
+ * Cookie format: `<base64url(JSON payload)>.<base64url(HMAC-SHA256(payload))>`, keyed with AUTH_SECRET.
+ */
+
+export const SESSION_COOKIE = 'fb_session';
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+export interface SessionUser {
+    id: string;
+    name: string;
+}
+
+interface SessionPayload extends SessionUser {
+    exp: number; // Unix seconds
+}
+
+// Used outside production only, so local development works without extra setup
+const DEV_SECRET = 'fish-and-barrel-dev-secret-do-not-use-in-production';
+
+function getSecret(): string | null {
+    const secret = process.env.AUTH_SECRET;
+    if (secret) return secret;
+    return process.env.NODE_ENV === 'production' ? null : DEV_SECRET;
+}
+
+export function getSessionTtlSeconds(): number {
+    // A zero lifetime would sign users out right away, so it falls back to the default too
+    return Math.round((readEnvNumber('AUTH_SESSION_TTL_HOURS', DEFAULT_TTL_HOURS) || DEFAULT_TTL_HOURS) * 3600);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function getKey(secret: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+    );
+}
+
+/**
+ * Creates the cookie value for a signed-in user. Throws if AUTH_SECRET is missing in production.
+ */
+export async function createSessionToken(user: SessionUser): Promise<string> {
+    const secret = getSecret();
+    if (!secret) throw new Error('AUTH_SECRET is not configured.');
+
+    const payload: SessionPayload = { id: user.id, name: user.name, exp: Math.floor(Date.now() / 1000) + getSessionTtlSeconds() };
+    const encodedPayload = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+    const signature = await crypto.subtle.sign('HMAC', await getKey(secret), new TextEncoder().encode(encodedPayload));
+    return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Returns the user for a valid, unexpired token, or null for anything else (fails closed).
+ */
+export async function verifySessionToken(token: string | undefined): Promise<SessionUser | null> {
+    const secret = getSecret();
+    if (!secret || !token) return null;
+
+    const [encodedPayload, encodedSignature] = token.split('.');
+    if (!encodedPayload || !encodedSignature) return null;
+
+    try {
+        const valid = await crypto.subtle.verify(
+            'HMAC',
+            await getKey(secret),
+            fromBase64Url(encodedSignature),
+            new TextEncoder().encode(encodedPayload)
+        );
+        if (!valid) return null;
+
+        const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encodedPayload))) as SessionPayload;
+        if (!payload.id || payload.exp < Math.floor(Date.now() / 1000)) return null;
+        return { id: payload.id, name: payload.name };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reads and verifies the session cookie of an incoming request.
+ */
+export async function getSessionUser(request: { cookies: { get(name: string): { value: string } | undefined } }): Promise<SessionUser | null> {
+    return verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+export function sessionCookieOptions(maxAge: number) {
+    return {
+        httpOnly: true,
+        sameSite: 'lax' as const,
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge,
+    };
+}
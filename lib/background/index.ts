@@ -0,0 +1,68 @@
+import { readEnvNumber } from '../env';
+import type { BackgroundRequestBody, BackgroundStyle } from '../backgroundApi';
+import type { ChatProvider, ImageRequest, TokenUsage } from '../providers/types';
+
+/**
+ * Server-side prompt construction for conversation backgrounds (`POST /api/background`):
+ * the chat model condenses the recent turns into a short visual scene, which a style preset turns into
+ * the image prompt.
+ *
+ *   BACKGROUND_MIN_INTERVAL_SECONDS  minimum time between automatic backgrounds of a conversation (default 90)
+ */
+
+export function getBackgroundMinIntervalSeconds(): number {
+    return readEnvNumber('BACKGROUND_MIN_INTERVAL_SECONDS', 90);
+}
+
+type StylePreset = (scene: string) => string;
+
+const STYLE_PRESETS: Record<Exclude<BackgroundStyle, 'off'>, StylePreset> = {
+    fantasy: scene => `A stunning, high-definition fantasy illustration of ${scene}. Focus on cinematic lighting, epic composition, and painterly detail. Digital art. Cinematic.`,
+    photographic: scene => `A professional photograph of ${scene}. Natural light, realistic detail, shallow depth of field, shot on 35mm.`,
+    minimal: scene => `A minimal, abstract background inspired by ${scene}. Soft gradients, simple geometric shapes, muted palette, plenty of empty space.`,
+};
+
+const MAX_SCENE_CHARS = 300;
+
+// Answer the scene model gives when the conversation has not moved on from the current background
+const SAME_TOPIC = 'SAME';
+
+const SCENE_INSTRUCTION = `You pick background images for a chat app. Describe one visual scene that captures the subject of the recent conversation in at most 25 words: concrete places, objects, atmosphere. No text, letters, logos, real people's names or instructions to the artist. Reply with the scene only. If a current scene is given and the conversation is still about the same subject, reply with exactly ${SAME_TOPIC}.`;
+
+/**
+ * Returns the scene for the recent messages, or null when the model says the current scene still fits.
+ */
+export async function describeScene(
+    provider: ChatProvider, messages: BackgroundRequestBody['messages'], currentScene: string | undefined,
+    onUsage?: (usage: TokenUsage) => void, signal?: AbortSignal,
+): Promise<string | null> {
+    const transcript = messages.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`).join('\n');
+    const prompt = [
+        currentScene ? `Current scene: ${currentScene}` : 'There is no current scene.',
+        `Recent conversation:\n${transcript}`,
+    ].join('\n\n');
+
+    const response = await provider.chat({
+        messages: [{ role: 'user', content: prompt }],
+        systemInstruction: SCENE_INSTRUCTION,
+        generationConfig: { temperature: 0.4, maxOutputTokens: 100 },
+        signal,
+    });
+    if (response.usage) onUsage?.(response.usage);
+
+    const scene = response.text.trim().replace(/^["']|["'.]$/g, '');
+    if (currentScene && scene.toUpperCase() === SAME_TOPIC) return null;
+    if (!scene || scene.toUpperCase() === SAME_TOPIC) throw new Error('The model returned no scene description.');
+    // Models do not always respect the word limit; the scene ends up in an image prompt and on the conversation
+    return scene.slice(0, MAX_SCENE_CHARS);
+}
+
+export function buildBackgroundRequest(style: Exclude<BackgroundStyle, 'off'>, scene: string): Omit<ImageRequest, 'signal'> {
+    return {
+        prompt: STYLE_PRESETS[style](scene),
+        sampleCount: 1,
+        aspectRatio: '16:9',
+        negativePrompt: 'text, captions, watermark, logo',
+        outputMimeType: 'image/png',
+    };
+}
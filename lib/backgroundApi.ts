@@ -0,0 +1,159 @@
+import type { ApiErrorDetail } from './apiErrors';
+import { IMAGE_ID } from './imageApi';
+
+/**
+ * Contract of `POST /api/background`, which picks a scene for the conversation background and generates it.
+ *
+ * Request body:
+ *   {
+ *     "conversationId": "<id>",          // optional; the result is saved on the conversation and used for debouncing
+ *     "style": "fantasy",                // required, one of BACKGROUND_STYLES except "off"
+ *     "messages": [                      // required, the latest turns (1-MAX_BACKGROUND_MESSAGES), oldest first
+ *       { "role": "user", "content": "..." }
+ *     ],
+ *     "force": true                      // optional, "Regenerate": skip debouncing, pin and same-topic checks
+ *   }
+ *
+ * The server asks the chat model to describe the scene of the recent conversation, turns it into a prompt with
+ * the style preset and generates it through the image pipeline (cache, gallery and image limits as in
+ * `/api/image`). The scene counts as a chat request; both limits are checked before the chat model is called. Without `force`, nothing is generated while the background is pinned, within
+ * BACKGROUND_MIN_INTERVAL_SECONDS of the last one, or when the conversation is still on the same topic;
+ * the response then has `generated: false` and a `skipped` reason.
+ *
+ * Failure: the shared error envelope (lib/apiErrors.ts), with the same codes as `/api/image`.
+ */
+
+export const BACKGROUND_STYLES = ['fantasy', 'photographic', 'minimal', 'off'] as const;
+export type BackgroundStyle = typeof BACKGROUND_STYLES[number];
+
+export const MAX_BACKGROUND_MESSAGES = 12;
+export const MAX_BACKGROUND_BODY_BYTES = 128 * 1024;
+
+// Longer messages are cut before they reach the scene prompt; the gist is in the first part
+export const BACKGROUND_MESSAGE_CHARS = 2000;
+
+// A generated (or gallery-applied) background
+export interface BackgroundImage {
+    // Image URL (`/api/image/<id>`)
+    url: string;
+    // Scene description the image was generated from
+    topic: string;
+    style: Exclude<BackgroundStyle, 'off'>;
+    createdAt: string;
+}
+
+// Background state saved on a conversation
+export interface ConversationBackground {
+    current?: BackgroundImage;
+    // The one before `current`, for "restore previous"
+    previous?: BackgroundImage;
+    // Pinned backgrounds are never replaced automatically
+    pinned?: boolean;
+}
+
+export interface BackgroundRequestBody {
+    conversationId?: string;
+    style: Exclude<BackgroundStyle, 'off'>;
+    messages: { role: 'user' | 'assistant'; content: string }[];
+    force?: boolean;
+}
+
+export type BackgroundSkipReason = 'pinned' | 'too_soon' | 'same_topic';
+
+export interface BackgroundResponse {
+    generated: boolean;
+    skipped?: BackgroundSkipReason;
+    // The conversation's background after the call
+    background: ConversationBackground;
+}
+
+const BODY_FIELDS = new Set(['conversationId', 'style', 'messages', 'force']);
+
+type ParseResult =
+    | { ok: true; request: BackgroundRequestBody }
+    | { ok: false; message: string; details: ApiErrorDetail[] };
+
+/**
+ * Validates an incoming body. All problems are collected so the client sees them at once.
+ */
+export function parseBackgroundRequest(body: unknown): ParseResult {
+    const details: ApiErrorDetail[] = [];
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { ok: false, message: 'Request body must be a JSON object.', details };
+    }
+    const input = body as Record<string, unknown>;
+
+    for (const key of Object.keys(input)) {
+        if (!BODY_FIELDS.has(key)) details.push({ path: key, message: 'Unknown field.' });
+    }
+    if (input.conversationId !== undefined && (typeof input.conversationId !== 'string' || !input.conversationId)) {
+        details.push({ path: 'conversationId', message: 'Must be a non-empty string.' });
+    }
+    if (input.style === 'off' || !(BACKGROUND_STYLES as readonly unknown[]).includes(input.style)) {
+        details.push({ path: 'style', message: `Must be one of ${BACKGROUND_STYLES.filter(style => style !== 'off').join(', ')}.` });
+    }
+    if (input.force !== undefined && typeof input.force !== 'boolean') {
+        details.push({ path: 'force', message: 'Must be a boolean.' });
+    }
+
+    const messages = input.messages;
+    if (!Array.isArray(messages) || !messages.length || messages.length > MAX_BACKGROUND_MESSAGES) {
+        details.push({ path: 'messages', message: `Must be an array of 1-${MAX_BACKGROUND_MESSAGES} messages.` });
+    } else {
+        messages.forEach((message: unknown, index) => {
+            const entry = (message && typeof message === 'object' ? message : {}) as Record<string, unknown>;
+            if (entry.role !== 'user' && entry.role !== 'assistant') {
+                details.push({ path: `messages[${index}].role`, message: 'Must be "user" or "assistant".' });
+            }
+            if (typeof entry.content !== 'string') {
+                details.push({ path: `messages[${index}].content`, message: 'Must be a string.' });
+            }
+        });
+    }
+
+    if (details.length) {
+        const message = details.length === 1 ? `${details[0].path}: ${details[0].message}` : `${details.length} problems in the request body.`;
+        return { ok: false, message, details };
+    }
+
+    return {
+        ok: true,
+        request: {
+            ...(input.conversationId ? { conversationId: input.conversationId as string } : {}),
+            style: input.style as BackgroundRequestBody['style'],
+            messages: (messages as BackgroundRequestBody['messages']).map(({ role, content }) => ({
+                role,
+                content: content.slice(0, BACKGROUND_MESSAGE_CHARS),
+            })),
+            ...(input.force ? { force: true } : {}),
+        },
+    };
+}
+
+/**
+ * Validates a background sent back by ChatClient in a conversation PATCH (pin, restore previous, gallery pick).
+ * Only stored image URLs are accepted.
+ */
+export function validateConversationBackground(value: unknown, path: string, details: ApiErrorDetail[]): void {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        details.push({ path, message: 'Must be an object.' });
+        return;
+    }
+    const input = value as Record<string, unknown>;
+    if (input.pinned !== undefined && typeof input.pinned !== 'boolean') {
+        details.push({ path: `${path}.pinned`, message: 'Must be a boolean.' });
+    }
+    for (const key of ['current', 'previous'] as const) {
+        if (input[key] === undefined) continue;
+        const image = (input[key] && typeof input[key] === 'object' ? input[key] : {}) as Record<string, unknown>;
+        // The page puts the URL into a CSS `url()`, so nothing but the exact image path may pass
+        if (typeof image.url !== 'string' || !image.url.startsWith('/api/image/') || !IMAGE_ID.test(image.url.slice('/api/image/'.length))) {
+            details.push({ path: `${path}.${key}.url`, message: 'Must be a stored image URL (/api/image/<id>).' });
+        }
+        if (typeof image.topic !== 'string') details.push({ path: `${path}.${key}.topic`, message: 'Must be a string.' });
+        if (image.style === 'off' || !(BACKGROUND_STYLES as readonly unknown[]).includes(image.style)) {
+            details.push({ path: `${path}.${key}.style`, message: 'Must be a background style.' });
+        }
+        if (typeof image.createdAt !== 'string') details.push({ path: `${path}.${key}.createdAt`, message: 'Must be a string.' });
+    }
+}
@@ -0,0 +1,207 @@
+import { MAX_ATTACHMENTS_PER_MESSAGE } from './attachmentApi';
+import type { ApiErrorDetail } from './apiErrors';
+import type { ChatResponse, ChatStreamEvent } from './providers/types';
+
+/**
+ * Request contract of `POST /api/chat` (`?stream=true` for Server-Sent Events).
+ *
+ * Request body:
+ *   {
+ *     "conversationId": "<id>",                       // optional, lets the server reuse the conversation's rolling summary
+ *     "personaId": "research",                        // optional, persona from GET /api/personas (default persona otherwise)
+ *     "model": "gemini:gemini-2.5-pro",               // optional, a model from GET /api/compare (the server's chat model otherwise)
+ *     "grounding": "auto",                            // optional, web search: "always", "auto" (decided per turn) or "off";
+ *                                                     // the persona's setting ("always" or "off") when absent
+ *     "messages": [                                   // required, 1-MAX_CHAT_TURNS entries, oldest first
+ *       {
+ *         "id": "<message id>",                       // optional, client message id (needed for the rolling summary)
+ *         "role": "user",                             // "user" or "assistant"; the last message must be "user"
+ *         "content": "What is in this chart?",        // string, at most MAX_MESSAGE_CHARS characters
+ *         "attachmentIds": ["<id>"],                  // optional, uploads from POST /api/attachments
+ *         "pinned": true                              // optional, never summarized away
+ *       }
+ *     ]
+ *   }
+ *
+ * Only real conversation turns belong in `messages`: greetings, error bubbles and other UI-only messages must
+ * not be sent as assistant turns. The reply (JSON, or the `done` event when streaming) carries a `context`
+ * object (ChatContextInfo) describing how the history was fitted into the token budget (see lib/context).
+ *
+ * Replies also carry `finish` (ChatFinish): `complete`, `truncated` (output limit reached; send the reply back
+ * as an assistant turn followed by a user turn asking to continue), `blocked` (refused by safety filters;
+ * `promptBlocked` when the prompt itself was refused, `text` may then be empty) or `recitation` (stopped for
+ * reproducing existing material). A blocked or empty reply is still a 200; it is not an upstream error.
+ *
+ * Grounded replies carry `search` (SearchInfo): the web search queries the model ran and the search suggestions
+ * chip (`entryPoint`, self-contained HTML) that has to be shown alongside the sources.
+ *
+ * The server may run tools (lib/tools) before the model answers: calculations, unit conversions, the current time
+ * and reading URLs from the conversation. Each finished call is streamed as a `tool` event (ToolInvocation) and
+ * the reply lists them all in `tools`. Tool calls are not part of the history: send only the reply text back.
+ *
+ * Bodies over MAX_CHAT_BODY_BYTES are refused with `payload_too_large` before they are parsed. Schema
+ * violations are answered with `invalid_request` and one `details` entry per problem (see lib/apiErrors.ts).
+ */
+
+export const MAX_CHAT_BODY_BYTES = 1024 * 1024;
+export const MAX_CHAT_TURNS = 200;
+export const MAX_MESSAGE_CHARS = 32000;
+export const MAX_CHAT_CHARS = 500000;
+
+export const GROUNDING_MODES = ['always', 'auto', 'off'] as const;
+export type GroundingMode = typeof GROUNDING_MODES[number];
+
+export interface ChatRequestMessage {
+    id?: string;
+    role: 'user' | 'assistant';
+    content: string;
+    attachmentIds?: string[];
+    pinned?: boolean;
+}
+
+export interface ChatRequestBody {
+    conversationId?: string;
+    personaId?: string;
+    // `provider:model` id of one of the compare models (lib/compareApi.ts)
+    model?: string;
+    grounding?: GroundingMode;
+    messages: ChatRequestMessage[];
+}
+
+export interface ChatContextInfo {
+    // Estimated prompt tokens actually sent (0 budget = unlimited)
+    estimatedTokens: number;
+    tokenBudget: number;
+    // Messages condensed into the rolling summary so far
+    summarizedMessages: number;
+    pinnedMessages: number;
+}
+
+// A tool call the server ran for the reply, as shown in the chat
+export interface ToolInvocation {
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+    // What the model received: the tool's result, or `error` when the call failed
+    result?: Record<string, unknown>;
+    error?: string;
+    durationMs: number;
+}
+
+// Reply of `POST /api/chat`: the provider response plus how the history was fitted into the budget
+export interface ChatApiResponse extends Omit<ChatResponse, 'toolCalls'> {
+    context?: ChatContextInfo;
+    // Tool calls made while answering, in order
+    tools?: ToolInvocation[];
+}
+
+export type ChatApiStreamEvent =
+    | Exclude<ChatStreamEvent, { type: 'done' }>
+    | { type: 'tool'; tool: ToolInvocation }
+    | { type: 'done'; response: ChatApiResponse };
+
+const BODY_FIELDS = new Set(['conversationId', 'personaId', 'model', 'grounding', 'messages']);
+const MESSAGE_FIELDS = new Set(['id', 'role', 'content', 'attachmentIds', 'pinned']);
+
+type ParseResult =
+    | { ok: true; request: ChatRequestBody }
+    | { ok: false; message: string; details: ApiErrorDetail[] };
+
+/**
+ * Validates an incoming chat body. All problems are collected so the client sees them at once.
+ */
+export function parseChatRequest(body: unknown): ParseResult {
+    const details: ApiErrorDetail[] = [];
+    const fail = (message: string): ParseResult => ({ ok: false, message, details });
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return fail('Request body must be a JSON object.');
+    }
+
+    const { conversationId, personaId, model, grounding, messages } = body as Record<string, unknown>;
+    for (const key of Object.keys(body)) {
+        if (!BODY_FIELDS.has(key)) details.push({ path: key, message: 'Unknown field.' });
+    }
+    if (conversationId !== undefined && typeof conversationId !== 'string') {
+        details.push({ path: 'conversationId', message: 'Must be a string.' });
+    }
+    if (personaId !== undefined && typeof personaId !== 'string') {
+        details.push({ path: 'personaId', message: 'Must be a string.' });
+    }
+    if (model !== undefined && typeof model !== 'string') {
+        details.push({ path: 'model', message: 'Must be a string.' });
+    }
+    if (grounding !== undefined && !GROUNDING_MODES.includes(grounding as GroundingMode)) {
+        details.push({ path: 'grounding', message: `Must be one of ${GROUNDING_MODES.map(mode => `"${mode}"`).join(', ')}.` });
+    }
+    if (!Array.isArray(messages) || messages.length === 0) {
+        return fail('"messages" must be a non-empty array.');
+    }
+    if (messages.length > MAX_CHAT_TURNS) {
+        return fail(`A conversation may have at most ${MAX_CHAT_TURNS} turns (got ${messages.length}).`);
+    }
+
+    let totalChars = 0;
+    messages.forEach((message: unknown, index) => {
+        const path = `messages[${index}]`;
+        if (!message || typeof message !== 'object' || Array.isArray(message)) {
+            details.push({ path, message: 'Must be an object.' });
+            return;
+        }
+        const input = message as Record<string, unknown>;
+
+        for (const key of Object.keys(input)) {
+            if (!MESSAGE_FIELDS.has(key)) details.push({ path: `${path}.${key}`, message: 'Unknown field.' });
+        }
+        if (input.id !== undefined && typeof input.id !== 'string') {
+            details.push({ path: `${path}.id`, message: 'Must be a string.' });
+        }
+        if (input.pinned !== undefined && typeof input.pinned !== 'boolean') {
+            details.push({ path: `${path}.pinned`, message: 'Must be a boolean.' });
+        }
+        if (input.role !== 'user' && input.role !== 'assistant') {
+            details.push({ path: `${path}.role`, message: 'Must be "user" or "assistant".' });
+        }
+        if (typeof input.content !== 'string') {
+            details.push({ path: `${path}.content`, message: 'Must be a string.' });
+        } else {
+            totalChars += input.content.length;
+            if (input.content.length > MAX_MESSAGE_CHARS) {
+                details.push({ path: `${path}.content`, message: `Longer than ${MAX_MESSAGE_CHARS} characters.` });
+            }
+        }
+        if (input.attachmentIds !== undefined) {
+            const ids = input.attachmentIds;
+            if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+                details.push({ path: `${path}.attachmentIds`, message: 'Must be an array of attachment ids.' });
+            } else if (ids.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+                details.push({ path: `${path}.attachmentIds`, message: `At most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments per message.` });
+            }
+        }
+        if (typeof input.content === 'string' && !input.content.trim() && !(input.attachmentIds as unknown[] | undefined)?.length) {
+            details.push({ path: `${path}.content`, message: 'Must not be empty.' });
+        }
+    });
+
+    const last = messages[messages.length - 1] as { role?: unknown } | null;
+    if (last && typeof last === 'object' && last.role !== 'user') {
+        details.push({ path: `messages[${messages.length - 1}].role`, message: 'The last message must come from the user.' });
+    }
+    if (totalChars > MAX_CHAT_CHARS) {
+        details.push({ path: 'messages', message: `Conversation is longer than ${MAX_CHAT_CHARS} characters in total.` });
+    }
+
+    if (details.length) {
+        return fail(details.length === 1 ? `${details[0].path}: ${details[0].message}` : `${details.length} problems in the request body.`);
+    }
+    return {
+        ok: true,
+        request: {
+            ...(conversationId ? { conversationId: conversationId as string } : {}),
+            ...(personaId ? { personaId: personaId as string } : {}),
+            ...(model ? { model: model as string } : {}),
+            ...(grounding ? { grounding: grounding as GroundingMode } : {}),
+            messages: messages as ChatRequestMessage[],
+        },
+    };
+}
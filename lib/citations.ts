@@ -0,0 +1,18 @@
+import type { Citation } from './providers/types';
+
+/**
+ * Inserts a marker (built by `marker` from the 0-based source index) at the end of every grounded segment.
+ * Citations are applied from the end of the text backwards so earlier offsets stay valid.
+ */
+export function insertCitationMarkers(text: string, citations: Citation[] | undefined, marker: (sourceIndex: number) => string): string {
+    if (!citations?.length) return text;
+
+    let result = text;
+    const ordered = [...citations].sort((a, b) => b.endIndex - a.endIndex);
+    for (const citation of ordered) {
+        const markers = citation.sourceIndices.map(marker).join('');
+        const at = Math.min(citation.endIndex, result.length);
+        result = result.slice(0, at) + markers + result.slice(at);
+    }
+    return result;
+}
@@ -0,0 +1,178 @@
+import { BACKGROUND_STYLES, BackgroundStyle } from './backgroundApi';
+import { EXPORT_FORMATS, ExportFormat } from './exportApi';
+
+/**
+ * Slash commands of the chat input ("/imagine a lighthouse at dusk"). ChatClient runs them instead of sending the
+ * text to the model; a message that should start with a slash is typed with two ("//etc/hosts" sends "/etc/hosts").
+ *
+ * To add a command, append a `SlashCommand` to SLASH_COMMANDS: `run` receives the text after the command name
+ * and the ChatClient actions (CommandContext). `/help` and the input's autocomplete list the registry, so a
+ * new command needs no other change.
+ */
+
+// What commands can see and do in ChatClient
+export interface CommandContext {
+    personas: { id: string; name: string }[];
+    personaId: string;
+    // The active conversation has been saved (and can be exported)
+    hasConversation: boolean;
+    imagine(prompt: string): Promise<void>;
+    // Edits the latest generated image of the conversation
+    editImage(instruction: string): Promise<void>;
+    clearConversation(): void;
+    switchPersona(id: string): Promise<void>;
+    exportConversation(format: ExportFormat): void;
+    setBackgroundStyle(style: BackgroundStyle): void;
+    // Shown under the input until the next message is sent
+    notify(text: string): void;
+}
+
+export interface CommandChoice {
+    value: string;
+    description?: string;
+}
+
+export interface SlashCommand {
+    name: string;
+    // Argument placeholder shown in /help and the autocomplete, e.g. "<prompt>"
+    usage?: string;
+    description: string;
+    // Known argument values, offered by the autocomplete once the name is typed
+    choices?(context: CommandContext): CommandChoice[];
+    run(args: string, context: CommandContext): void | Promise<void>;
+}
+
+export interface CommandSuggestion {
+    // Input text after picking the suggestion
+    completion: string;
+    label: string;
+    description?: string;
+}
+
+const usageOf = (command: SlashCommand) => `/${command.name}${command.usage ? ` ${command.usage}` : ''}`;
+
+// Matches an argument against the command's choices: exact value first, then a unique prefix
+function pickChoice(args: string, choices: CommandChoice[]): string | undefined {
+    const wanted = args.trim().toLowerCase();
+    const exact = choices.find(choice => choice.value.toLowerCase() === wanted);
+    if (exact) return exact.value;
+    const prefixed = choices.filter(choice => choice.value.toLowerCase().startsWith(wanted));
+    return wanted && prefixed.length === 1 ? prefixed[0].value : undefined;
+}
+
+const exportChoices = (): CommandChoice[] => EXPORT_FORMATS.map(format => ({ value: format }));
+
+const backgroundChoices = (): CommandChoice[] => BACKGROUND_STYLES.map(style => ({
+    value: style,
+    description: style === 'off' ? 'No generated backgrounds' : `${style[0].toUpperCase()}${style.slice(1)} backgrounds`,
+}));
+
+const personaChoices = (context: CommandContext): CommandChoice[] =>
+    context.personas.map(persona => ({ value: persona.id, description: persona.name }));
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+    {
+        name: 'imagine',
+        usage: '<prompt>',
+        description: 'Generate an image in the conversation',
+        run: async (args, context) => {
+            if (!args.trim()) return context.notify('Describe the image, e.g. "/imagine a lighthouse at dusk".');
+            await context.imagine(args.trim());
+        },
+    },
+    {
+        name: 'edit',
+        usage: '<instruction>',
+        description: 'Change the latest generated image',
+        run: async (args, context) => {
+            if (!args.trim()) return context.notify('Say what to change, e.g. "/edit make it night time".');
+            await context.editImage(args.trim());
+        },
+    },
+    {
+        name: 'clear',
+        description: 'Start a new conversation (the current one stays in the list)',
+        run: (_args, context) => context.clearConversation(),
+    },
+    {
+        name: 'persona',
+        usage: '[id]',
+        description: 'Switch persona, or list them',
+        choices: personaChoices,
+        run: async (args, context) => {
+            const list = context.personas.map(persona => `${persona.id === context.personaId ? '•' : '·'} ${persona.id} (${persona.name})`).join('\n');
+            if (!args.trim()) return context.notify(`Personas:\n${list}`);
+            // Names work as well as ids
+            const byName = context.personas.find(persona => persona.name.toLowerCase() === args.trim().toLowerCase());
+            const id = byName?.id || pickChoice(args, personaChoices(context));
+            if (!id) return context.notify(`Unknown persona "${args.trim()}". Personas:\n${list}`);
+            await context.switchPersona(id);
+            context.notify(`Persona: ${context.personas.find(persona => persona.id === id)?.name || id}`);
+        },
+    },
+    {
+        name: 'export',
+        usage: '[markdown|json|html]',
+        description: 'Download the conversation',
+        choices: exportChoices,
+        run: (args, context) => {
+            const format = args.trim() ? pickChoice(args, exportChoices()) : 'markdown';
+            if (!format) return context.notify(`Unknown export format "${args.trim()}". Use ${EXPORT_FORMATS.join(', ')}.`);
+            if (!context.hasConversation) return context.notify('Nothing to export yet: send a message first.');
+            context.exportConversation(format as ExportFormat);
+        },
+    },
+    {
+        name: 'background',
+        usage: `<${BACKGROUND_STYLES.join('|')}>`,
+        description: 'Turn generated backgrounds off or pick their style',
+        choices: backgroundChoices,
+        run: (args, context) => {
+            const style = pickChoice(args, backgroundChoices());
+            if (!style) return context.notify(`Use one of: ${BACKGROUND_STYLES.join(', ')}.`);
+            context.setBackgroundStyle(style as BackgroundStyle);
+            context.notify(style === 'off' ? 'Backgrounds are off.' : `Background style: ${style}`);
+        },
+    },
+    {
+        name: 'help',
+        description: 'List the commands',
+        run: (_args, context) => context.notify(
+            SLASH_COMMANDS.map(command => `${usageOf(command)} — ${command.description}`).join('\n')
+                + '\nStart a message with // to send it with a leading slash.',
+        ),
+    },
+];
+
+/**
+ * Splits "/name arguments" into the command and its arguments; null when the input is a regular message.
+ * `command` is undefined for names that are not registered.
+ */
+export function parseSlashCommand(input: string): { name: string; command?: SlashCommand; args: string } | null {
+    const match = input.match(/^\/([^\s/]+)(?:\s+([\s\S]*))?$/);
+    if (!match) return null;
+    const name = match[1].toLowerCase();
+    return { name, command: SLASH_COMMANDS.find(command => command.name === name), args: match[2] || '' };
+}
+
+/**
+ * Autocomplete for the chat input: command names while the first word is typed, then the command's choices.
+ */
+export function suggestCommands(input: string, context: CommandContext): CommandSuggestion[] {
+    if (!input.startsWith('/') || input.startsWith('//')) return [];
+
+    const nameOnly = input.match(/^\/(\S*)$/);
+    if (nameOnly) {
+        const typed = nameOnly[1].toLowerCase();
+        return SLASH_COMMANDS
+            .filter(command => command.name.startsWith(typed))
+            .map(command => ({ completion: `/${command.name} `, label: usageOf(command), description: command.description }));
+    }
+
+    const parsed = parseSlashCommand(input);
+    if (!parsed?.command?.choices || /\s/.test(parsed.args.trim())) return [];
+    const typed = parsed.args.trim().toLowerCase();
+    return parsed.command.choices(context)
+        .filter(choice => choice.value.toLowerCase().startsWith(typed) && choice.value.toLowerCase() !== typed)
+        .map(choice => ({ completion: `/${parsed.command!.name} ${choice.value}`, label: choice.value, description: choice.description }));
+}
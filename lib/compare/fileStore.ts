@@ -0,0 +1,44 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { CompareVote } from '../compareApi';
+import { createKeyedQueue } from '../fileStorage';
+import { log } from '../observability';
+import { CompareVoteStore } from './types';
+
+/**
+ * Appends votes to `<dataDir>/compare/votes.jsonl`, one JSON object per line, so they can be reviewed with
+ * ordinary tools (`jq`, a spreadsheet import) as well as through `GET /api/compare/votes`.
+ */
+export function createFileVoteStore(dataDir: string): CompareVoteStore {
+    const file = path.join(dataDir, 'compare', 'votes.jsonl');
+    const enqueue = createKeyedQueue();
+
+    return {
+        // One append at a time, so the lines of concurrent votes cannot interleave
+        add(vote: CompareVote): Promise<void> {
+            return enqueue('votes', async () => {
+                await fs.mkdir(path.dirname(file), { recursive: true });
+                await fs.appendFile(file, `${JSON.stringify(vote)}\n`);
+            });
+        },
+
+        async list(): Promise<CompareVote[]> {
+            let contents: string;
+            try {
+                contents = await fs.readFile(file, 'utf8');
+            } catch (e: unknown) {
+                if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+                throw e;
+            }
+            // A line cut short by a crash is skipped rather than failing the whole review
+            return contents.split('\n').filter(Boolean).flatMap(line => {
+                try {
+                    return [JSON.parse(line) as CompareVote];
+                } catch {
+                    log.warn("Compare Vote Store Warning", { message: 'Skipping an unreadable line in votes.jsonl.' });
+                    return [];
+                }
+            });
+        },
+    };
+}
@@ -0,0 +1,33 @@
+import type { CompareResult, CompareVote } from '../compareApi';
+import { getDataDir } from '../dataDir';
+import { createFileVoteStore } from './fileStore';
+import { CompareVoteStore } from './types';
+
+export * from './types';
+
+let store: CompareVoteStore | undefined;
+
+export function getVoteStore(): CompareVoteStore {
+    if (!store) store = createFileVoteStore(getDataDir());
+    return store;
+}
+
+/**
+ * Tallies votes per model and persona: a vote is a win for the chosen column and a loss for the others,
+ * or a tie for all of them.
+ */
+export function summarizeVotes(votes: CompareVote[]): CompareResult[] {
+    const results = new Map<string, CompareResult>();
+    for (const vote of votes) {
+        vote.candidates.forEach((candidate, index) => {
+            const key = `${candidate.model}\n${candidate.personaId}`;
+            const result = results.get(key) || { model: candidate.model, personaId: candidate.personaId, comparisons: 0, wins: 0, ties: 0, losses: 0 };
+            result.comparisons++;
+            if (vote.winner === 'tie') result.ties++;
+            else if (vote.winner === index) result.wins++;
+            else result.losses++;
+            results.set(key, result);
+        });
+    }
+    return [...results.values()].sort((a, b) => b.wins - a.wins || a.losses - b.losses);
+}
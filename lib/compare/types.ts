@@ -0,0 +1,9 @@
+import type { CompareVote } from '../compareApi';
+
+// --- Compare vote store types ---
+
+export interface CompareVoteStore {
+    add(vote: CompareVote): Promise<void>;
+    // Every saved vote, oldest first
+    list(): Promise<CompareVote[]>;
+}
@@ -0,0 +1,171 @@
+import type { ApiErrorDetail } from './apiErrors';
+import type { TokenUsage } from './providers/types';
+
+/**
+ * Contract of compare mode. ChatClient sends the same conversation to several models or personas at once (one
+ * `POST /api/chat` per column, with `model` and `personaId` set) and shows the replies side by side. Each of those
+ * requests counts against the chat limits (lib/usage), so a comparison of three columns uses three chat requests.
+ *
+ * `GET /api/compare` lists the models a column can use (CompareOptionsResponse): the server's chat model and the
+ * COMPARE_MODELS entries (lib/providers/config.ts), with whether their credentials are configured.
+ *
+ * `POST /api/compare/votes` saves the user's verdict on one comparison and answers 201 with the stored vote:
+ *   {
+ *     "conversationId": "<id>",              // optional
+ *     "prompt": "Why is the sky blue?",      // the question the columns answered
+ *     "candidates": [                        // 2-MAX_COMPARE_COLUMNS entries, in column order
+ *       {
+ *         "model": "gemini:gemini-2.5-pro",  // `provider:model` id from GET /api/compare
+ *         "personaId": "research",
+ *         "text": "...",                     // the reply as shown
+ *         "latencyMs": 2310,                 // optional, until the reply was complete
+ *         "usage": { "promptTokens": 812, "completionTokens": 240, "totalTokens": 1052 }, // optional
+ *         "sourceCount": 3,                  // optional
+ *         "finish": "complete"               // optional, the reply's finish state, or "error"
+ *       }
+ *     ],
+ *     "winner": 1,                           // index of the better reply, or "tie"
+ *     "continued": true                      // optional, the conversation went on with the winner
+ *   }
+ *
+ * Votes are appended to `$DATA_DIR/compare/votes.jsonl` (one JSON object per line) for review.
+ * `GET /api/compare/votes` tallies all of them per model and persona (CompareResultsResponse).
+ *
+ * Bodies over MAX_VOTE_BODY_BYTES are refused with `payload_too_large`, invalid ones with `invalid_request`.
+ */
+
+export const MAX_COMPARE_COLUMNS = 4;
+export const MAX_VOTE_BODY_BYTES = 512 * 1024;
+
+export interface CompareModel {
+    // `provider:model`, sent as the chat request's `model`
+    id: string;
+    provider: string;
+    model: string;
+    // The server's chat model, used when no model is named
+    isDefault: boolean;
+    configured: boolean;
+}
+
+export interface CompareOptionsResponse {
+    models: CompareModel[];
+    maxColumns: number;
+}
+
+// What one column sends the conversation to
+export interface CompareCandidate {
+    model: string;
+    personaId: string;
+}
+
+export interface CompareVoteCandidate extends CompareCandidate {
+    text: string;
+    latencyMs?: number;
+    usage?: TokenUsage;
+    sourceCount?: number;
+    finish?: string;
+}
+
+export interface CompareVoteRequest {
+    conversationId?: string;
+    prompt: string;
+    candidates: CompareVoteCandidate[];
+    winner: number | 'tie';
+    continued?: boolean;
+}
+
+export interface CompareVote extends CompareVoteRequest {
+    id: string;
+    userId: string;
+    createdAt: string;
+}
+
+// Tally of one model and persona over all votes it took part in
+export interface CompareResult extends CompareCandidate {
+    comparisons: number;
+    wins: number;
+    ties: number;
+    losses: number;
+}
+
+export interface CompareResultsResponse {
+    totalVotes: number;
+    // Most wins first
+    results: CompareResult[];
+}
+
+const BODY_FIELDS = new Set(['conversationId', 'prompt', 'candidates', 'winner', 'continued']);
+const CANDIDATE_FIELDS = new Set(['model', 'personaId', 'text', 'latencyMs', 'usage', 'sourceCount', 'finish']);
+
+type ParseResult =
+    | { ok: true; vote: CompareVoteRequest }
+    | { ok: false; message: string; details: ApiErrorDetail[] };
+
+const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+function isTokenUsage(value: unknown): value is TokenUsage {
+    if (!value || typeof value !== 'object') return false;
+    const usage = value as Record<string, unknown>;
+    return isCount(usage.promptTokens) && isCount(usage.completionTokens) && isCount(usage.totalTokens);
+}
+
+/**
+ * Validates a vote body. All problems are collected so the client sees them at once.
+ */
+export function parseCompareVote(body: unknown): ParseResult {
+    const details: ApiErrorDetail[] = [];
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { ok: false, message: 'Request body must be a JSON object.', details };
+    }
+    const { conversationId, prompt, candidates, winner, continued } = body as Record<string, unknown>;
+    for (const key of Object.keys(body)) {
+        if (!BODY_FIELDS.has(key)) details.push({ path: key, message: 'Unknown field.' });
+    }
+
+    if (conversationId !== undefined && typeof conversationId !== 'string') {
+        details.push({ path: 'conversationId', message: 'Must be a string.' });
+    }
+    if (typeof prompt !== 'string') details.push({ path: 'prompt', message: 'Must be a string.' });
+    if (continued !== undefined && typeof continued !== 'boolean') details.push({ path: 'continued', message: 'Must be a boolean.' });
+
+    if (!Array.isArray(candidates) || candidates.length < 2 || candidates.length > MAX_COMPARE_COLUMNS) {
+        details.push({ path: 'candidates', message: `Must be an array of 2-${MAX_COMPARE_COLUMNS} replies.` });
+    } else {
+        candidates.forEach((candidate: unknown, index) => {
+            const path = `candidates[${index}]`;
+            const input = (candidate && typeof candidate === 'object' ? candidate : {}) as Record<string, unknown>;
+            for (const key of Object.keys(input)) {
+                if (!CANDIDATE_FIELDS.has(key)) details.push({ path: `${path}.${key}`, message: 'Unknown field.' });
+            }
+            if (typeof input.model !== 'string' || !input.model) details.push({ path: `${path}.model`, message: 'Must be a non-empty string.' });
+            if (typeof input.personaId !== 'string' || !input.personaId) details.push({ path: `${path}.personaId`, message: 'Must be a non-empty string.' });
+            if (typeof input.text !== 'string') details.push({ path: `${path}.text`, message: 'Must be a string.' });
+            if (input.latencyMs !== undefined && !isCount(input.latencyMs)) details.push({ path: `${path}.latencyMs`, message: 'Must be a non-negative integer.' });
+            if (input.sourceCount !== undefined && !isCount(input.sourceCount)) details.push({ path: `${path}.sourceCount`, message: 'Must be a non-negative integer.' });
+            if (input.usage !== undefined && !isTokenUsage(input.usage)) {
+                details.push({ path: `${path}.usage`, message: 'Must have promptTokens, completionTokens and totalTokens counts.' });
+            }
+            if (input.finish !== undefined && typeof input.finish !== 'string') details.push({ path: `${path}.finish`, message: 'Must be a string.' });
+        });
+    }
+
+    const columns = Array.isArray(candidates) ? candidates.length : 0;
+    if (winner !== 'tie' && !(isCount(winner) && (winner as number) < columns)) {
+        details.push({ path: 'winner', message: 'Must be the index of one of the candidates or "tie".' });
+    }
+
+    if (details.length) {
+        const message = details.length === 1 ? `${details[0].path}: ${details[0].message}` : `${details.length} problems in the request body.`;
+        return { ok: false, message, details };
+    }
+    return {
+        ok: true,
+        vote: {
+            ...(conversationId ? { conversationId: conversationId as string } : {}),
+            prompt: prompt as string,
+            candidates: candidates as CompareVoteCandidate[],
+            winner: winner as number | 'tie',
+            ...(continued !== undefined ? { continued: continued as boolean } : {}),
+        },
+    };
+}
@@ -0,0 +1,21 @@
+import { readEnvNumber } from '../env';
+
+/**
+ * Context-window budget for outgoing chat history:
+ *   CONTEXT_TOKEN_BUDGET        estimated prompt tokens allowed per request (0 disables summarization, default 32000)
+ *   CONTEXT_KEEP_RECENT         latest messages always sent word for word (default 6)
+ *   CONTEXT_SUMMARY_MAX_TOKENS  target length of the rolling summary (default 800)
+ */
+export interface ContextConfig {
+    tokenBudget: number;
+    keepRecent: number;
+    summaryMaxTokens: number;
+}
+
+export function getContextConfig(): ContextConfig {
+    return {
+        tokenBudget: readEnvNumber('CONTEXT_TOKEN_BUDGET', 32000),
+        keepRecent: Math.max(1, readEnvNumber('CONTEXT_KEEP_RECENT', 6)),
+        summaryMaxTokens: readEnvNumber('CONTEXT_SUMMARY_MAX_TOKENS', 800),
+    };
+}
@@ -0,0 +1,184 @@
+import type { ChatContextInfo } from '../chatApi';
+import type { ContextSummary } from '../conversations/types';
+import type { ChatMessage, ChatProvider, InlineData, TokenUsage } from '../providers/types';
+import { getContextConfig } from './config';
+import { log } from '../observability';
+
+export { getContextConfig } from './config';
+export type { ContextConfig } from './config';
+
+/**
+ * Context-window management for `POST /api/chat`.
+ *
+ * The outgoing history is measured against CONTEXT_TOKEN_BUDGET. When it does not fit, older messages are
+ * folded into a rolling summary (generated by the chat provider itself) that is sent as part of the system
+ * instruction. Pinned messages and the latest CONTEXT_KEEP_RECENT messages are always sent word for word.
+ * The summary is persisted on the conversation, so each turn only summarizes messages that aged out since.
+ */
+
+export interface ContextMessage extends ChatMessage {
+    // Client message id; needed to remember how far the persisted summary reaches
+    id?: string;
+    pinned?: boolean;
+}
+
+export interface PreparedContext {
+    messages: ChatMessage[];
+    systemInstruction: string;
+    // Set when the summary changed and should be saved on the conversation
+    updatedSummary?: ContextSummary;
+    info: ChatContextInfo;
+}
+
+interface PrepareContextOptions {
+    messages: ContextMessage[];
+    systemInstruction: string;
+    previousSummary?: ContextSummary;
+    provider: ChatProvider;
+    // Summarization calls cost tokens too; the route records them against the user's quota
+    onUsage?: (usage: TokenUsage) => void;
+    signal?: AbortSignal;
+}
+
+// Gemini bills each image at a flat rate; PDFs per page (pages estimated from the file size)
+const IMAGE_TOKENS = 258;
+const PDF_BYTES_PER_PAGE = 50000;
+
+const SUMMARY_INSTRUCTION = "You maintain a running summary of a conversation between a user and an AI assistant. Merge the previous summary (if any) with the new messages into a single updated summary. Keep facts, decisions, names, numbers, user preferences and open questions; drop pleasantries. Write plain prose in the third person without any preamble.";
+
+function attachmentTokens(attachment: InlineData): number {
+    const bytes = Math.floor(attachment.data.length * 3 / 4);
+    if (attachment.mimeType.startsWith('image/')) return IMAGE_TOKENS;
+    if (attachment.mimeType === 'application/pdf') return Math.max(1, Math.ceil(bytes / PDF_BYTES_PER_PAGE)) * IMAGE_TOKENS;
+    return Math.ceil(bytes / 4);
+}
+
+/**
+ * Rough token estimate (about four characters per token for text). Providers count differently, so the
+ * budget should leave some headroom below the model's real context window.
+ */
+export function estimateTokens(text: string, attachments: InlineData[] = []): number {
+    return Math.ceil(text.length / 4) + attachments.reduce((total, attachment) => total + attachmentTokens(attachment), 0);
+}
+
+const messageTokens = (message: ChatMessage) => estimateTokens(message.content, message.attachments) + 4; // + role/framing overhead
+
+/**
+ * Merges consecutive messages of the same role. Dropping UI-only or failed bubbles on the client can leave
+ * two user turns next to each other, which some providers reject.
+ */
+function mergeConsecutiveRoles(messages: ContextMessage[]): ContextMessage[] {
+    const merged: ContextMessage[] = [];
+    for (const message of messages) {
+        const previous = merged[merged.length - 1];
+        if (previous && previous.role === message.role) {
+            merged[merged.length - 1] = {
+                ...message,
+                content: [previous.content, message.content].filter(Boolean).join('\n\n'),
+                attachments: [...(previous.attachments || []), ...(message.attachments || [])],
+                pinned: previous.pinned || message.pinned,
+            };
+        } else {
+            merged.push(message);
+        }
+    }
+    return merged;
+}
+
+const transcriptLine = (message: ChatMessage) => {
+    const files = message.attachments?.map(file => `[attached file: ${file.name || 'unnamed'} (${file.mimeType})]`).join(' ');
+    return `${message.role === 'user' ? 'User' : 'Assistant'}: ${[message.content, files].filter(Boolean).join(' ')}`;
+};
+
+async function summarize(
+    provider: ChatProvider, previous: string | undefined, messages: ChatMessage[], maxTokens: number,
+    onUsage?: (usage: TokenUsage) => void, signal?: AbortSignal,
+): Promise<string> {
+    const prompt = [
+        previous ? `Previous summary:\n${previous}` : 'There is no previous summary.',
+        `New messages:\n${messages.map(transcriptLine).join('\n')}`,
+        `Write the updated summary in at most ${Math.round(maxTokens * 0.75)} words.`,
+    ].join('\n\n');
+
+    const response = await provider.chat({
+        messages: [{ role: 'user', content: prompt }],
+        systemInstruction: SUMMARY_INSTRUCTION,
+        signal,
+    });
+    if (response.usage) onUsage?.(response.usage);
+    if (!response.text.trim()) throw new Error('The provider returned an empty summary.');
+    return response.text.trim();
+}
+
+const withSummary = (systemInstruction: string, summary: string | undefined) => summary
+    ? `${systemInstruction}\n\nSummary of the earlier conversation (older messages were condensed to save context):\n${summary}`
+    : systemInstruction;
+
+const toChatMessage = ({ role, content, attachments }: ContextMessage): ChatMessage =>
+    attachments?.length ? { role, content, attachments } : { role, content };
+
+/**
+ * Fits the history into the token budget, summarizing older messages when needed.
+ */
+export async function prepareContext(options: PrepareContextOptions): Promise<PreparedContext> {
+    const { systemInstruction, previousSummary, provider, onUsage, signal } = options;
+    const config = getContextConfig();
+    const messages = mergeConsecutiveRoles(options.messages);
+
+    // Messages up to (and including) `throughMessageId` are already covered by the persisted summary
+    const coveredUntil = previousSummary ? messages.findIndex(message => message.id === previousSummary.throughMessageId) : -1;
+    let summary = coveredUntil >= 0 ? previousSummary : undefined;
+    let summarizedMessages = summary ? summary.summarizedCount : 0;
+    let updatedSummary: ContextSummary | undefined;
+
+    const isKept = (message: ContextMessage, index: number) => index > coveredUntil || message.pinned;
+    let kept = messages.filter(isKept);
+
+    const measure = (candidate: ContextMessage[], summaryText: string | undefined) =>
+        estimateTokens(withSummary(systemInstruction, summaryText)) + candidate.reduce((total, message) => total + messageTokens(message), 0);
+
+    let estimatedTokens = measure(kept, summary?.text);
+
+    if (config.tokenBudget > 0 && estimatedTokens > config.tokenBudget) {
+        // Everything after the covered range, except pinned messages and the recent window, may be condensed
+        const recentStart = messages.length - config.keepRecent;
+        const toSummarize = messages.filter((message, index) => index > coveredUntil && index < recentStart && !message.pinned);
+
+        if (toSummarize.length) {
+            const last = toSummarize[toSummarize.length - 1];
+            const remaining = messages.filter((message, index) => isKept(message, index) && !toSummarize.includes(message));
+            try {
+                const text = await summarize(provider, summary?.text, toSummarize, config.summaryMaxTokens, onUsage, signal);
+                summarizedMessages += toSummarize.length;
+                summary = {
+                    text,
+                    throughMessageId: last.id || '',
+                    summarizedCount: summarizedMessages,
+                    updatedAt: new Date().toISOString(),
+                };
+                // Without message ids the summary cannot be matched up next turn, so it is not persisted
+                if (last.id) updatedSummary = summary;
+            } catch (e: unknown) {
+                if (signal?.aborted) throw e;
+                // Better to lose the oldest turns than to fail the request on a context-length error
+                log.error("Context Summary Error", { error: e });
+                summarizedMessages += toSummarize.length;
+            }
+            kept = remaining;
+            estimatedTokens = measure(kept, summary?.text);
+        }
+    }
+
+    return {
+        // Summarizing can leave two turns of the same role next to each other (e.g. a pinned reply before the recent window)
+        messages: mergeConsecutiveRoles(kept).map(toChatMessage),
+        systemInstruction: withSummary(systemInstruction, summary?.text),
+        updatedSummary,
+        info: {
+            estimatedTokens,
+            tokenBudget: config.tokenBudget,
+            summarizedMessages,
+            pinnedMessages: kept.filter(message => message.pinned).length,
+        },
+    };
+}
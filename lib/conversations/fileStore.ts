@@ -0,0 +1,105 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createKeyedQueue, readJson, writeAtomic } from '../fileStorage';
+import {
+    Conversation, ConversationPatch, ConversationStore, ConversationSummary,
+    DEFAULT_CONVERSATION_TITLE, toSummary,
+} from './types';
+
+// Conversation ids are generated by us (UUIDs); anything else is rejected before touching the filesystem
+const ID_PATTERN = /^[a-zA-Z0-9-]{1,64}$/;
+
+/**
+ * Stores one JSON file per conversation under `<dataDir>/conversations`.
+ * Writes go through a temp file + rename so a crash never leaves a half-written conversation behind, and
+ * updates of one conversation are queued so concurrent ones (a client save, a background, a context summary)
+ * each apply to the latest version.
+ */
+export function createFileConversationStore(dataDir: string): ConversationStore {
+    const dir = path.join(dataDir, 'conversations');
+
+    const fileFor = (id: string) => path.join(dir, `${id}.json`);
+    const enqueue = createKeyedQueue();
+
+    const read = async (ownerId: string, id: string): Promise<Conversation | null> => {
+        if (!ID_PATTERN.test(id)) return null;
+        const conversation = await readJson<Conversation>(fileFor(id));
+        return conversation?.ownerId === ownerId ? conversation : null;
+    };
+
+    const write = (conversation: Conversation) => writeAtomic(fileFor(conversation.id), JSON.stringify(conversation));
+
+    return {
+        async list(ownerId: string): Promise<ConversationSummary[]> {
+            let files: string[];
+            try {
+                files = await fs.readdir(dir);
+            } catch (e: unknown) {
+                if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+                throw e;
+            }
+
+            const conversations = await Promise.all(
+                files.filter(file => file.endsWith('.json')).map(file => read(ownerId, file.slice(0, -'.json'.length)))
+            );
+            return conversations
+                .filter((conversation): conversation is Conversation => conversation !== null)
+                .map(toSummary)
+                .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        },
+
+        get: read,
+
+        async create(ownerId: string, input: ConversationPatch): Promise<Conversation> {
+            const now = new Date().toISOString();
+            const conversation: Conversation = {
+                id: randomUUID(),
+                ownerId,
+                title: input.title?.trim() || DEFAULT_CONVERSATION_TITLE,
+                createdAt: input.createdAt || now,
+                updatedAt: now,
+                messages: input.messages || [],
+                ...(input.activeLeafId ? { activeLeafId: input.activeLeafId } : {}),
+                ...(input.personaId ? { personaId: input.personaId } : {}),
+                ...(input.background ? { background: input.background } : {}),
+            };
+            await write(conversation);
+            return conversation;
+        },
+
+        update(ownerId: string, id: string, patch: ConversationPatch): Promise<Conversation | null> {
+            return enqueue(id, async () => {
+                const existing = await read(ownerId, id);
+                if (!existing) return null;
+
+                const updated: Conversation = {
+                    ...existing,
+                    title: patch.title?.trim() || existing.title,
+                    messages: patch.messages ?? existing.messages,
+                    activeLeafId: patch.activeLeafId ?? existing.activeLeafId,
+                    personaId: patch.personaId ?? existing.personaId,
+                    contextSummary: patch.contextSummary ?? existing.contextSummary,
+                    background: patch.background ?? existing.background,
+                    updatedAt: new Date().toISOString(),
+                };
+                await write(updated);
+                return updated;
+            });
+        },
+
+        // Queued too, so an update still in flight cannot bring the conversation back
+        delete(ownerId: string, id: string): Promise<boolean> {
+            return enqueue(id, async () => {
+                if (!(await read(ownerId, id))) return false;
+                try {
+                    await fs.unlink(fileFor(id));
+                    return true;
+                } catch (e: unknown) {
+                    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return false;
+                    throw e;
+                }
+            });
+        },
+    };
+}
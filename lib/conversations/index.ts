@@ -0,0 +1,24 @@
+import { getDataDir } from '../dataDir';
+import { createFileConversationStore } from './fileStore';
+import { createMemoryConversationStore } from './memoryStore';
+import { ConversationStore } from './types';
+
+export * from './types';
+export * from './validation';
+
+/**
+ * Backend selection:
+ *   CONVERSATION_STORE  file | memory   (default: file)
+ *   DATA_DIR            root directory for the file store (default: ./data)
+ */
+let store: ConversationStore | undefined;
+
+export function getConversationStore(): ConversationStore {
+    if (!store) {
+        const backend = process.env.CONVERSATION_STORE?.trim().toLowerCase() || 'file';
+        store = backend === 'memory'
+            ? createMemoryConversationStore()
+            : createFileConversationStore(getDataDir());
+    }
+    return store;
+}
@@ -0,0 +1,71 @@
+import { randomUUID } from 'crypto';
+import {
+    Conversation, ConversationPatch, ConversationStore, ConversationSummary,
+    DEFAULT_CONVERSATION_TITLE, toSummary,
+} from './types';
+
+/**
+ * Process-local store. Useful on read-only/serverless hosts where the file store cannot write;
+ * conversations are lost when the server restarts.
+ */
+export function createMemoryConversationStore(): ConversationStore {
+    const conversations = new Map<string, Conversation>();
+
+    const getOwned = (ownerId: string, id: string): Conversation | null => {
+        const conversation = conversations.get(id);
+        return conversation?.ownerId === ownerId ? conversation : null;
+    };
+
+    return {
+        async list(ownerId: string): Promise<ConversationSummary[]> {
+            return [...conversations.values()]
+                .filter(conversation => conversation.ownerId === ownerId)
+                .map(toSummary)
+                .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        },
+
+        async get(ownerId: string, id: string): Promise<Conversation | null> {
+            return getOwned(ownerId, id);
+        },
+
+        async create(ownerId: string, input: ConversationPatch): Promise<Conversation> {
+            const now = new Date().toISOString();
+            const conversation: Conversation = {
+                id: randomUUID(),
+                ownerId,
+                title: input.title?.trim() || DEFAULT_CONVERSATION_TITLE,
+                createdAt: input.createdAt || now,
+                updatedAt: now,
+                messages: input.messages || [],
+                ...(input.activeLeafId ? { activeLeafId: input.activeLeafId } : {}),
+                ...(input.personaId ? { personaId: input.personaId } : {}),
+                ...(input.background ? { background: input.background } : {}),
+            };
+            conversations.set(conversation.id, conversation);
+            return conversation;
+        },
+
+        async update(ownerId: string, id: string, patch: ConversationPatch): Promise<Conversation | null> {
+            const existing = getOwned(ownerId, id);
+            if (!existing) return null;
+
+            const updated: Conversation = {
+                ...existing,
+                title: patch.title?.trim() || existing.title,
+                messages: patch.messages ?? existing.messages,
+                activeLeafId: patch.activeLeafId ?? existing.activeLeafId,
+                personaId: patch.personaId ?? existing.personaId,
+                contextSummary: patch.contextSummary ?? existing.contextSummary,
+                background: patch.background ?? existing.background,
+                updatedAt: new Date().toISOString(),
+            };
+            conversations.set(id, updated);
+            return updated;
+        },
+
+        async delete(ownerId: string, id: string): Promise<boolean> {
+            if (!(getOwned(ownerId, id))) return false;
+            return conversations.delete(id);
+        },
+    };
+}
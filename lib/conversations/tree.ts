@@ -0,0 +1,73 @@
+import type { ConversationMessage } from './types';
+
+/**
+ * Message-tree helpers shared by ChatClient and the export routes.
+ *
+ * A conversation's `messages` hold every branch: each message points at the message it follows (`parentId`),
+ * and edited or regenerated messages become siblings of the original. `activeLeafId` names the last message
+ * of the branch on screen; without it (or when it is unknown) the most recently added message is used.
+ * Messages saved before branching existed have no `parentId` and follow the message before them.
+ */
+
+const parentOf = (messages: ConversationMessage[], index: number): string | null => {
+    const parentId = messages[index].parentId;
+    if (parentId !== undefined) return parentId;
+    return index > 0 ? messages[index - 1].id : null;
+};
+
+/**
+ * Fills in `parentId` for messages saved before branching existed.
+ */
+export function normalizeTree(messages: ConversationMessage[]): ConversationMessage[] {
+    if (messages.every(message => message.parentId !== undefined)) return messages;
+    return messages.map((message, index) => message.parentId !== undefined ? message : { ...message, parentId: parentOf(messages, index) });
+}
+
+/**
+ * Returns the branch ending at `leafId`, root first.
+ */
+export function activeBranch(messages: ConversationMessage[], leafId?: string | null): ConversationMessage[] {
+    const tree = normalizeTree(messages);
+    const byId = new Map(tree.map(message => [message.id, message]));
+    let current: ConversationMessage | undefined = (leafId && byId.get(leafId)) || tree[tree.length - 1];
+
+    const branch: ConversationMessage[] = [];
+    // Guards against cycles in hand-edited or imported files
+    const seen = new Set<string>();
+    while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        branch.unshift(current);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return branch;
+}
+
+/**
+ * Maps every message id to its siblings (the messages sharing its parent, itself included), oldest first.
+ */
+export function siblingsById(messages: ConversationMessage[]): Map<string, ConversationMessage[]> {
+    const tree = normalizeTree(messages);
+    const children = new Map<string | null, ConversationMessage[]>();
+    for (const message of tree) {
+        const key = message.parentId ?? null;
+        children.set(key, [...(children.get(key) || []), message]);
+    }
+    return new Map(tree.map(message => [message.id, children.get(message.parentId ?? null)!]));
+}
+
+/**
+ * Follows the most recent reply from `messageId` down to the end of its branch; used when switching to
+ * a sibling so the whole branch below it comes back.
+ */
+export function latestLeaf(messages: ConversationMessage[], messageId: string): string {
+    const tree = normalizeTree(messages);
+    let leafId = messageId;
+    const seen = new Set<string>();
+    while (!seen.has(leafId)) {
+        seen.add(leafId);
+        const children = tree.filter(message => message.parentId === leafId);
+        if (!children.length) break;
+        leafId = children[children.length - 1].id;
+    }
+    return leafId;
+}
@@ -0,0 +1,117 @@
+import type { ChatFinish, Citation, SearchInfo, Source } from '../providers/types';
+import type { AttachmentRef } from '../attachmentApi';
+import type { ConversationBackground } from '../backgroundApi';
+import type { ToolInvocation } from '../chatApi';
+import type { ImageRef } from '../imageApi';
+
+// --- Conversation persistence types (shared by the store, the API routes and ChatClient) ---
+
+// Images generated in the chat with /imagine or /edit
+export interface ConversationImage {
+    prompt: string;
+    // Empty while the image is being generated
+    images: ImageRef[];
+    // The image that was edited (/edit)
+    sourceImageId?: string;
+}
+
+export interface ConversationMessage {
+    id: string;
+    role: 'user' | 'ai';
+    text: string;
+    // Message this one follows (null for the first); edits and regenerated replies are siblings (see tree.ts)
+    parentId?: string | null;
+    sources?: Source[];
+    citations?: Citation[];
+    // Web searches behind a grounded reply (queries and the search suggestions chip)
+    search?: SearchInfo;
+    // Files sent with a user message (uploaded via /api/attachments)
+    attachments?: AttachmentRef[];
+    // Pinned messages are always sent word for word, even once older turns are summarized
+    pinned?: boolean;
+    // Shown in the chat but never sent to the model (greetings, notices)
+    uiOnly?: boolean;
+    // 'streaming' while SSE chunks are still arriving, 'error' if the stream failed part-way
+    status?: 'streaming' | 'error';
+    errorDetail?: string;
+    // How a reply ended when it did not complete normally (blocked, truncated or recitation)
+    finish?: ChatFinish;
+    // Server-side tool calls made while generating the reply (shown, never sent back to the model)
+    tools?: ToolInvocation[];
+    // Image messages (role 'ai', no text) hold generated images instead of a reply; the chat model never sees them
+    image?: ConversationImage;
+    // CSS `url(...)` value of the background generated for this message (conversations saved before
+    // `Conversation.background` existed); read as a fallback only
+    backgroundImage?: string;
+    createdAt: string;
+}
+
+// Rolling summary of the older part of a conversation, maintained by the chat route (lib/context)
+export interface ContextSummary {
+    text: string;
+    // Last message covered by the summary; later messages are sent as they are
+    throughMessageId: string;
+    summarizedCount: number;
+    updatedAt: string;
+}
+
+export interface Conversation {
+    id: string;
+    // Session user id of the owner; conversations are only visible to their owner
+    ownerId: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    // Every branch of the message tree; `activeLeafId` picks the one on screen (see tree.ts)
+    messages: ConversationMessage[];
+    activeLeafId?: string;
+    // Persona (lib/personas) the conversation was started with; the default persona when absent
+    personaId?: string;
+    contextSummary?: ContextSummary;
+    background?: ConversationBackground;
+}
+
+export interface ConversationSummary {
+    id: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    messageCount: number;
+}
+
+export interface ConversationPatch {
+    title?: string;
+    messages?: ConversationMessage[];
+    activeLeafId?: string;
+    personaId?: string;
+    background?: ConversationBackground;
+    // Server-side only; not accepted from API clients (see validation.ts)
+    contextSummary?: ContextSummary;
+    // Server-side only: creation time kept by imports (lib/exportApi.ts); ignored by `update`
+    createdAt?: string;
+}
+
+/**
+ * Every method is scoped to `ownerId`: another user's conversation behaves exactly like a missing one.
+ */
+export interface ConversationStore {
+    list(ownerId: string): Promise<ConversationSummary[]>;
+    get(ownerId: string, id: string): Promise<Conversation | null>;
+    create(ownerId: string, input: ConversationPatch): Promise<Conversation>;
+    // Returns null when the conversation does not exist
+    update(ownerId: string, id: string, patch: ConversationPatch): Promise<Conversation | null>;
+    // Returns false when the conversation does not exist
+    delete(ownerId: string, id: string): Promise<boolean>;
+}
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+export function toSummary(conversation: Conversation): ConversationSummary {
+    return {
+        id: conversation.id,
+        title: conversation.title,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+        messageCount: conversation.messages.length,
+    };
+}
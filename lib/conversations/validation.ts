@@ -0,0 +1,81 @@
+import type { ApiErrorDetail } from '../apiErrors';
+import { ConversationBackground, validateConversationBackground } from '../backgroundApi';
+import type { ConversationMessage, ConversationPatch } from './types';
+
+// Conversations are saved as a whole, so their bodies are allowed to be much larger than a chat request
+export const MAX_CONVERSATION_BODY_BYTES = 4 * 1024 * 1024;
+export const MAX_TITLE_CHARS = 200;
+export const MAX_CONVERSATION_MESSAGES = 1000;
+
+const idOf = (message: unknown) => message && typeof message === 'object' ? (message as Record<string, unknown>).id : undefined;
+
+type ParseResult =
+    | { ok: true; patch: ConversationPatch }
+    | { ok: false; message: string; details: ApiErrorDetail[] };
+
+/**
+ * Validates a create/update body (`{ title?, messages?, activeLeafId?, personaId?, background? }`). Messages are checked
+ * for the fields every reader relies on (including that the tree links point at messages of the same body);
+ * optional display fields are passed through as-is.
+ */
+export function parseConversationPatch(body: unknown): ParseResult {
+    const details: ApiErrorDetail[] = [];
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { ok: false, message: 'Request body must be a JSON object.', details };
+    }
+    const { title, messages, activeLeafId, personaId, background } = body as Record<string, unknown>;
+
+    if (title !== undefined && (typeof title !== 'string' || title.length > MAX_TITLE_CHARS)) {
+        details.push({ path: 'title', message: `Must be a string of at most ${MAX_TITLE_CHARS} characters.` });
+    }
+
+    if (personaId !== undefined && (typeof personaId !== 'string' || !personaId)) {
+        details.push({ path: 'personaId', message: 'Must be a non-empty string.' });
+    }
+
+    if (background !== undefined) validateConversationBackground(background, 'background', details);
+
+    if (messages !== undefined) {
+        if (!Array.isArray(messages)) {
+            details.push({ path: 'messages', message: 'Must be an array.' });
+        } else if (messages.length > MAX_CONVERSATION_MESSAGES) {
+            details.push({ path: 'messages', message: `At most ${MAX_CONVERSATION_MESSAGES} messages per conversation.` });
+        } else {
+            const ids = new Set(messages.map(idOf));
+            messages.forEach((message: unknown, index) => {
+                const path = `messages[${index}]`;
+                const input = (message && typeof message === 'object' ? message : {}) as Record<string, unknown>;
+                if (typeof input.id !== 'string' || !input.id) details.push({ path: `${path}.id`, message: 'Must be a non-empty string.' });
+                if (input.role !== 'user' && input.role !== 'ai') details.push({ path: `${path}.role`, message: 'Must be "user" or "ai".' });
+                if (typeof input.text !== 'string') details.push({ path: `${path}.text`, message: 'Must be a string.' });
+                if (typeof input.createdAt !== 'string') details.push({ path: `${path}.createdAt`, message: 'Must be a string.' });
+                if (input.parentId !== undefined && input.parentId !== null && (typeof input.parentId !== 'string' || !ids.has(input.parentId))) {
+                    details.push({ path: `${path}.parentId`, message: 'Must be null or the id of another message.' });
+                }
+            });
+        }
+    }
+
+    if (activeLeafId !== undefined) {
+        if (typeof activeLeafId !== 'string' || !activeLeafId) {
+            details.push({ path: 'activeLeafId', message: 'Must be a non-empty string.' });
+        } else if (Array.isArray(messages) && !messages.some(message => idOf(message) === activeLeafId)) {
+            details.push({ path: 'activeLeafId', message: 'Must be the id of one of the messages.' });
+        }
+    }
+
+    if (details.length) {
+        const message = details.length === 1 ? `${details[0].path}: ${details[0].message}` : `${details.length} problems in the request body.`;
+        return { ok: false, message, details };
+    }
+    return {
+        ok: true,
+        patch: {
+            ...(title !== undefined ? { title: title as string } : {}),
+            ...(messages !== undefined ? { messages: messages as ConversationMessage[] } : {}),
+            ...(activeLeafId !== undefined ? { activeLeafId: activeLeafId as string } : {}),
+            ...(personaId !== undefined ? { personaId: personaId as string } : {}),
+            ...(background !== undefined ? { background: background as ConversationBackground } : {}),
+        },
+    };
+}
@@ -0,0 +1,8 @@
+import path from 'path';
+
+/**
+ * Root directory for server-side file storage (conversations, ...). Set DATA_DIR to override; defaults to ./data.
+ */
+export function getDataDir(): string {
+    return process.env.DATA_DIR || path.join(process.cwd(), 'data');
+}
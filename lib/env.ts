@@ -0,0 +1,9 @@
+/**
+ * Reads a numeric setting from the environment. Unset, empty, non-numeric and negative values fall back to the
+ * default, so a typo never switches a limit off; `0` is passed through for the settings where it means "off".
+ */
+export function readEnvNumber(name: string, fallback: number): number {
+    const raw = process.env[name]?.trim();
+    const value = Number(raw);
+    return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
@@ -0,0 +1,136 @@
+import { defaultUrlTransform } from 'react-markdown';
+import rehypeStringify from 'rehype-stringify';
+import remarkGfm from 'remark-gfm';
+import remarkParse from 'remark-parse';
+import remarkRehype from 'remark-rehype';
+import { unified } from 'unified';
+import { insertCitationMarkers } from '../citations';
+import type { Conversation, ConversationMessage } from '../conversations/types';
+import { ExportPersona, ROLE_LABELS, exportSummary, exportedMessages, formatTimestamp, imageLabel, sourceLabel } from './shared';
+
+// The page must work as a single file: inline styles only, no scripts, fonts or images
+const STYLES = `
+body { margin: 0; background: #f3f4f6; color: #212529; font: 15px/1.55 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+main { max-width: 760px; margin: 0 auto; padding: 2rem 1rem; }
+header { margin-bottom: 1.5rem; }
+h1 { font-size: 1.6rem; margin: 0 0 0.25rem; }
+.meta { color: #6c757d; font-size: 0.85rem; }
+.message { border-radius: 1rem; padding: 0.9rem 1.1rem; margin: 0 0 1rem; max-width: 85%; box-shadow: 0 1px 2px rgba(0, 0, 0, 0.08); }
+.message.user { background: #0d6efd; color: #fff; margin-left: auto; border-bottom-right-radius: 0.25rem; }
+.message.ai { background: #fff; border: 1px solid #dee2e6; border-bottom-left-radius: 0.25rem; }
+.message .meta { margin-bottom: 0.35rem; }
+.message.user .meta, .message.user a { color: #e7f0ff; }
+.pre-wrap { white-space: pre-wrap; margin: 0; }
+.interrupted { margin-top: 0.5rem; padding: 0.4rem 0.6rem; border-radius: 0.35rem; background: #f8d7da; color: #842029; font-size: 0.85rem; }
+.attachments { margin-top: 0.4rem; font-size: 0.85rem; }
+.sources { margin-top: 0.6rem; padding-top: 0.5rem; border-top: 1px solid #dee2e6; font-size: 0.8rem; }
+.sources ol { margin: 0.25rem 0 0; padding-left: 1.4rem; }
+.sources a, sup a { color: #198754; text-decoration: none; }
+pre { background: #f6f8fa; padding: 0.6rem; border-radius: 0.35rem; overflow-x: auto; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #dee2e6; padding: 0.25rem 0.5rem; }
+`;
+
+const SOURCE_PREFIX = '#source-';
+
+// Message ids can come from imported files, so only their letters, digits, "-" and "_" go into the anchor, which
+// is used both as an `id` attribute and as a Markdown link target
+const sourceAnchor = (messageId: string, sourceIndex: number) =>
+    `source-${messageId.replace(/[^A-Za-z0-9_-]/g, '_')}-${sourceIndex + 1}`;
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Minimal view of the HTML syntax tree produced by remark-rehype
+interface HtmlNode {
+    type: string;
+    tagName?: string;
+    properties?: Record<string, unknown>;
+    children?: HtmlNode[];
+    value?: string;
+}
+
+/**
+ * Applies MessageBubble's link rules to the rendered Markdown: unsafe protocols are dropped (as react-markdown
+ * does), external links open in a new tab and citation markers become superscripts.
+ */
+function exportLinks() {
+    const visit = (node: HtmlNode) => {
+        node.children?.forEach((child, index) => {
+            if (child.type === 'element' && child.tagName === 'a') {
+                const href = defaultUrlTransform(String(child.properties?.href ?? ''));
+                if (href.startsWith(SOURCE_PREFIX)) {
+                    const label = child.children?.map(text => text.value ?? '').join('') ?? '';
+                    node.children![index] = {
+                        type: 'element',
+                        tagName: 'sup',
+                        properties: {},
+                        children: [{ type: 'element', tagName: 'a', properties: { href }, children: [{ type: 'text', value: `[${label}]` }] }],
+                    };
+                    return;
+                }
+                child.properties = { ...child.properties, href, target: '_blank', rel: 'noopener noreferrer' };
+            }
+            visit(child);
+        });
+    };
+    return (tree: HtmlNode) => visit(tree);
+}
+
+// Raw HTML in messages is not passed through (remark-rehype drops it without `allowDangerousHtml`)
+const markdownProcessor = unified().use(remarkParse).use(remarkGfm).use(remarkRehype).use(exportLinks).use(rehypeStringify);
+
+function renderMessage(message: ConversationMessage): string {
+    const sources = message.sources || [];
+    const parts = [`<div class="meta">${ROLE_LABELS[message.role]} · ${escapeHtml(formatTimestamp(message.createdAt))}</div>`];
+
+    if (message.role === 'user') {
+        if (message.text) parts.push(`<p class="pre-wrap">${escapeHtml(message.text)}</p>`);
+    } else {
+        const markdown = insertCitationMarkers(message.text, message.citations, index => `[${index + 1}](#${sourceAnchor(message.id, index)})`);
+        parts.push(String(markdownProcessor.processSync(markdown)));
+    }
+    if (message.image?.images.length) parts.push(`<p>${escapeHtml(imageLabel(message))}</p>`);
+    if (message.attachments?.length) {
+        parts.push(`<div class="attachments">${message.attachments.map(attachment => `📎 ${escapeHtml(attachment.name)}`).join(' · ')}</div>`);
+    }
+    if (message.status === 'error' && message.errorDetail) {
+        parts.push(`<div class="interrupted">Response interrupted: ${escapeHtml(message.errorDetail)}</div>`);
+    }
+    if (sources.length) {
+        const items = sources.map((source, index) =>
+            `<li id="${sourceAnchor(message.id, index)}"><a href="${escapeHtml(defaultUrlTransform(source.uri))}" target="_blank" rel="noopener noreferrer">${escapeHtml(sourceLabel(source))}</a></li>`);
+        parts.push(`<div class="sources"><strong>Sources</strong><ol>${items.join('')}</ol></div>`);
+    }
+    return `<article class="message ${message.role}">\n${parts.join('\n')}\n</article>`;
+}
+
+/**
+ * Renders the conversation as a standalone HTML page.
+ */
+export function renderConversationHtml(conversation: Conversation, persona?: ExportPersona): string {
+    const messages = exportedMessages(conversation);
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<h1>${escapeHtml(conversation.title)}</h1>
+<div class="meta">${escapeHtml(exportSummary(messages.length, persona))}</div>
+</header>
+${messages.map(renderMessage).join('\n')}
+</main>
+</body>
+</html>
+`;
+}
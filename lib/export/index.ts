@@ -0,0 +1,92 @@
+import { insertCitationMarkers } from '../citations';
+import type { Conversation } from '../conversations/types';
+import { CONVERSATION_EXPORT_KIND, CONVERSATION_EXPORT_VERSION, ConversationExport, ExportFormat } from '../exportApi';
+import { renderConversationHtml } from './html';
+import { ExportPersona, ROLE_LABELS, exportSummary, exportedMessages, formatTimestamp, imageLabel, sourceLabel } from './shared';
+
+/**
+ * Renders conversations for `GET /api/conversations/<id>/export` (formats described in lib/exportApi.ts).
+ */
+
+export type { ExportPersona } from './shared';
+
+export interface ExportFile {
+    body: string;
+    contentType: string;
+    filename: string;
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = { markdown: 'md', json: 'json', html: 'html' };
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    markdown: 'text/markdown; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    html: 'text/html; charset=utf-8',
+};
+
+const slugify = (title: string) =>
+    title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'conversation';
+
+const escapeMarkdownLabel = (label: string) => label.replace(/([[\]\\])/g, '\\$1');
+
+export function toConversationExport(conversation: Conversation, persona?: ExportPersona): ConversationExport {
+    return {
+        kind: CONVERSATION_EXPORT_KIND,
+        version: CONVERSATION_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        conversation: {
+            id: conversation.id,
+            title: conversation.title,
+            createdAt: conversation.createdAt,
+            updatedAt: conversation.updatedAt,
+            ...(persona ? { persona } : {}),
+            messages: conversation.messages,
+            ...(conversation.activeLeafId ? { activeLeafId: conversation.activeLeafId } : {}),
+            ...(conversation.contextSummary ? { contextSummary: conversation.contextSummary } : {}),
+            ...(conversation.background ? { background: conversation.background } : {}),
+        },
+    };
+}
+
+function toMarkdown(conversation: Conversation, persona?: ExportPersona): string {
+    const messages = exportedMessages(conversation);
+    const lines = [
+        `# ${conversation.title}`,
+        '',
+        exportSummary(messages.length, persona),
+    ];
+
+    for (const message of messages) {
+        lines.push('', '---', '', `**${ROLE_LABELS[message.role]}** · ${formatTimestamp(message.createdAt)}`, '');
+        const sources = message.sources || [];
+        // Markers link straight to the source so they still work once the file is copied elsewhere
+        const text = insertCitationMarkers(message.text, message.citations, index =>
+            sources[index] ? `[[${index + 1}]](<${sources[index].uri}>)` : `[${index + 1}]`);
+        if (text) lines.push(text);
+        if (message.image?.images.length) lines.push(imageLabel(message));
+        if (message.attachments?.length) {
+            lines.push('', message.attachments.map(attachment => `📎 ${attachment.name}`).join('  \n'));
+        }
+        if (message.status === 'error' && message.errorDetail) {
+            lines.push('', `> Response interrupted: ${message.errorDetail}`);
+        }
+        if (sources.length) {
+            lines.push('', '**Sources**', '');
+            sources.forEach((source, index) => lines.push(`${index + 1}. [${escapeMarkdownLabel(sourceLabel(source))}](<${source.uri}>)`));
+        }
+    }
+    return `${lines.join('\n')}\n`;
+}
+
+export function renderConversationExport(conversation: Conversation, format: ExportFormat, persona?: ExportPersona): ExportFile {
+    const body = format === 'json'
+        ? `${JSON.stringify(toConversationExport(conversation, persona), null, 2)}\n`
+        : format === 'html'
+            ? renderConversationHtml(conversation, persona)
+            : toMarkdown(conversation, persona);
+    return {
+        body,
+        contentType: CONTENT_TYPES[format],
+        filename: `${slugify(conversation.title)}.${EXTENSIONS[format]}`,
+    };
+}
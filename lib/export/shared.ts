@@ -0,0 +1,33 @@
+import type { Conversation, ConversationMessage } from '../conversations/types';
+import type { Source } from '../providers/types';
+import { activeBranch } from '../conversations/tree';
+
+// --- Helpers shared by the Markdown and HTML exports ---
+
+export interface ExportPersona {
+    id: string;
+    name?: string;
+}
+
+export const ROLE_LABELS: Record<ConversationMessage['role'], string> = { user: 'You', ai: 'Assistant' };
+
+// Exports are read outside the app, so times are spelled out in UTC rather than in the server's time zone
+export const formatTimestamp = (iso: string) => `${iso.slice(0, 16).replace('T', ' ')} UTC`;
+
+// Only the branch on screen is exported; greetings and notices are part of the UI, not of the conversation
+export const exportedMessages = (conversation: Conversation) =>
+    activeBranch(conversation.messages, conversation.activeLeafId)
+        .filter(message => !message.uiOnly && (message.text || message.attachments?.length || message.image?.images.length));
+
+// Image messages are exported as their prompt; the images themselves stay on the server
+export const imageLabel = (message: ConversationMessage) =>
+    message.image ? `🎨 ${message.image.sourceImageId ? 'Edited image' : 'Generated image'}: ${message.image.prompt}` : '';
+
+export const sourceLabel = (source: Source) => source.title || source.uri;
+
+// Subtitle line under the title
+export const exportSummary = (messageCount: number, persona?: ExportPersona) => [
+    `Exported ${formatTimestamp(new Date().toISOString())}`,
+    persona?.name && `Persona: ${persona.name}`,
+    `${messageCount} messages`,
+].filter(Boolean).join(' · ');
@@ -0,0 +1,97 @@
+import type { ApiErrorDetail } from './apiErrors';
+import type { ContextSummary, ConversationMessage } from './conversations/types';
+import type { ConversationBackground } from './backgroundApi';
+
+/**
+ * Contract of the conversation export/import endpoints.
+ *
+ * `GET /api/conversations/<id>/export?format=markdown|json|html` (default `markdown`) downloads the conversation
+ * as a file (`Content-Disposition: attachment`):
+ *   - markdown: readable transcript; each reply is followed by its numbered sources, cited inline as [n]
+ *   - json:     a `ConversationExport`, lossless (every branch of the message tree with sources, citations and
+ *               attachment references, persona, background, timestamps)
+ *   - html:     a single self-contained page (inline styles, no scripts), for sharing or archiving
+ * Markdown and HTML contain the branch on screen (`activeLeafId`), without greetings and other UI-only messages.
+ *
+ * `POST /api/conversations/import` takes a `ConversationExport` as the body and creates a new conversation from
+ * it (201, the conversation as returned by `POST /api/conversations`). The original creation time and message
+ * timestamps are kept; an unknown persona falls back to the default persona, and the context summary is rebuilt
+ * by the chat route on the next reply.
+ *
+ * Both endpoints use the session cookie, so they can be scripted with `curl -b` after signing in.
+ * Failure: the shared error envelope (lib/apiErrors.ts).
+ */
+
+export const EXPORT_FORMATS = ['markdown', 'json', 'html'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const CONVERSATION_EXPORT_KIND = 'fish-and-barrel.conversation';
+// Bumped on incompatible changes; imports of newer versions are refused
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+export interface ConversationExport {
+    kind: typeof CONVERSATION_EXPORT_KIND;
+    version: number;
+    exportedAt: string;
+    conversation: {
+        // Id on the exporting server, for reference only; imports get a new id
+        id: string;
+        title: string;
+        createdAt: string;
+        updatedAt: string;
+        // Name as configured when exported; absent when the persona no longer exists
+        persona?: { id: string; name?: string };
+        messages: ConversationMessage[];
+        activeLeafId?: string;
+        contextSummary?: ContextSummary;
+        background?: ConversationBackground;
+    };
+}
+
+type ParseResult =
+    | { ok: true; conversation: ConversationExport['conversation'] }
+    | { ok: false; message: string; details: ApiErrorDetail[] };
+
+/**
+ * Checks the envelope of an import body. The conversation itself is validated like a create request
+ * (lib/conversations/validation.ts) by the import route.
+ */
+export function parseConversationExport(body: unknown): ParseResult {
+    const details: ApiErrorDetail[] = [];
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { ok: false, message: 'Request body must be a JSON object.', details };
+    }
+    const input = body as Record<string, unknown>;
+
+    if (input.kind !== CONVERSATION_EXPORT_KIND) {
+        details.push({ path: 'kind', message: `Must be "${CONVERSATION_EXPORT_KIND}" (a JSON conversation export).` });
+    }
+    if (typeof input.version !== 'number' || !Number.isInteger(input.version) || input.version < 1) {
+        details.push({ path: 'version', message: 'Must be a positive integer.' });
+    } else if (input.version > CONVERSATION_EXPORT_VERSION) {
+        details.push({ path: 'version', message: `Exports of version ${input.version} are not supported; this server reads up to version ${CONVERSATION_EXPORT_VERSION}.` });
+    }
+
+    const conversation = input.conversation;
+    if (!conversation || typeof conversation !== 'object' || Array.isArray(conversation)) {
+        details.push({ path: 'conversation', message: 'Must be an object.' });
+    } else {
+        const fields = conversation as Record<string, unknown>;
+        if (typeof fields.createdAt !== 'string' || Number.isNaN(Date.parse(fields.createdAt))) {
+            details.push({ path: 'conversation.createdAt', message: 'Must be an ISO timestamp.' });
+        }
+        if (!Array.isArray(fields.messages)) {
+            details.push({ path: 'conversation.messages', message: 'Must be an array.' });
+        }
+        const persona = fields.persona as Record<string, unknown> | undefined;
+        if (persona !== undefined && (!persona || typeof persona !== 'object' || typeof persona.id !== 'string' || !persona.id)) {
+            details.push({ path: 'conversation.persona.id', message: 'Must be a non-empty string.' });
+        }
+    }
+
+    if (details.length) {
+        const message = details.length === 1 ? `${details[0].path}: ${details[0].message}` : `${details.length} problems in the request body.`;
+        return { ok: false, message, details };
+    }
+    return { ok: true, conversation: conversation as ConversationExport['conversation'] };
+}
@@ -0,0 +1,52 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Helpers shared by the file-backed stores (conversations, images, attachments).
+ */
+
+// A missing file reads as null; anything else (permissions, malformed JSON) is thrown
+export async function readJson<T>(file: string): Promise<T | null> {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+    } catch (e: unknown) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw e;
+    }
+}
+
+/**
+ * Writes through a temp file + rename so a crash never leaves a half-written file behind. Every write gets
+ * its own temp file, so concurrent writes of the same file never share one; the last rename wins.
+ */
+export async function writeAtomic(file: string, contents: string | Buffer): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmpFile = `${file}.${randomUUID()}.tmp`;
+    try {
+        await fs.writeFile(tmpFile, contents);
+        await fs.rename(tmpFile, file);
+    } catch (e: unknown) {
+        await fs.unlink(tmpFile).catch(() => {});
+        throw e;
+    }
+}
+
+/**
+ * Runs the tasks queued under one key one after another, so read-modify-write cycles on the same file do not
+ * overwrite each other's changes; different keys run in parallel. Serializes within this process only.
+ */
+export function createKeyedQueue() {
+    const tails = new Map<string, Promise<unknown>>();
+
+    return function enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+        const run = (tails.get(key) || Promise.resolve()).then(task);
+        // A failed task rejects for its caller but does not stop the queue
+        const tail = run.catch(() => {});
+        tails.set(key, tail);
+        tail.then(() => {
+            if (tails.get(key) === tail) tails.delete(key);
+        });
+        return run;
+    };
+}
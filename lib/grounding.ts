@@ -0,0 +1,58 @@
+import type { ChatRequestMessage, GroundingMode } from './chatApi';
+
+/**
+ * Decides whether a chat turn is grounded with web search. Search grounding is billed per request, so "auto"
+ * only grounds questions that likely need the web: the user asks for sources or a search, the answer depends on
+ * recent events, or it is a factual question about a named person, place or thing. Creative writing, code,
+ * attached files and small talk are answered from the model's own knowledge.
+ *
+ * The rules only look at the latest user message; when they are wrong the user can switch to "always" or "off".
+ */
+
+// Asking for the web outright
+const EXPLICIT = /\b(search(es|ing)?|look(ing)? up|google|sources?|cite|citations?|references?|links?|fact[- ]check|verify)\b/i;
+
+// Answers that change over time
+const RECENT = new RegExp([
+    /\b(today|tonight|yesterday|tomorrow|this (morning|week|month|year|season)|last (night|week|month|year))\b/,
+    /\b(latest|newest|current(ly)?|recent(ly)?|right now|up[- ]to[- ]date|so far|still)\b/,
+    /\b(news|headlines?|weather|forecast|prices?|stocks?|exchange rate|scores?|standings|results|elections?|polls?)\b/,
+    /\b(released?|launch(ed)?|announced?|schedule[sd]?|opening hours|open now)\b/,
+    /\b20[2-9]\d\b/,
+].map(rule => rule.source).join('|'), 'i');
+
+// Work the model does on its own
+const SELF_CONTAINED = new RegExp([
+    /\b(write|compose|draft|poem|story|stories|haiku|limerick|song|lyrics|joke|riddle|imagine|pretend|role-?play)\b/,
+    /\b(rewrite|rephrase|paraphrase|proofread|translate|summari[sz]e|shorten|brainstorm)\b/,
+    /\b(code|function|class|regex|sql|script|bug|debug|refactor|compile|typescript|javascript|python)\b/,
+    /```/,
+].map(rule => rule.source).join('|'), 'i');
+
+const FACT_QUESTION = /^(who|what|when|where|which|how (many|much|tall|old|far|long|big|large|fast))\b/i;
+
+// A capitalized word that is not the first word of a sentence, e.g. "When did Apollo 11 land?"
+const NAMED_ENTITY = /(?<![.!?]\s|^)\b[A-Z][\p{L}\d]+/u;
+
+const SMALL_TALK_WORDS = 3;
+
+export function needsSearch(message: ChatRequestMessage): boolean {
+    const text = message.content.trim();
+    if (EXPLICIT.test(text)) return true;
+    if (message.attachmentIds?.length || SELF_CONTAINED.test(text)) return false;
+    if (text.split(/\s+/).length <= SMALL_TALK_WORDS) return false;
+    if (RECENT.test(text)) return true;
+    return FACT_QUESTION.test(text) && NAMED_ENTITY.test(text);
+}
+
+/**
+ * The request's grounding mode (the persona's setting when the client sent none) applied to the latest turn.
+ */
+export function resolveGrounding(
+    requested: GroundingMode | undefined, personaGrounding: boolean, messages: ChatRequestMessage[],
+): { mode: GroundingMode; grounded: boolean } {
+    const mode = requested || (personaGrounding ? 'always' : 'off');
+    if (mode !== 'auto') return { mode, grounded: mode === 'always' };
+    const last = messages[messages.length - 1];
+    return { mode, grounded: !!last && needsSearch(last) };
+}
@@ -0,0 +1,85 @@
+import packageJson from '../package.json';
+import { readEnvNumber } from './env';
+import type { HealthResponse, ProviderHealth, ProviderProbeResult } from './healthApi';
+import { log, redactSecrets } from './observability';
+import { ChatProvider, ImageProvider, ProviderError, getChatProvider, getImageProvider } from './providers';
+import { PROVIDER_KEY_ENV } from './providers/config';
+import { getCircuitState } from './providers/upstream';
+
+/**
+ * Diagnostics behind `GET /api/health` (contract in lib/healthApi.ts):
+ *   HEALTH_PROBE              off/false/0 disables the upstream probe (default: on)
+ *   HEALTH_PROBE_TTL_SECONDS  how long a probe result is reused (default 60)
+ *   HEALTH_PROBE_TIMEOUT_MS   per-probe timeout (default 5000)
+ *   APP_VERSION               reported version (default: package.json version)
+ */
+
+const probeCache = new Map<string, { result: ProviderProbeResult; expiresAt: number }>();
+
+export function isProbeEnabled(): boolean {
+    return !['off', 'false', '0'].includes(process.env.HEALTH_PROBE?.trim().toLowerCase() || '');
+}
+
+async function probeProvider(kind: string, provider: ChatProvider | ImageProvider): Promise<ProviderProbeResult> {
+    const cacheKey = `${kind}:${provider.id}:${provider.model}`;
+    const cached = probeCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) return { ...cached.result, cached: true };
+
+    const startedAt = Date.now();
+    let result: ProviderProbeResult;
+    try {
+        await provider.probe(AbortSignal.timeout(readEnvNumber('HEALTH_PROBE_TIMEOUT_MS', 5000)));
+        result = { reachable: true, latencyMs: Date.now() - startedAt, cached: false };
+    } catch (e: unknown) {
+        // The report is public, so it only names the kind of failure; the upstream's own message goes to the log
+        const error = e instanceof Error && e.name === 'TimeoutError' ? 'timed out'
+            : e instanceof TypeError ? 'connection failed' // fetch's network errors
+            : e instanceof ProviderError ? `HTTP ${e.status}`
+            : 'probe failed';
+        log.warn("Health Probe Failed", { kind, provider: provider.id, error: redactSecrets(e instanceof Error ? e.message : String(e)) });
+        result = { reachable: false, latencyMs: Date.now() - startedAt, error, cached: false };
+    }
+
+    probeCache.set(cacheKey, { result, expiresAt: Date.now() + readEnvNumber('HEALTH_PROBE_TTL_SECONDS', 60) * 1000 });
+    return result;
+}
+
+async function checkProvider(kind: 'chat' | 'image', provider: ChatProvider | ImageProvider, probe: boolean): Promise<ProviderHealth> {
+    const keyEnv = PROVIDER_KEY_ENV[provider.id as keyof typeof PROVIDER_KEY_ENV] ?? null;
+    const health: ProviderHealth = {
+        provider: provider.id,
+        model: provider.model,
+        keyEnv,
+        keyPresent: keyEnv ? Boolean(process.env[keyEnv]) : false,
+        state: 'ok',
+    };
+
+    if (provider.id === 'off') return { ...health, state: 'disabled' };
+    if (!provider.isConfigured()) return { ...health, state: 'key_missing' };
+    if (getCircuitState(provider.id) === 'open') return { ...health, state: 'circuit_open' };
+    if (!probe) return health;
+
+    const result = await probeProvider(kind, provider);
+    return { ...health, state: result.reachable ? 'ok' : 'unreachable', probe: result };
+}
+
+export async function getHealth(options: { probe: boolean }): Promise<HealthResponse> {
+    const probe = options.probe && isProbeEnabled();
+    const [chat, image] = await Promise.all([
+        checkProvider('chat', getChatProvider(), probe),
+        checkProvider('image', getImageProvider(), probe),
+    ]);
+
+    // A disabled image provider is a deliberate choice, not a degradation
+    const status = chat.state === 'key_missing' ? 'down'
+        : chat.state !== 'ok' || !['ok', 'disabled'].includes(image.state) ? 'degraded'
+        : 'ok';
+
+    return {
+        status,
+        version: process.env.APP_VERSION?.trim() || packageJson.version,
+        checkedAt: new Date().toISOString(),
+        chat,
+        image,
+    };
+}
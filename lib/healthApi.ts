@@ -0,0 +1,64 @@
+/**
+ * Contract for `GET /api/health` (safe to import from client components).
+ *
+ * Query: `?probe=false` skips the upstream probe (it is also skipped when HEALTH_PROBE=off on the server).
+ *
+ * Response: HealthResponse with HTTP 200 while chat works (`ok` or `degraded`) and 503 when it cannot (`down`).
+ * Credentials are only ever reported by environment variable name and presence, never by value.
+ */
+
+export type ProviderHealthState =
+    | 'ok'
+    | 'disabled'        // switched off by configuration (IMAGE_PROVIDER=off)
+    | 'key_missing'     // the provider needs a credential that is not set
+    | 'unreachable'     // the probe failed (network, wrong key, unknown model, ...)
+    | 'circuit_open';   // recent calls failed repeatedly, so the server is failing fast for now
+
+export interface ProviderProbeResult {
+    reachable: boolean;
+    latencyMs: number;
+    // Kind of failure when not reachable: "timed out", "connection failed", "HTTP <status>" or "probe failed"
+    // (the upstream's own message is only logged, the report is public)
+    error?: string;
+    // True when the result was reused from an earlier probe (see HEALTH_PROBE_TTL_SECONDS)
+    cached: boolean;
+}
+
+export interface ProviderHealth {
+    provider: string;
+    model: string;
+    // Name of the environment variable holding the credential; null when the provider needs none
+    keyEnv: string | null;
+    keyPresent: boolean;
+    state: ProviderHealthState;
+    // Absent when probing is off or the provider cannot be probed (missing key, disabled)
+    probe?: ProviderProbeResult;
+}
+
+export interface HealthResponse {
+    // `degraded`: chat works but something else does not (image provider, probe failures); `down`: chat cannot work
+    status: 'ok' | 'degraded' | 'down';
+    version: string;
+    checkedAt: string;
+    chat: ProviderHealth;
+    image: ProviderHealth;
+}
+
+/**
+ * Turns a provider's health into the notice ChatClient shows, or null when there is nothing to say.
+ * `feature` names what the provider is used for ("Chat", "Background images").
+ */
+export function describeProviderHealth(health: ProviderHealth, feature: string): string | null {
+    switch (health.state) {
+        case 'ok':
+            return null;
+        case 'disabled':
+            return `${feature} are disabled on this server.`;
+        case 'key_missing':
+            return `${feature} unavailable: the server has no API key for the "${health.provider}" provider. Set ${health.keyEnv} and restart the server.`;
+        case 'unreachable':
+            return `${feature}: the "${health.provider}" API could not be reached${health.probe?.error ? ` (${health.probe.error})` : ''}. Requests may fail until it is back.`;
+        case 'circuit_open':
+            return `${feature}: the "${health.provider}" API failed repeatedly and is paused for a moment. Try again shortly.`;
+    }
+}
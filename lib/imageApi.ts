@@ -0,0 +1,155 @@
+import {
+    IMAGE_ASPECT_RATIOS, IMAGE_MIME_TYPES,
+    ImageAspectRatio, ImageMimeType, ImageRequest,
+} from './providers/types';
+import type { ApiErrorDetail, ApiErrorResponse } from './apiErrors';
+
+/**
+ * Request/response contract of `POST /api/image`.
+ *
+ * Request body:
+ *   {
+ *     "prompt": "a lighthouse at dusk",   // required, non-empty, at most MAX_IMAGE_PROMPT_CHARS characters
+ *     "sampleCount": 1,                    // optional, 1-4 (default 1)
+ *     "aspectRatio": "16:9",               // optional, one of IMAGE_ASPECT_RATIOS (default "1:1")
+ *     "negativePrompt": "text, watermark", // optional, things to avoid
+ *     "outputMimeType": "image/png",       // optional, one of IMAGE_MIME_TYPES (default "image/png")
+ *     "sourceImageId": "<image id>"        // optional, an image from the user's gallery to edit as the prompt says
+ *   }
+ *
+ * With `sourceImageId` the image is sent to the model together with the prompt, so the prompt is an edit
+ * instruction ("make it night time"). Only image models that can edit accept it (Gemini image models, not Imagen);
+ * others answer `invalid_request`, as does an id that is not in the user's gallery.
+ *
+ * Success (200): `{ provider, model, cached, images: [{ id, url, mimeType }] }`. Images are saved in the
+ * image store and served as binary from `url` (`GET /api/image/<id>`). `mimeType` is the actual format
+ * returned (providers that cannot honor `outputMimeType` use their own). `cached` is true when an identical
+ * prompt/parameter combination was answered from the cache without calling the model.
+ *
+ * `GET /api/image` returns the signed-in user's gallery: `{ images: [{ id, url, mimeType, prompt, createdAt }] }`.
+ *
+ * Bodies over MAX_IMAGE_BODY_BYTES are refused with `payload_too_large`; unknown fields and invalid values
+ * with `invalid_request` and one `details` entry per problem.
+ *
+ * Failure: the shared error envelope (lib/apiErrors.ts) with one of the codes below.
+ */
+
+export const MAX_SAMPLE_COUNT = 4;
+export const MAX_IMAGE_PROMPT_CHARS = 2000;
+export const MAX_IMAGE_BODY_BYTES = 16 * 1024;
+
+export interface ImageGenerationRequest {
+    prompt: string;
+    sampleCount?: number;
+    aspectRatio?: ImageAspectRatio;
+    negativePrompt?: string;
+    outputMimeType?: ImageMimeType;
+    sourceImageId?: string;
+}
+
+export interface ImageRef {
+    id: string;
+    url: string;
+    mimeType: string;
+}
+
+export interface ImageGenerationResponse {
+    provider: string;
+    model: string;
+    cached: boolean;
+    images: ImageRef[];
+}
+
+export interface GalleryImage extends ImageRef {
+    prompt: string;
+    createdAt: string;
+}
+
+export interface GalleryResponse {
+    images: GalleryImage[];
+}
+
+export type ImageErrorCode =
+    | 'invalid_json'        // 400: the body is not valid JSON
+    | 'invalid_request'     // 400: the body does not match ImageGenerationRequest, see `details`
+    | 'payload_too_large'   // 413: body over MAX_IMAGE_BODY_BYTES
+    | 'blocked'             // 422: the model refused the prompt (safety filters)
+    | 'rate_limited'        // 429: per-minute limit hit, see Retry-After
+    | 'quota_exceeded'      // 429: daily or upstream quota exhausted
+    | 'upstream_malformed'  // 502: the upstream answered with something we could not read
+    | 'upstream_error'      // any other upstream failure, status forwarded
+    | 'not_configured'      // 500: provider credentials missing
+    | 'internal_error';     // 500
+
+export type ImageErrorResponse = ApiErrorResponse<ImageErrorCode>;
+
+const REQUEST_FIELDS = new Set(['prompt', 'sampleCount', 'aspectRatio', 'negativePrompt', 'outputMimeType', 'sourceImageId']);
+
+// Image ids are sha256 hashes of the image bytes
+export const IMAGE_ID = /^[0-9a-f]{64}$/;
+
+type ParseResult =
+    // The route resolves `sourceImageId` to the image itself (`sourceImage`)
+    | { ok: true; request: Omit<ImageRequest, 'signal' | 'sourceImage'>; sourceImageId?: string }
+    | { ok: false; message: string; details: ApiErrorDetail[] };
+
+/**
+ * Validates an incoming body and fills in defaults. All problems are collected so the client sees them at once.
+ */
+export function parseImageGenerationRequest(body: unknown): ParseResult {
+    const details: ApiErrorDetail[] = [];
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { ok: false, message: 'Request body must be a JSON object.', details };
+    }
+    const input = body as Record<string, unknown>;
+
+    for (const key of Object.keys(input)) {
+        if (!REQUEST_FIELDS.has(key)) details.push({ path: key, message: 'Unknown field.' });
+    }
+
+    if (typeof input.prompt !== 'string' || !input.prompt.trim()) {
+        details.push({ path: 'prompt', message: 'Missing image generation prompt.' });
+    } else if (input.prompt.length > MAX_IMAGE_PROMPT_CHARS) {
+        details.push({ path: 'prompt', message: `Longer than ${MAX_IMAGE_PROMPT_CHARS} characters.` });
+    }
+
+    const sampleCount = input.sampleCount ?? 1;
+    if (typeof sampleCount !== 'number' || !Number.isInteger(sampleCount) || sampleCount < 1 || sampleCount > MAX_SAMPLE_COUNT) {
+        details.push({ path: 'sampleCount', message: `Must be an integer between 1 and ${MAX_SAMPLE_COUNT}.` });
+    }
+
+    const aspectRatio = input.aspectRatio ?? '1:1';
+    if (!(IMAGE_ASPECT_RATIOS as readonly unknown[]).includes(aspectRatio)) {
+        details.push({ path: 'aspectRatio', message: `Must be one of ${IMAGE_ASPECT_RATIOS.join(', ')}.` });
+    }
+
+    const outputMimeType = input.outputMimeType ?? 'image/png';
+    if (!(IMAGE_MIME_TYPES as readonly unknown[]).includes(outputMimeType)) {
+        details.push({ path: 'outputMimeType', message: `Must be one of ${IMAGE_MIME_TYPES.join(', ')}.` });
+    }
+
+    if (input.negativePrompt !== undefined && (typeof input.negativePrompt !== 'string' || input.negativePrompt.length > MAX_IMAGE_PROMPT_CHARS)) {
+        details.push({ path: 'negativePrompt', message: `Must be a string of at most ${MAX_IMAGE_PROMPT_CHARS} characters.` });
+    }
+
+    if (input.sourceImageId !== undefined && (typeof input.sourceImageId !== 'string' || !IMAGE_ID.test(input.sourceImageId))) {
+        details.push({ path: 'sourceImageId', message: 'Must be the id of a generated image.' });
+    }
+
+    if (details.length) {
+        const message = details.length === 1 ? `${details[0].path}: ${details[0].message}` : `${details.length} problems in the request body.`;
+        return { ok: false, message, details };
+    }
+
+    return {
+        ok: true,
+        request: {
+            prompt: (input.prompt as string).trim(),
+            sampleCount: sampleCount as number,
+            aspectRatio: aspectRatio as ImageAspectRatio,
+            negativePrompt: (input.negativePrompt as string | undefined)?.trim() || undefined,
+            outputMimeType: outputMimeType as ImageMimeType,
+        },
+        ...(input.sourceImageId ? { sourceImageId: input.sourceImageId as string } : {}),
+    };
+}
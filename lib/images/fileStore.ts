@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createKeyedQueue, readJson, writeAtomic } from '../fileStorage';
+import { CachedGeneration, GalleryEntry, ImageStore, StoredImageMeta } from './types';
+
+// Ids and cache keys are sha256 hex digests; anything else is rejected before touching the filesystem
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+// Oldest gallery entries are dropped beyond this
+const MAX_GALLERY_ENTRIES = 200;
+
+/**
+ * Stores images under `<dataDir>/images`:
+ *   blobs/<sha256>.bin + blobs/<sha256>.json   image bytes and metadata
+ *   cache/<cacheKey>.json                       prompt/parameter hash -> image ids
+ *   gallery/<owner>.json                        per-user list of generated images
+ * Writes of one metadata or gallery file are queued, so concurrent generations do not drop each other's entries.
+ */
+export function createFileImageStore(dataDir: string): ImageStore {
+    const root = path.join(dataDir, 'images');
+    const blobFile = (id: string) => path.join(root, 'blobs', `${id}.bin`);
+    const metaFile = (id: string) => path.join(root, 'blobs', `${id}.json`);
+    const cacheFile = (key: string) => path.join(root, 'cache', `${key}.json`);
+    const galleryFile = (ownerId: string) => path.join(root, 'gallery', `${encodeURIComponent(ownerId)}.json`);
+
+    const enqueue = createKeyedQueue();
+
+    const getMeta = async (id: string): Promise<StoredImageMeta | null> =>
+        HASH_PATTERN.test(id) ? readJson<StoredImageMeta>(metaFile(id)) : null;
+
+    const listGallery = async (ownerId: string): Promise<GalleryEntry[]> =>
+        (await readJson<GalleryEntry[]>(galleryFile(ownerId))) || [];
+
+    // Images stored before owners were recorded belong to the users whose gallery lists them
+    const isOwner = async (meta: StoredImageMeta, ownerId: string) => meta.ownerIds
+        ? meta.ownerIds.includes(ownerId)
+        : (await listGallery(ownerId)).some(entry => entry.imageId === meta.id);
+
+    const addOwner = (id: string, ownerId: string) => enqueue(`meta:${id}`, async () => {
+        const meta = await getMeta(id);
+        if (!meta || meta.ownerIds?.includes(ownerId)) return;
+        await writeAtomic(metaFile(id), JSON.stringify({ ...meta, ownerIds: [...meta.ownerIds || [], ownerId] }));
+    });
+
+    return {
+        save(mimeType: string, bytes: Buffer): Promise<StoredImageMeta> {
+            const id = createHash('sha256').update(bytes).digest('hex');
+            return enqueue(`meta:${id}`, async () => {
+                const existing = await getMeta(id);
+                if (existing) return existing;
+
+                const meta: StoredImageMeta = { id, mimeType, size: bytes.length, createdAt: new Date().toISOString(), ownerIds: [] };
+                await writeAtomic(blobFile(id), bytes);
+                await writeAtomic(metaFile(id), JSON.stringify(meta));
+                return meta;
+            });
+        },
+
+        async get(ownerId: string, id: string) {
+            const meta = await getMeta(id);
+            if (!meta || !(await isOwner(meta, ownerId))) return null;
+            try {
+                return { meta, bytes: await fs.readFile(blobFile(id)) };
+            } catch (e: unknown) {
+                if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+                throw e;
+            }
+        },
+
+        getMeta,
+
+        async getCached(cacheKey: string): Promise<CachedGeneration | null> {
+            if (!HASH_PATTERN.test(cacheKey)) return null;
+            const cached = await readJson<CachedGeneration>(cacheFile(cacheKey));
+            if (!cached) return null;
+            // Ignore cache entries whose images were removed from disk
+            const metas = await Promise.all(cached.imageIds.map(getMeta));
+            return metas.every(Boolean) ? cached : null;
+        },
+
+        async setCached(cacheKey: string, generation: CachedGeneration): Promise<void> {
+            if (!HASH_PATTERN.test(cacheKey)) return;
+            await writeAtomic(cacheFile(cacheKey), JSON.stringify(generation));
+        },
+
+        listGallery,
+
+        async addToGallery(ownerId: string, entries: GalleryEntry[]): Promise<void> {
+            // Owners stay recorded on the image after its gallery entry is dropped, so old conversations keep it
+            await Promise.all(entries.map(entry => addOwner(entry.imageId, ownerId)));
+            await enqueue(`gallery:${ownerId}`, async () => {
+                const existing = await listGallery(ownerId);
+                const newIds = new Set(entries.map(entry => entry.imageId));
+                // Re-generating (or re-using) an image moves it back to the top instead of duplicating it
+                const merged = [...entries, ...existing.filter(entry => !newIds.has(entry.imageId))].slice(0, MAX_GALLERY_ENTRIES);
+                await writeAtomic(galleryFile(ownerId), JSON.stringify(merged));
+            });
+        },
+    };
+}
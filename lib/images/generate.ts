@@ -0,0 +1,73 @@
+import type { ImageGenerationResponse, ImageRef } from '../imageApi';
+import { recordImageOutcome } from '../observability';
+import type { ImageProvider, ImageRequest, ImageResponse } from '../providers/types';
+import { LimitCheck, checkAndConsume, releaseImages } from '../usage';
+import { getImageStore, imageCacheKey, imageUrl } from './index';
+
+export type GenerateImagesResult =
+    | { ok: true; response: ImageGenerationResponse }
+    | { ok: false; limit: Extract<LimitCheck, { allowed: false }> };
+
+/**
+ * The image pipeline shared by `/api/image` and `/api/background`: answers identical requests from the cache
+ * (without counting against the user's limits), otherwise reserves the requested images, calls the provider and
+ * saves the results. Either way the images are added to the user's gallery.
+ * Provider failures are thrown as ProviderError.
+ */
+export async function generateImages(
+    userId: string, provider: ImageProvider, request: Omit<ImageRequest, 'signal'>, signal?: AbortSignal,
+): Promise<GenerateImagesResult> {
+    const store = getImageStore();
+    const cacheKey = imageCacheKey(provider.id, provider.model, request);
+    const addToGallery = (images: ImageRef[]) => store.addToGallery(userId, images.map(image => ({
+        imageId: image.id,
+        mimeType: image.mimeType,
+        prompt: request.prompt,
+        createdAt: new Date().toISOString(),
+    })));
+
+    const cached = await store.getCached(cacheKey);
+    if (cached) {
+        const metas = await Promise.all(cached.imageIds.map(id => store.getMeta(id)));
+        const images = metas.map(meta => ({ id: meta!.id, url: imageUrl(meta!.id), mimeType: meta!.mimeType }));
+        await addToGallery(images);
+        recordImageOutcome(provider.id, 'cached', images.length);
+        return { ok: true, response: { provider: cached.provider, model: cached.model, cached: true, images } };
+    }
+
+    // Reserves all requested images against the quota; what the provider does not deliver is given back
+    const limitCheck = await checkAndConsume(userId, 'image', request.sampleCount);
+    if (!limitCheck.allowed) return { ok: false, limit: limitCheck };
+
+    // Retries, timeouts and the circuit breaker live in the provider's upstream client
+    let result: ImageResponse;
+    try {
+        result = await provider.generateImage({ ...request, signal });
+    } catch (e: unknown) {
+        await releaseImages(userId, request.sampleCount);
+        throw e;
+    }
+
+    // Images that cannot be stored never reach the user, so the whole reservation goes back
+    let images: ImageRef[];
+    try {
+        const saved = await Promise.all(result.images.map(image => store.save(image.mimeType, Buffer.from(image.data, 'base64'))));
+        images = saved.map(meta => ({ id: meta.id, url: imageUrl(meta.id), mimeType: meta.mimeType }));
+        await Promise.all([
+            store.setCached(cacheKey, {
+                provider: result.provider,
+                model: result.model,
+                imageIds: saved.map(meta => meta.id),
+                createdAt: new Date().toISOString(),
+            }),
+            addToGallery(images),
+        ]);
+    } catch (e: unknown) {
+        await releaseImages(userId, request.sampleCount);
+        throw e;
+    }
+
+    await releaseImages(userId, request.sampleCount - images.length);
+
+    return { ok: true, response: { provider: result.provider, model: result.model, cached: false, images } };
+}
@@ -0,0 +1,36 @@
+import { createHash } from 'crypto';
+import { getDataDir } from '../dataDir';
+import type { ImageRequest } from '../providers/types';
+import { createFileImageStore } from './fileStore';
+import { ImageStore } from './types';
+
+export * from './types';
+
+let store: ImageStore | undefined;
+
+export function getImageStore(): ImageStore {
+    if (!store) store = createFileImageStore(getDataDir());
+    return store;
+}
+
+/**
+ * Cache key for a generation: the same provider, model, prompt and parameters (including the image being
+ * edited) always map to the same key.
+ */
+export function imageCacheKey(provider: string, model: string, request: Omit<ImageRequest, 'signal'>): string {
+    const normalized = {
+        provider,
+        model,
+        prompt: request.prompt,
+        sampleCount: request.sampleCount,
+        aspectRatio: request.aspectRatio,
+        negativePrompt: request.negativePrompt || '',
+        outputMimeType: request.outputMimeType,
+        sourceImage: request.sourceImage ? createHash('sha256').update(request.sourceImage.data).digest('hex') : '',
+    };
+    return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+export function imageUrl(id: string): string {
+    return `/api/image/${id}`;
+}
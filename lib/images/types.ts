@@ -0,0 +1,43 @@
+// --- Generated image store types ---
+
+export interface StoredImageMeta {
+    // sha256 of the image bytes, so identical images are stored once
+    id: string;
+    mimeType: string;
+    size: number;
+    createdAt: string;
+    // Users who generated (or were served from the cache) this image; only they can load it. Missing on images
+    // stored before owners were recorded, which are checked against the galleries instead.
+    ownerIds?: string[];
+}
+
+export interface GalleryEntry {
+    imageId: string;
+    mimeType: string;
+    prompt: string;
+    createdAt: string;
+}
+
+export interface CachedGeneration {
+    provider: string;
+    model: string;
+    imageIds: string[];
+    createdAt: string;
+}
+
+export interface ImageStore {
+    // Stores the bytes (deduplicated by content hash) and returns their metadata
+    save(mimeType: string, bytes: Buffer): Promise<StoredImageMeta>;
+    // Returns null unless the image was added to the owner's gallery (addToGallery records the owner)
+    get(ownerId: string, id: string): Promise<{ meta: StoredImageMeta; bytes: Buffer } | null>;
+    // Not scoped to an owner: for the cache, which is shared by all users
+    getMeta(id: string): Promise<StoredImageMeta | null>;
+
+    // Prompt/parameter-hash cache of previous generations
+    getCached(cacheKey: string): Promise<CachedGeneration | null>;
+    setCached(cacheKey: string, generation: CachedGeneration): Promise<void>;
+
+    // Per-user history of generated images, newest first; adding an image also makes the user one of its owners
+    listGallery(ownerId: string): Promise<GalleryEntry[]>;
+    addToGallery(ownerId: string, entries: GalleryEntry[]): Promise<void>;
+}
@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Per-request state for the request log line, collected while a route runs (see route.ts). Code deeper down
+ * (the upstream client, providers) adds to it through `currentRequest()` without the request being passed along.
+ */
+export interface RequestContext {
+    requestId: string;
+    method: string;
+    // Route pattern, e.g. `/api/conversations/[id]`, so IDs do not end up in metric labels
+    route: string;
+    startedAt: number;
+    upstream: {
+        attempts: number;
+        retries: number;
+        // Status of the last upstream attempt: an HTTP status, or `timeout` / `network` / `circuit_open`
+        lastStatus?: number | string;
+    };
+    tokens?: { prompt: number; completion: number; total: number };
+    // How the chat reply ended (ChatFinish state)
+    finish?: string;
+    // Outcome of image generation: generated, cached, blocked or failed
+    images?: { outcome: string; count: number };
+    // Grounding mode of the chat request and whether the turn was grounded with web search
+    grounding?: { mode: string; grounded: boolean };
+    // Server-side tool calls made for the chat reply (lib/tools), by tool name
+    tools?: Record<string, number>;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const currentRequest = (): RequestContext | undefined => storage.getStore();
+
+export function runWithRequest<T>(context: RequestContext, fn: () => T): T {
+    return storage.run(context, fn);
+}
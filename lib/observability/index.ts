@@ -0,0 +1,10 @@
+export { currentRequest } from './context';
+export type { RequestContext } from './context';
+export { log } from './log';
+export {
+    METRICS_CONTENT_TYPE, recordChatFinish, recordGrounding, recordHttpRequest, recordImageOutcome, recordTokenUsage, recordToolCall,
+    recordUpstreamAttempt, recordUpstreamRetry, renderMetrics,
+} from './metrics';
+export { redactSecrets } from './redact';
+export { REQUEST_ID_HEADER, resolveRequestId } from './requestId';
+export { withRequestLogging } from './route';
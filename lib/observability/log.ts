@@ -0,0 +1,50 @@
+import { currentRequest } from './context';
+import { redactSecrets } from './redact';
+
+/**
+ * Structured server logging: one JSON object per line, which Netlify's function logs (and most log
+ * collectors) can filter on. Every entry inside a request carries its `requestId` and `route`; credentials are
+ * redacted from the whole line (redact.ts).
+ *
+ *   LOG_LEVEL  debug | info | warn | error (default info)
+ *
+ *   {"time":"2026-01-01T12:00:00.000Z","level":"error","msg":"Chat API Error","requestId":"...","route":"/api/chat","error":"..."}
+ */
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function minimumLevel(): number {
+    const level = process.env.LOG_LEVEL?.trim().toLowerCase() as LogLevel | undefined;
+    return LEVELS[level && level in LEVELS ? level : 'info'];
+}
+
+// Errors do not serialize with JSON.stringify; their message is what the logs need
+const toJsonValue = (value: unknown) => value instanceof Error ? value.message : value;
+
+function write(level: LogLevel, msg: string, fields?: Record<string, unknown>) {
+    if (LEVELS[level] < minimumLevel()) return;
+    const request = currentRequest();
+    const entry: Record<string, unknown> = {
+        time: new Date().toISOString(),
+        level,
+        msg,
+        ...(request ? { requestId: request.requestId, route: request.route } : {}),
+    };
+    for (const [key, value] of Object.entries(fields || {})) {
+        if (value !== undefined) entry[key] = toJsonValue(value);
+    }
+
+    const line = redactSecrets(JSON.stringify(entry));
+    if (level === 'error') console.error(line);
+    else if (level === 'warn') console.warn(line);
+    else console.log(line);
+}
+
+export const log = {
+    debug: (msg: string, fields?: Record<string, unknown>) => write('debug', msg, fields),
+    info: (msg: string, fields?: Record<string, unknown>) => write('info', msg, fields),
+    warn: (msg: string, fields?: Record<string, unknown>) => write('warn', msg, fields),
+    error: (msg: string, fields?: Record<string, unknown>) => write('error', msg, fields),
+};
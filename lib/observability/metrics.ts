@@ -0,0 +1,203 @@
+import type { TokenUsage } from '../providers/types';
+import { currentRequest } from './context';
+
+/**
+ * In-process metrics, served in the Prometheus text format by `GET /api/metrics`. Counters and histograms live
+ * in memory per server instance (on serverless hosts: per function instance), so they reset on restart and a
+ * scrape only sees the instance that answered it.
+ *
+ * The `record*` helpers below also fill in the current request's context (context.ts) for its log line.
+ */
+
+type Labels = Record<string, string>;
+
+interface CounterSeries {
+    labels: Labels;
+    value: number;
+}
+
+interface HistogramSeries {
+    labels: Labels;
+    // Cumulative counts per bucket upper bound (the +Inf bucket is `count`)
+    buckets: number[];
+    sum: number;
+    count: number;
+}
+
+interface Metric {
+    name: string;
+    help: string;
+    type: 'counter' | 'histogram';
+    buckets?: number[];
+    series: Map<string, CounterSeries | HistogramSeries>;
+}
+
+const METRIC_PREFIX = 'fishbarrel_';
+const DURATION_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+// Shared through globalThis: Next.js may load this module once per route bundle, but a scrape must see every route
+const shared = globalThis as typeof globalThis & { __fishbarrelMetrics?: { registry: Map<string, Metric>; startedAt: number } };
+shared.__fishbarrelMetrics ??= { registry: new Map(), startedAt: Math.floor(Date.now() / 1000) };
+const { registry, startedAt: processStartSeconds } = shared.__fishbarrelMetrics;
+
+const seriesKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+function define(name: string, help: string, type: Metric['type'], buckets?: number[]): Metric {
+    const existing = registry.get(METRIC_PREFIX + name);
+    if (existing) return existing;
+    const metric: Metric = { name: METRIC_PREFIX + name, help, type, buckets, series: new Map() };
+    registry.set(metric.name, metric);
+    return metric;
+}
+
+function counter(name: string, help: string) {
+    const metric = define(name, help, 'counter');
+    return {
+        inc(labels: Labels, amount = 1) {
+            const key = seriesKey(labels);
+            const series = (metric.series.get(key) as CounterSeries | undefined) || { labels, value: 0 };
+            series.value += amount;
+            metric.series.set(key, series);
+        },
+    };
+}
+
+function histogram(name: string, help: string, buckets = DURATION_BUCKETS_SECONDS) {
+    const metric = define(name, help, 'histogram', buckets);
+    return {
+        observe(labels: Labels, value: number) {
+            const key = seriesKey(labels);
+            const series = (metric.series.get(key) as HistogramSeries | undefined)
+                || { labels, buckets: buckets.map(() => 0), sum: 0, count: 0 };
+            buckets.forEach((bound, index) => {
+                if (value <= bound) series.buckets[index]++;
+            });
+            series.sum += value;
+            series.count++;
+            metric.series.set(key, series);
+        },
+    };
+}
+
+// --- Metric definitions ---
+
+const httpRequests = counter('http_requests_total', 'API requests by route, method and response status.');
+const httpDuration = histogram('http_request_duration_seconds', 'API request latency (streamed replies: until the stream ends).');
+const upstreamRequests = counter('upstream_requests_total', 'Upstream attempts by provider and status (HTTP status, timeout, network or circuit_open).');
+const upstreamDuration = histogram('upstream_request_duration_seconds', 'Upstream attempt latency until the response headers arrive.');
+const upstreamRetries = counter('upstream_retries_total', 'Retried upstream attempts by provider.');
+const modelTokens = counter('model_tokens_total', 'Model tokens reported by the provider (Gemini usageMetadata), by type.');
+const chatFinishes = counter('chat_finish_total', 'Chat replies by how they ended (complete, truncated, blocked, recitation).');
+const chatGrounding = counter('chat_grounding_total', 'Chat requests by grounding mode (always, auto, off) and whether web search was used.');
+const imageGenerations = counter('image_generations_total', 'Image requests by outcome (generated, cached, blocked, failed).');
+const imagesGenerated = counter('images_generated_total', 'Images returned by the image provider.');
+const toolCalls = counter('tool_calls_total', 'Server-side tool calls made for chat replies, by tool and outcome (ok, error).');
+const toolDuration = histogram('tool_call_duration_seconds', 'Server-side tool call latency.');
+
+// --- Recorders ---
+
+export function recordHttpRequest(route: string, method: string, status: number, durationMs: number) {
+    httpRequests.inc({ route, method, status: String(status) });
+    httpDuration.observe({ route, method }, durationMs / 1000);
+}
+
+export function recordUpstreamAttempt(upstream: string, status: number | string, durationMs: number) {
+    upstreamRequests.inc({ upstream, status: String(status) });
+    if (status !== 'circuit_open') upstreamDuration.observe({ upstream }, durationMs / 1000);
+
+    const request = currentRequest();
+    if (request) {
+        if (status !== 'circuit_open') request.upstream.attempts++;
+        request.upstream.lastStatus = status;
+    }
+}
+
+export function recordUpstreamRetry(upstream: string) {
+    upstreamRetries.inc({ upstream });
+    const request = currentRequest();
+    if (request) request.upstream.retries++;
+}
+
+export function recordTokenUsage(provider: string, model: string, usage: TokenUsage | undefined) {
+    if (!usage) return;
+    modelTokens.inc({ provider, model, type: 'prompt' }, usage.promptTokens);
+    modelTokens.inc({ provider, model, type: 'completion' }, usage.completionTokens);
+
+    // A request may call the model more than once (e.g. a context summary before the reply)
+    const request = currentRequest();
+    if (request) {
+        const tokens = request.tokens || { prompt: 0, completion: 0, total: 0 };
+        request.tokens = {
+            prompt: tokens.prompt + usage.promptTokens,
+            completion: tokens.completion + usage.completionTokens,
+            total: tokens.total + usage.totalTokens,
+        };
+    }
+}
+
+export function recordChatFinish(provider: string, model: string, state: string) {
+    chatFinishes.inc({ provider, model, state });
+    const request = currentRequest();
+    if (request) request.finish = state;
+}
+
+export function recordGrounding(mode: string, grounded: boolean) {
+    chatGrounding.inc({ mode, grounded: String(grounded) });
+    const request = currentRequest();
+    if (request) request.grounding = { mode, grounded };
+}
+
+export function recordImageOutcome(provider: string, outcome: 'generated' | 'cached' | 'blocked' | 'failed', count = 0) {
+    imageGenerations.inc({ provider, outcome });
+    if (outcome === 'generated') imagesGenerated.inc({ provider }, count);
+    const request = currentRequest();
+    if (request) request.images = { outcome, count };
+}
+
+export function recordToolCall(tool: string, outcome: 'ok' | 'error', durationMs: number) {
+    toolCalls.inc({ tool, outcome });
+    toolDuration.observe({ tool }, durationMs / 1000);
+    const request = currentRequest();
+    if (request) {
+        request.tools ??= {};
+        request.tools[tool] = (request.tools[tool] || 0) + 1;
+    }
+}
+
+// --- Prometheus text format (version 0.0.4) ---
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+    const entries = Object.entries({ ...labels, ...extra });
+    return entries.length ? `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}` : '';
+}
+
+export function renderMetrics(): string {
+    const lines = [
+        `# HELP ${METRIC_PREFIX}process_start_time_seconds Start time of this server instance (Unix seconds).`,
+        `# TYPE ${METRIC_PREFIX}process_start_time_seconds gauge`,
+        `${METRIC_PREFIX}process_start_time_seconds ${processStartSeconds}`,
+    ];
+
+    for (const metric of registry.values()) {
+        lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+        for (const series of metric.series.values()) {
+            if ('value' in series) {
+                lines.push(`${metric.name}${formatLabels(series.labels)} ${series.value}`);
+                continue;
+            }
+            metric.buckets!.forEach((bound, index) => {
+                lines.push(`${metric.name}_bucket${formatLabels(series.labels, { le: String(bound) })} ${series.buckets[index]}`);
+            });
+            lines.push(
+                `${metric.name}_bucket${formatLabels(series.labels, { le: '+Inf' })} ${series.count}`,
+                `${metric.name}_sum${formatLabels(series.labels)} ${series.sum}`,
+                `${metric.name}_count${formatLabels(series.labels)} ${series.count}`,
+            );
+        }
+    }
+    return lines.join('\n') + '\n';
+}
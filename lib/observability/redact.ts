@@ -0,0 +1,28 @@
+/**
+ * Removes credentials from text that leaves the server: log lines, error envelopes and SSE error events.
+ * Upstream errors and exceptions may quote a request URL or header, so the configured secrets are replaced
+ * wherever they occur, along with anything that looks like an API key in a query string or bearer header.
+ */
+
+const SECRET_ENV_VARS = ['GEMINI_API_KEY', 'OPENAI_API_KEY', 'AUTH_SECRET', 'METRICS_TOKEN'];
+
+// Shorter values would match ordinary words
+const MIN_SECRET_LENGTH = 8;
+
+const REDACTED = '[redacted]';
+
+const KEY_PATTERNS: [RegExp, string][] = [
+    [/([?&](?:key|api_key|access_token)=)[^&\s"'#]+/gi, `$1${REDACTED}`],
+    [/((?:x-goog-api-key|authorization)["']?\s*[:=]\s*["']?(?:bearer\s+)?)[^\s"',;]+/gi, `$1${REDACTED}`],
+    [/\bAIza[0-9A-Za-z_-]{35}\b/g, REDACTED],
+];
+
+export function redactSecrets(text: string): string {
+    let redacted = text;
+    for (const name of SECRET_ENV_VARS) {
+        const secret = process.env[name]?.trim();
+        if (secret && secret.length >= MIN_SECRET_LENGTH) redacted = redacted.split(secret).join(REDACTED);
+    }
+    for (const [pattern, replacement] of KEY_PATTERNS) redacted = redacted.replace(pattern, replacement);
+    return redacted;
+}
@@ -0,0 +1,23 @@
+/**
+ * Request IDs. `middleware.ts` assigns one to every API request (reusing a well-formed ID set by a proxy, e.g.
+ * Netlify's `x-nf-request-id`), forwards it to the route in the `x-request-id` request header and returns it in
+ * the `X-Request-Id` response header, where ChatClient picks it up for its error messages.
+ *
+ * Kept free of Node-only imports: the middleware runs on the edge runtime.
+ */
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Headers a proxy in front of the app may already have set, in order of preference
+const INCOMING_HEADERS = [REQUEST_ID_HEADER, 'x-nf-request-id'];
+
+// Anything else (too long, odd characters) could be used to inject into logs and is replaced
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{8,128}$/;
+
+export function resolveRequestId(headers: Headers): string {
+    for (const name of INCOMING_HEADERS) {
+        const value = headers.get(name)?.trim();
+        if (value && VALID_REQUEST_ID.test(value)) return value;
+    }
+    return crypto.randomUUID();
+}
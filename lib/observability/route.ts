@@ -0,0 +1,92 @@
+import type { NextRequest } from 'next/server';
+import { apiError } from '../apiResponse';
+import { RequestContext, runWithRequest } from './context';
+import { log } from './log';
+import { recordHttpRequest } from './metrics';
+import { REQUEST_ID_HEADER, resolveRequestId } from './requestId';
+
+type RouteHandler<Context> = (request: NextRequest, context: Context) => Promise<Response>;
+
+/**
+ * Keeps the request context active while the client reads a streamed body (the provider is read lazily from
+ * `pull`), and reports the end of the stream, which is when a streamed request is really finished.
+ */
+function observeStream(body: ReadableStream<Uint8Array>, context: RequestContext, onEnd: () => void): ReadableStream<Uint8Array> {
+    const reader = body.getReader();
+    return new ReadableStream<Uint8Array>({
+        pull: controller => runWithRequest(context, async () => {
+            try {
+                const { done, value } = await reader.read();
+                if (done) {
+                    controller.close();
+                    onEnd();
+                } else {
+                    controller.enqueue(value);
+                }
+            } catch (e: unknown) {
+                controller.error(e);
+                onEnd();
+            }
+        }),
+        cancel: reason => {
+            onEnd();
+            return runWithRequest(context, () => reader.cancel(reason));
+        },
+    });
+}
+
+/**
+ * Wraps an API route handler with the request ID, one structured log line per request and the HTTP metrics.
+ * `route` is the route pattern (e.g. `/api/conversations/[id]`) used as the metric label. Errors that escape
+ * the handler are logged and answered with `internal_error`.
+ */
+export function withRequestLogging<Context>(route: string, handler: RouteHandler<Context>): RouteHandler<Context> {
+    return (request, routeContext) => {
+        const context: RequestContext = {
+            // Assigned by middleware.ts; resolved here too for requests that bypass it
+            requestId: request.headers.get(REQUEST_ID_HEADER) || resolveRequestId(request.headers),
+            method: request.method,
+            route,
+            startedAt: Date.now(),
+            upstream: { attempts: 0, retries: 0 },
+        };
+
+        return runWithRequest(context, async () => {
+            let response: Response;
+            try {
+                response = await handler(request, routeContext);
+            } catch (e: unknown) {
+                log.error("Unhandled Route Error", { error: e });
+                response = apiError('internal_error', "Internal server error.", 500);
+            }
+            response.headers.set('X-Request-Id', context.requestId);
+
+            let logged = false;
+            const finish = () => {
+                if (logged) return;
+                logged = true;
+                const durationMs = Date.now() - context.startedAt;
+                recordHttpRequest(route, context.method, response.status, durationMs);
+                (response.status >= 500 ? log.warn : log.info)("API Request", {
+                    method: context.method,
+                    status: response.status,
+                    durationMs,
+                    upstreamAttempts: context.upstream.attempts || undefined,
+                    upstreamRetries: context.upstream.retries || undefined,
+                    upstreamStatus: context.upstream.lastStatus,
+                    tokens: context.tokens,
+                    finish: context.finish,
+                    grounding: context.grounding,
+                    images: context.images,
+                    tools: context.tools,
+                });
+            };
+
+            if (response.body && response.headers.get('Content-Type')?.startsWith('text/event-stream')) {
+                return new Response(observeStream(response.body, context, finish), response);
+            }
+            finish();
+            return response;
+        });
+    };
+}
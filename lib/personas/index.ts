@@ -0,0 +1,91 @@
+import { promises as fs } from 'fs';
+import bundledPersonas from '../../config/personas.json';
+import type { GenerationConfig } from '../providers/types';
+import { Persona, PersonaListResponse } from './types';
+import { log } from '../observability';
+
+export * from './types';
+
+/**
+ * Persona registry. Personas come from `config/personas.json` (bundled with the app) unless PERSONAS_FILE
+ * points at another file with the same shape:
+ *
+ *   {
+ *     "defaultPersonaId": "assistant",
+ *     "personas": [{ "id", "name", "description", "systemInstruction", "greeting", "grounding", "generationConfig"? }]
+ *   }
+ *
+ * The file is read on every call, so edits apply without a restart.
+ */
+
+interface PersonasFile {
+    defaultPersonaId?: string;
+    personas?: unknown[];
+}
+
+const GENERATION_KEYS: (keyof GenerationConfig)[] = ['temperature', 'topP', 'topK', 'maxOutputTokens'];
+
+function toPersona(entry: unknown): Persona | null {
+    if (!entry || typeof entry !== 'object') return null;
+    const input = entry as Record<string, unknown>;
+    const strings = ['id', 'name', 'systemInstruction', 'greeting'] as const;
+    if (!strings.every(key => typeof input[key] === 'string' && input[key])) return null;
+
+    const config = (input.generationConfig && typeof input.generationConfig === 'object' ? input.generationConfig : {}) as Record<string, unknown>;
+    const generationConfig: GenerationConfig = {};
+    for (const key of GENERATION_KEYS) {
+        if (typeof config[key] === 'number') generationConfig[key] = config[key] as number;
+    }
+
+    return {
+        id: input.id as string,
+        name: input.name as string,
+        description: typeof input.description === 'string' ? input.description : '',
+        systemInstruction: input.systemInstruction as string,
+        greeting: input.greeting as string,
+        grounding: input.grounding === true,
+        ...(Object.keys(generationConfig).length ? { generationConfig } : {}),
+    };
+}
+
+async function loadPersonasFile(): Promise<PersonasFile> {
+    const file = process.env.PERSONAS_FILE;
+    if (!file) return bundledPersonas;
+    return JSON.parse(await fs.readFile(file, 'utf8')) as PersonasFile;
+}
+
+async function loadRegistry(): Promise<{ defaultPersonaId: string; personas: Persona[] }> {
+    const file = await loadPersonasFile();
+    const personas: Persona[] = [];
+    for (const entry of file.personas || []) {
+        const persona = toPersona(entry);
+        if (!persona) {
+            log.error("Persona Config Error", { message: `Skipping invalid persona entry ${JSON.stringify(entry).slice(0, 80)}` });
+        } else if (!personas.some(existing => existing.id === persona.id)) {
+            personas.push(persona);
+        }
+    }
+    if (!personas.length) throw new Error('No valid personas configured.');
+
+    const defaultPersonaId = personas.some(persona => persona.id === file.defaultPersonaId) ? file.defaultPersonaId! : personas[0].id;
+    return { defaultPersonaId, personas };
+}
+
+export async function listPersonas(): Promise<PersonaListResponse> {
+    const { defaultPersonaId, personas } = await loadRegistry();
+    return {
+        defaultPersonaId,
+        // System instructions stay on the server
+        personas: personas.map(({ id, name, description, greeting, grounding, generationConfig }) => ({
+            id, name, description, greeting, grounding, ...(generationConfig ? { generationConfig } : {}),
+        })),
+    };
+}
+
+/**
+ * Returns the persona with the given id (the default persona when no id is given), or null if it is unknown.
+ */
+export async function getPersona(id?: string): Promise<Persona | null> {
+    const { defaultPersonaId, personas } = await loadRegistry();
+    return personas.find(persona => persona.id === (id || defaultPersonaId)) || null;
+}
@@ -0,0 +1,24 @@
+import type { GenerationConfig } from '../providers/types';
+
+// --- Persona (system-instruction profile) types ---
+
+export interface Persona {
+    id: string;
+    name: string;
+    description: string;
+    // Server-side only: never sent to the browser
+    systemInstruction: string;
+    // Shown as the first (UI-only) message of a conversation; `{name}` is replaced with the user's name
+    greeting: string;
+    // Ground answers with web search (Gemini only)
+    grounding: boolean;
+    generationConfig?: GenerationConfig;
+}
+
+// What `/api/personas` exposes to ChatClient
+export type PersonaSummary = Omit<Persona, 'systemInstruction'>;
+
+export interface PersonaListResponse {
+    defaultPersonaId: string;
+    personas: PersonaSummary[];
+}
@@ -0,0 +1,131 @@
+import { log } from '../observability';
+
+/**
+ * Provider/model selection, read from environment variables:
+ *
+ *   CHAT_PROVIDER   gemini | openai | ollama | mock   (default: gemini)
+ *   CHAT_MODEL      model id for the chat provider    (default: provider-specific)
+ *   IMAGE_PROVIDER  gemini | openai | mock | off      (default: gemini; off disables background images)
+ *   IMAGE_MODEL     model id for the image provider   (default: provider-specific)
+ *   COMPARE_MODELS  comma-separated provider:model pairs offered in compare mode next to the chat model, e.g.
+ *                   "gemini:gemini-2.5-pro,openai:gpt-4o" (a bare provider id means its default model)
+ *
+ * Provider credentials/endpoints: GEMINI_API_KEY, GEMINI_BASE_URL, OPENAI_API_KEY, OPENAI_BASE_URL, OLLAMA_BASE_URL.
+ * The base URLs also allow pointing a provider at a proxy or a local fake (see fixtures.ts for record/replay).
+ *
+ *   GEMINI_SAFETY_SETTINGS  comma-separated CATEGORY=THRESHOLD pairs sent as Gemini `safetySettings`, e.g.
+ *                           "HARASSMENT=BLOCK_ONLY_HIGH,DANGEROUS_CONTENT=BLOCK_MEDIUM_AND_ABOVE"
+ *                           (categories with or without the HARM_CATEGORY_ prefix; unset: Gemini's defaults)
+ */
+
+export type ChatProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+export type ImageProviderId = 'gemini' | 'openai' | 'mock' | 'off';
+
+export const CHAT_PROVIDER_IDS: ChatProviderId[] = ['gemini', 'openai', 'ollama', 'mock'];
+export const IMAGE_PROVIDER_IDS: ImageProviderId[] = ['gemini', 'openai', 'mock', 'off'];
+
+export const DEFAULT_CHAT_MODELS: Record<ChatProviderId, string> = {
+    gemini: 'gemini-2.5-flash-preview-09-2025',
+    openai: 'gpt-4o-mini',
+    ollama: 'llama3.2',
+    mock: 'mock-chat',
+};
+
+export const DEFAULT_IMAGE_MODELS: Record<ImageProviderId, string> = {
+    gemini: 'gemini-2.5-flash-image-preview',
+    openai: 'gpt-image-1',
+    mock: 'mock-image',
+    off: '',
+};
+
+// Environment variable holding each provider's credential (null: none needed). Reported by /api/health by name only.
+export const PROVIDER_KEY_ENV: Record<ChatProviderId | ImageProviderId, string | null> = {
+    gemini: 'GEMINI_API_KEY',
+    openai: 'OPENAI_API_KEY',
+    ollama: null,
+    mock: null,
+    off: null,
+};
+
+export const GEMINI_DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+export function getGeminiBaseUrl(): string {
+    return (process.env.GEMINI_BASE_URL?.trim() || GEMINI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+}
+
+function readProviderId<T extends string>(envName: string, allowed: T[], fallback: T): T {
+    const value = process.env[envName]?.trim().toLowerCase();
+    if (!value) return fallback;
+    if ((allowed as string[]).includes(value)) return value as T;
+    log.warn("Provider Config Warning", { message: `Unknown ${envName} "${value}", falling back to "${fallback}".` });
+    return fallback;
+}
+
+export function getChatProviderConfig(): { provider: ChatProviderId; model: string } {
+    const provider = readProviderId('CHAT_PROVIDER', CHAT_PROVIDER_IDS, 'gemini');
+    return { provider, model: process.env.CHAT_MODEL?.trim() || DEFAULT_CHAT_MODELS[provider] };
+}
+
+export interface ChatModelOption {
+    provider: ChatProviderId;
+    model: string;
+}
+
+// How compare mode and the chat request name a model
+export const chatModelId = (option: ChatModelOption) => `${option.provider}:${option.model}`;
+
+/**
+ * The models compare mode can send a conversation to: the configured chat model first, then COMPARE_MODELS.
+ * Entries with unknown providers are skipped with a warning; duplicates are listed once.
+ */
+export function getCompareModels(): ChatModelOption[] {
+    const options: ChatModelOption[] = [getChatProviderConfig()];
+    for (const entry of (process.env.COMPARE_MODELS || '').split(',').map(part => part.trim()).filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        const provider = (separator === -1 ? entry : entry.slice(0, separator)).trim().toLowerCase() as ChatProviderId;
+        if (!CHAT_PROVIDER_IDS.includes(provider)) {
+            log.warn("Provider Config Warning", { message: `Ignoring COMPARE_MODELS entry "${entry}" (unknown provider).` });
+            continue;
+        }
+        const model = (separator === -1 ? '' : entry.slice(separator + 1).trim()) || DEFAULT_CHAT_MODELS[provider];
+        if (!options.some(option => chatModelId(option) === `${provider}:${model}`)) options.push({ provider, model });
+    }
+    return options;
+}
+
+export function getImageProviderConfig(): { provider: ImageProviderId; model: string } {
+    const provider = readProviderId('IMAGE_PROVIDER', IMAGE_PROVIDER_IDS, 'gemini');
+    return { provider, model: process.env.IMAGE_MODEL?.trim() || DEFAULT_IMAGE_MODELS[provider] };
+}
+
+export const GEMINI_HARM_CATEGORIES = ['HARASSMENT', 'HATE_SPEECH', 'SEXUALLY_EXPLICIT', 'DANGEROUS_CONTENT', 'CIVIC_INTEGRITY'];
+export const GEMINI_BLOCK_THRESHOLDS = ['BLOCK_NONE', 'BLOCK_ONLY_HIGH', 'BLOCK_MEDIUM_AND_ABOVE', 'BLOCK_LOW_AND_ABOVE', 'OFF'];
+
+export interface GeminiSafetySetting {
+    category: string;
+    threshold: string;
+}
+
+/**
+ * Parses GEMINI_SAFETY_SETTINGS. Unknown categories or thresholds are skipped with a warning, like unknown provider ids.
+ */
+export function getGeminiSafetySettings(): GeminiSafetySetting[] {
+    const value = process.env.GEMINI_SAFETY_SETTINGS?.trim();
+    if (!value) return [];
+
+    const settings: GeminiSafetySetting[] = [];
+    for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+        const [rawCategory, rawThreshold] = entry.split('=').map(part => part?.trim().toUpperCase());
+        const category = rawCategory?.replace(/^HARM_CATEGORY_/, '');
+        if (!category || !GEMINI_HARM_CATEGORIES.includes(category) || !rawThreshold || !GEMINI_BLOCK_THRESHOLDS.includes(rawThreshold)) {
+            log.warn("Provider Config Warning", {
+                message: `Ignoring GEMINI_SAFETY_SETTINGS entry "${entry}" (expected CATEGORY=THRESHOLD with one of ${GEMINI_HARM_CATEGORIES.join(', ')} and ${GEMINI_BLOCK_THRESHOLDS.join(', ')}).`,
+            });
+            continue;
+        }
+        settings.push({ category: `HARM_CATEGORY_${category}`, threshold: rawThreshold });
+    }
+    return settings;
+}
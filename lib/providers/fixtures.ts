@@ -0,0 +1,233 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { writeAtomic } from '../fileStorage';
+import { log } from '../observability';
+
+/**
+ * Record/replay of upstream HTTP exchanges, so the chat and image routes can be worked on without a key or a
+ * network connection. Every provider request goes through `upstreamFetch`:
+ *
+ *   UPSTREAM_MODE          live (default) | record | replay
+ *   UPSTREAM_FIXTURES_DIR  fixture directory (default ./fixtures/upstream)
+ *
+ *   record  requests go out as usual; each exchange is also saved as `recorded/<hash>.json` in the fixture
+ *           directory (URL query keys and request headers, i.e. the credentials, are never saved)
+ *   replay  nothing leaves the server and providers count as configured without a key. A request is answered by
+ *           the recording of the identical request if there is one, otherwise by the first hand-written fixture
+ *           (`*.json` in the directory, by file name) whose `match` fits. Unmatched requests fail with an error
+ *           naming the request, never with a live call.
+ *
+ * Hand-written fixtures script the awkward cases: a fixture's `responses` are served in turn (starting over after
+ * the last), so `[429, 200]` makes every matching request succeed on its first retry.
+ */
+
+export type UpstreamMode = 'live' | 'record' | 'replay';
+
+export interface FixtureMatch {
+    // HTTP method; any when absent
+    method?: string;
+    // Regular expression tested against the URL path, e.g. ":(stream)?[gG]enerateContent$"
+    path?: string;
+    // Every string must occur in the request body (e.g. a trigger word in the user's message)
+    bodyIncludes?: string | string[];
+    // Set on recordings: identifies the exact request (see requestHash)
+    requestHash?: string;
+}
+
+export interface FixtureResponse {
+    status?: number;
+    headers?: Record<string, string>;
+    // JSON body; requests for a stream (`alt=sse` or `"stream":true`) get it as a single SSE event
+    body?: unknown;
+    // Raw body served as it is, e.g. malformed JSON
+    bodyText?: string;
+    // SSE events (JSON) served to stream requests instead of `body`
+    events?: unknown[];
+    // Waits before answering, e.g. to try UPSTREAM_TIMEOUT_MS
+    delayMs?: number;
+}
+
+export interface UpstreamFixture {
+    name?: string;
+    match: FixtureMatch;
+    responses: FixtureResponse[];
+    // Present on recordings, for people reading the file
+    recorded?: { method: string; path: string; at: string };
+}
+
+const RECORDED_DIR = 'recorded';
+// Response headers worth keeping; everything else is connection detail
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+export function getUpstreamMode(): UpstreamMode {
+    const value = process.env.UPSTREAM_MODE?.trim().toLowerCase();
+    return value === 'record' || value === 'replay' ? value : 'live';
+}
+
+export function getFixturesDir(): string {
+    return process.env.UPSTREAM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'upstream');
+}
+
+// The URL without credentials: `key=` query parameters are dropped and the host is left out, so recordings
+// replay regardless of the configured base URL
+function requestPath(url: URL): string {
+    const query = new URLSearchParams(url.searchParams);
+    query.delete('key');
+    const search = query.toString();
+    return `${url.pathname}${search ? `?${search}` : ''}`;
+}
+
+function requestHash(method: string, url: URL, body: string): string {
+    return createHash('sha256').update(`${method} ${requestPath(url)}\n${body}`).digest('hex');
+}
+
+const isStreamRequest = (url: URL, body: string) => url.searchParams.get('alt') === 'sse' || /"stream"\s*:\s*true/.test(body);
+
+// --- Replay ---
+
+// Position in each fixture's `responses`, per server instance
+const turns = new Map<string, number>();
+
+async function readFixtures(dir: string): Promise<{ file: string; fixture: UpstreamFixture }[]> {
+    const names = await fs.readdir(dir).catch(() => [] as string[]);
+    const files = names.filter(name => name.endsWith('.json')).sort();
+    return Promise.all(files.map(async name => {
+        const file = path.join(dir, name);
+        return { file, fixture: JSON.parse(await fs.readFile(file, 'utf8')) as UpstreamFixture };
+    }));
+}
+
+function matches(match: FixtureMatch, method: string, url: URL, body: string): boolean {
+    if (match.method && match.method.toUpperCase() !== method) return false;
+    if (match.path && !new RegExp(match.path).test(url.pathname)) return false;
+    const includes = typeof match.bodyIncludes === 'string' ? [match.bodyIncludes] : match.bodyIncludes || [];
+    return includes.every(text => body.includes(text));
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        }, { once: true });
+    });
+}
+
+function toResponse(scripted: FixtureResponse, stream: boolean): Response {
+    const status = scripted.status ?? 200;
+    const headers = new Headers(scripted.headers);
+    let body: string;
+
+    if (scripted.bodyText !== undefined) {
+        body = scripted.bodyText;
+    } else if (stream && status < 400 && (scripted.events || scripted.body !== undefined)) {
+        body = (scripted.events || [scripted.body]).map(event => `data: ${JSON.stringify(event)}\r\n\r\n`).join('');
+        headers.set('content-type', 'text/event-stream');
+    } else {
+        body = JSON.stringify(scripted.body ?? {});
+    }
+    if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+    return new Response(body, { status, headers });
+}
+
+async function replay(method: string, url: URL, body: string, signal?: AbortSignal | null): Promise<Response> {
+    const dir = getFixturesDir();
+    const hash = requestHash(method, url, body);
+    const fixtures = [...await readFixtures(path.join(dir, RECORDED_DIR)), ...await readFixtures(dir)];
+    const found = fixtures.find(({ fixture }) => fixture.match.requestHash === hash)
+        || fixtures.find(({ fixture }) => !fixture.match.requestHash && matches(fixture.match, method, url, body));
+
+    if (!found || !found.fixture.responses?.length) {
+        // A plain Error: retrying cannot help, and the route reports it as an internal error
+        throw new Error(`No upstream fixture matches ${method} ${requestPath(url)} (request ${hash.slice(0, 12)}) in ${dir}. Record one with UPSTREAM_MODE=record or add a fixture.`);
+    }
+
+    const { file, fixture } = found;
+    const turn = turns.get(file) ?? 0;
+    turns.set(file, turn + 1);
+    const scripted = fixture.responses[turn % fixture.responses.length];
+
+    log.debug("Upstream Replay", { fixture: fixture.name || path.basename(file), path: requestPath(url), status: scripted.status ?? 200 });
+    if (scripted.delayMs) await sleep(scripted.delayMs, signal);
+    return toResponse(scripted, isStreamRequest(url, body));
+}
+
+// --- Record ---
+
+function parseRecordedBody(text: string, contentType: string): FixtureResponse {
+    if (contentType.includes('text/event-stream')) {
+        const events = text.split(/\r?\n\r?\n/)
+            .map(frame => frame.split(/\r?\n/).filter(line => line.startsWith('data:')).map(line => line.slice(5).trimStart()).join('\n'))
+            .filter(data => data && data !== '[DONE]');
+        try {
+            return { events: events.map(data => JSON.parse(data)) };
+        } catch {
+            return { bodyText: text };
+        }
+    }
+    try {
+        return { body: JSON.parse(text) };
+    } catch {
+        return { bodyText: text };
+    }
+}
+
+async function saveRecording(method: string, url: URL, body: string, response: Response, text: string): Promise<void> {
+    const hash = requestHash(method, url, body);
+    const headers = Object.fromEntries(RECORDED_HEADERS.flatMap(name => {
+        const value = response.headers.get(name);
+        return value ? [[name, value]] : [];
+    }));
+    const fixture: UpstreamFixture = {
+        match: { requestHash: hash },
+        responses: [{ status: response.status, headers, ...parseRecordedBody(text, headers['content-type'] || '') }],
+        recorded: { method, path: requestPath(url), at: new Date().toISOString() },
+    };
+
+    await writeAtomic(path.join(getFixturesDir(), RECORDED_DIR, `${hash.slice(0, 16)}.json`), JSON.stringify(fixture, null, 2));
+    log.info("Upstream Recorded", { path: requestPath(url), status: response.status, fixture: `${hash.slice(0, 16)}.json` });
+}
+
+// Recordings of streamed replies that are still being read or written
+const pendingRecordings = new Set<Promise<void>>();
+
+/**
+ * Resolves once every streamed recording started so far is on disk (or has failed and been logged).
+ */
+export async function flushRecordings(): Promise<void> {
+    await Promise.all(pendingRecordings);
+}
+
+/**
+ * `fetch` for provider requests, honoring UPSTREAM_MODE. Bodies must be strings (all providers send JSON).
+ */
+export async function upstreamFetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const mode = getUpstreamMode();
+    if (mode === 'live') return fetch(input, init);
+
+    const url = new URL(input);
+    const method = (init.method || 'GET').toUpperCase();
+    const body = typeof init.body === 'string' ? init.body : '';
+    if (mode === 'replay') return replay(method, url, body, init.signal);
+
+    const response = await fetch(input, init);
+    const logFailure = (e: unknown) => log.error("Upstream Record Error", { path: requestPath(url), error: e instanceof Error ? e.message : String(e) });
+
+    if (!isStreamRequest(url, body)) {
+        // Plain replies are saved before the caller sees them, so the recording is complete when the route answers
+        const text = await response.text();
+        await saveRecording(method, url, body, response, text).catch(logFailure);
+        return new Response(text, { status: response.status, statusText: response.statusText, headers: response.headers });
+    }
+
+    // Streamed replies are passed on as they arrive; a copy read alongside the caller is saved once complete
+    const recording: Promise<void> = response.clone().text()
+        .then(text => saveRecording(method, url, body, response, text))
+        .catch(logFailure)
+        .finally(() => pendingRecordings.delete(recording));
+    pendingRecordings.add(recording);
+    return response;
+}
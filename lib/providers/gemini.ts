@@ -0,0 +1,494 @@
+import { getGeminiBaseUrl, getGeminiSafetySettings } from './config';
+import { getUpstreamMode, upstreamFetch } from './fixtures';
+import { readSseEvents } from '../sse';
+import { callUpstream, parseRetryAfter } from './upstream';
+import {
+    ChatFinish, ChatProvider, ChatRequest, ChatResponse, ChatStreamEvent, Citation,
+    GeneratedImage, ImageProvider, ImageRequest, ImageResponse, ProviderError, SearchInfo, Source, ToolCall,
+} from './types';
+
+// --- Gemini wire format (only the fields we read) ---
+
+type GeminiPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } }
+    | { functionCall: { name: string; args: Record<string, unknown> }; thoughtSignature?: string }
+    | { functionResponse: { name: string; response: Record<string, unknown> } };
+
+interface GeminiContent {
+    role: 'user' | 'model';
+    parts: GeminiPart[];
+}
+
+interface GeminiSafetyRating {
+    category: string;
+    probability?: string;
+    blocked?: boolean;
+}
+
+interface GeminiResponseBody {
+    candidates?: {
+        content?: {
+            parts?: {
+                text?: string;
+                inlineData?: {
+                    mimeType: string;
+                    data: string;
+                };
+                functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+                thoughtSignature?: string;
+            }[];
+        };
+        finishReason?: string;
+        safetyRatings?: GeminiSafetyRating[];
+        groundingMetadata?: {
+            groundingAttributions?: {
+                web?: { uri: string; title: string };
+            }[];
+            groundingChunks?: {
+                web?: { uri: string; title: string };
+            }[];
+            groundingSupports?: {
+                // Byte offsets into the UTF-8 encoded reply text
+                segment?: { startIndex?: number; endIndex?: number };
+                groundingChunkIndices?: number[];
+            }[];
+            webSearchQueries?: string[];
+            searchEntryPoint?: { renderedContent?: string };
+        };
+    }[];
+    promptFeedback?: {
+        blockReason?: string;
+        safetyRatings?: GeminiSafetyRating[];
+    };
+    usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+        totalTokenCount?: number;
+    };
+    error?: {
+        message: string;
+        // `google.rpc.RetryInfo` entries carry the suggested wait as e.g. "31s"
+        details?: { '@type'?: string; retryDelay?: string }[];
+    };
+    // Quota errors sometimes carry the message at the top level instead of under `error`
+    message?: string;
+}
+
+function getApiKey(): string | undefined {
+    return process.env.GEMINI_API_KEY;
+}
+
+// Replayed requests need no key (fixtures.ts)
+const isConfigured = () => Boolean(getApiKey()) || getUpstreamMode() === 'replay';
+
+function modelUrl(model: string, method: string, query = ''): string {
+    return `${getGeminiBaseUrl()}/models/${model}:${method}${query ? `?${query}` : ''}`;
+}
+
+// The key goes in a header rather than the URL, where proxies and error messages could capture it
+function authHeaders(): Record<string, string> {
+    const key = getApiKey();
+    return key ? { 'x-goog-api-key': key } : {};
+}
+
+function toGeminiContents(request: ChatRequest): GeminiContent[] {
+    return request.messages.map(message => {
+        const parts: GeminiPart[] = (message.attachments || []).map(({ mimeType, data }) => ({ inlineData: { mimeType, data } }));
+        // Gemini rejects empty text parts, and a message may consist of attachments or tool calls/results only
+        if (message.content || (!parts.length && !message.toolCalls?.length && !message.toolResults?.length)) {
+            parts.push({ text: message.content });
+        }
+        for (const call of message.toolCalls || []) {
+            parts.push({ functionCall: { name: call.name, args: call.args }, ...(call.signature ? { thoughtSignature: call.signature } : {}) });
+        }
+        for (const result of message.toolResults || []) {
+            parts.push({ functionResponse: { name: result.name, response: result.response } });
+        }
+        return {
+            role: message.role === 'assistant' ? 'model' : 'user',
+            parts,
+        };
+    });
+}
+
+// Spread into every generateContent payload so admins can tune the thresholds (GEMINI_SAFETY_SETTINGS)
+function safetySettings() {
+    const settings = getGeminiSafetySettings();
+    return settings.length ? { safetySettings: settings } : {};
+}
+
+// Models before Gemini 3 reject Google Search combined with function declarations in one request
+const combinesSearchWithFunctions = (model: string) => !/^gemini-[12][.-]/.test(model);
+
+function buildTools(model: string, request: ChatRequest) {
+    const withFunctions = !!request.tools?.length && (!request.grounding || combinesSearchWithFunctions(model));
+    const tools = [
+        ...(request.grounding ? [{ google_search: {} }] : []),
+        ...(withFunctions ? [{ functionDeclarations: request.tools }] : []),
+    ];
+    return {
+        ...(tools.length ? { tools } : {}),
+        ...(withFunctions && request.toolChoice === 'none' ? { toolConfig: { functionCallingConfig: { mode: 'NONE' } } } : {}),
+    };
+}
+
+function buildChatPayload(model: string, request: ChatRequest) {
+    return {
+        contents: toGeminiContents(request),
+        ...safetySettings(),
+        ...buildTools(model, request),
+        ...(request.systemInstruction ? { systemInstruction: { parts: [{ text: request.systemInstruction }] } } : {}),
+        ...(request.generationConfig ? { generationConfig: request.generationConfig } : {}),
+    };
+}
+
+type GroundingMetadata = NonNullable<NonNullable<GeminiResponseBody['candidates']>[number]['groundingMetadata']>;
+
+/**
+ * Builds the deduplicated source list and inline citations for a reply.
+ * Gemini's `groundingSupports` point at `groundingChunks` by index and at the text by UTF-8 byte offset;
+ * both are remapped here (chunk -> deduplicated source index, byte -> UTF-16 offset).
+ */
+function extractGrounding(metadata: GroundingMetadata | undefined, text: string): { sources: Source[]; citations: Citation[] } {
+    const entries = metadata?.groundingChunks?.length ? metadata.groundingChunks : metadata?.groundingAttributions || [];
+    const sources: Source[] = [];
+    const chunkToSource = new Map<number, number>();
+
+    entries.forEach((entry, chunkIndex) => {
+        const uri = entry.web?.uri;
+        if (!uri) return;
+        let sourceIndex = sources.findIndex(source => source.uri === uri);
+        if (sourceIndex === -1) {
+            sourceIndex = sources.push({ uri, title: entry.web?.title }) - 1;
+        }
+        chunkToSource.set(chunkIndex, sourceIndex);
+    });
+
+    const bytes = new TextEncoder().encode(text);
+    const decoder = new TextDecoder();
+    const citations: Citation[] = (metadata?.groundingSupports || [])
+        .map(support => {
+            const byteEnd = Math.min(support.segment?.endIndex ?? 0, bytes.length);
+            const sourceIndices = [...new Set((support.groundingChunkIndices || [])
+                .map(chunkIndex => chunkToSource.get(chunkIndex))
+                .filter((index): index is number => index !== undefined))];
+            return { endIndex: decoder.decode(bytes.subarray(0, byteEnd)).length, sourceIndices };
+        })
+        .filter(citation => citation.endIndex > 0 && citation.sourceIndices.length > 0);
+
+    return { sources, citations };
+}
+
+// Spread into the response; replies that did not search carry no `search`
+function extractSearch(metadata: GroundingMetadata | undefined): { search?: SearchInfo } {
+    const queries = metadata?.webSearchQueries?.filter(query => typeof query === 'string' && query.trim()) || [];
+    const entryPoint = metadata?.searchEntryPoint?.renderedContent;
+    if (!queries.length && !entryPoint) return {};
+    return { search: { queries, ...(entryPoint ? { entryPoint } : {}) } };
+}
+
+function extractText(body: GeminiResponseBody): string {
+    return body.candidates?.[0]?.content?.parts?.map(part => part.text || '').join('') || '';
+}
+
+// Gemini only assigns call ids in some APIs; `previous` keeps generated ids unique across stream chunks
+function extractToolCalls(body: GeminiResponseBody, previous = 0): ToolCall[] {
+    const parts = (body.candidates?.[0]?.content?.parts || []).filter(part => part.functionCall);
+    return parts.map((part, index) => ({
+        id: part.functionCall!.id || `call-${previous + index + 1}`,
+        name: part.functionCall!.name,
+        args: part.functionCall!.args || {},
+        ...(part.thoughtSignature ? { signature: part.thoughtSignature } : {}),
+    }));
+}
+
+// Finish reasons Gemini uses when safety filters stop a candidate
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// Ratings that caused the block; older models only report the probability, so HIGH counts as well
+function blockedCategories(ratings: GeminiSafetyRating[] | undefined): string[] | undefined {
+    const flagged = (ratings || []).filter(rating => rating.blocked || rating.probability === 'HIGH');
+    return flagged.length ? [...new Set(flagged.map(rating => rating.category))] : undefined;
+}
+
+/**
+ * Maps prompt feedback and the candidate's finish reason to the provider-neutral finish state.
+ * Returns undefined while a stream has not reported either yet.
+ */
+function extractFinish(body: GeminiResponseBody): ChatFinish | undefined {
+    const blockReason = body.promptFeedback?.blockReason;
+    if (blockReason) {
+        return { state: 'blocked', reason: blockReason, promptBlocked: true, categories: blockedCategories(body.promptFeedback?.safetyRatings) };
+    }
+
+    const candidate = body.candidates?.[0];
+    const reason = candidate?.finishReason;
+    if (!reason) return undefined;
+    if (BLOCKED_FINISH_REASONS.includes(reason)) {
+        return { state: 'blocked', reason, categories: blockedCategories(candidate?.safetyRatings) };
+    }
+    if (reason === 'RECITATION') return { state: 'recitation', reason };
+    if (reason === 'MAX_TOKENS') return { state: 'truncated', reason };
+    return { state: 'complete', reason };
+}
+
+function extractUsage(body: GeminiResponseBody) {
+    const usage = body.usageMetadata;
+    if (!usage) return undefined;
+    return {
+        promptTokens: usage.promptTokenCount || 0,
+        completionTokens: usage.candidatesTokenCount || 0,
+        totalTokens: usage.totalTokenCount || 0,
+    };
+}
+
+function errorMessage(body: GeminiResponseBody | undefined, status: number): string {
+    return body?.error?.message || body?.message || `Gemini HTTP error! Status: ${status}`;
+}
+
+function retryDelaySeconds(body: GeminiResponseBody | undefined): number | undefined {
+    const delay = body?.error?.details?.find(detail => detail.retryDelay)?.retryDelay;
+    return delay ? parseRetryAfter(delay.replace(/s$/, '')) : undefined;
+}
+
+/**
+ * Maps a non-OK Gemini response to a ProviderError. "Quota exceeded" bodies are reported as 429
+ * even when Gemini answers with a different status, so callers only have to check one thing.
+ */
+async function toProviderError(response: Response): Promise<ProviderError> {
+    const body = (await response.json().catch(() => undefined)) as GeminiResponseBody | undefined;
+    const message = errorMessage(body, response.status);
+    const status = message.includes('Quota exceeded') ? 429 : response.status;
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After')) ?? retryDelaySeconds(body);
+    return new ProviderError(message, status, undefined, retryAfter);
+}
+
+async function parseJson<T>(response: Response): Promise<T> {
+    try {
+        return await response.json() as T;
+    } catch (jsonError) {
+        throw new ProviderError(`Failed to parse response from Gemini: ${jsonError}`, 502, 'upstream_malformed');
+    }
+}
+
+function postJson(url: string, payload: unknown, signal: AbortSignal): Promise<Response> {
+    return upstreamFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify(payload),
+        signal,
+    });
+}
+
+/**
+ * POSTs through the shared upstream client (retries, timeout, circuit breaker) and parses the reply.
+ * Parsing happens inside the attempt, so malformed replies are retried as well.
+ */
+function postForJson<T>(url: string, payload: unknown, signal?: AbortSignal): Promise<T> {
+    return callUpstream('gemini', async attemptSignal => {
+        const response = await postJson(url, payload, attemptSignal);
+        if (!response.ok) throw await toProviderError(response);
+        return parseJson<T>(response);
+    }, signal);
+}
+
+// Fetching the model's metadata checks key, model name and reachability without spending tokens
+async function probeModel(model: string, signal?: AbortSignal): Promise<void> {
+    const response = await upstreamFetch(`${getGeminiBaseUrl()}/models/${model}`, { headers: authHeaders(), signal });
+    if (!response.ok) throw await toProviderError(response);
+}
+
+// Streams can only be retried until the response starts; failures after that end the reply
+function postForStream(url: string, payload: unknown, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    return callUpstream('gemini', async attemptSignal => {
+        const response = await postJson(url, payload, attemptSignal);
+        if (!response.ok || !response.body) throw await toProviderError(response);
+        return response.body;
+    }, signal);
+}
+
+export function createGeminiChatProvider(model: string): ChatProvider {
+    return {
+        id: 'gemini',
+        model,
+        isConfigured,
+        probe: signal => probeModel(model, signal),
+
+        async chat(request: ChatRequest): Promise<ChatResponse> {
+            const body = await postForJson<GeminiResponseBody>(modelUrl(model, 'generateContent'), buildChatPayload(model, request), request.signal);
+
+            // All text parts are combined so multi-part replies are not cut off
+            const text = extractText(body);
+            const toolCalls = extractToolCalls(body);
+            return {
+                provider: 'gemini',
+                model,
+                text,
+                ...extractGrounding(body.candidates?.[0]?.groundingMetadata, text),
+                ...extractSearch(body.candidates?.[0]?.groundingMetadata),
+                usage: extractUsage(body),
+                finishReason: body.candidates?.[0]?.finishReason,
+                finish: extractFinish(body) || { state: 'complete' },
+                ...(toolCalls.length ? { toolCalls } : {}),
+            };
+        },
+
+        async *streamChat(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+            const stream = await postForStream(modelUrl(model, 'streamGenerateContent', 'alt=sse'), buildChatPayload(model, request), request.signal);
+
+            let text = '';
+            const toolCalls: ToolCall[] = [];
+            let groundingMetadata: GroundingMetadata | undefined;
+            let usage: ChatResponse['usage'];
+            let finishReason: string | undefined;
+            let finish: ChatFinish | undefined;
+
+            for await (const frame of readSseEvents(stream)) {
+                let chunk: GeminiResponseBody;
+                try {
+                    chunk = JSON.parse(frame.data);
+                } catch {
+                    continue; // Ignore keep-alives or partial garbage
+                }
+                if (chunk.error) {
+                    yield { type: 'error', error: { message: errorMessage(chunk, 500) } };
+                    return;
+                }
+
+                const chunkText = extractText(chunk);
+                if (chunkText) {
+                    text += chunkText;
+                    yield { type: 'delta', text: chunkText };
+                }
+                toolCalls.push(...extractToolCalls(chunk, toolCalls.length));
+                // Grounding metadata, usage and finish reason arrive with the final chunk(s)
+                groundingMetadata = chunk.candidates?.[0]?.groundingMetadata || groundingMetadata;
+                usage = extractUsage(chunk) || usage;
+                finishReason = chunk.candidates?.[0]?.finishReason || finishReason;
+                finish = extractFinish(chunk) || finish;
+            }
+
+            // Support offsets refer to the complete reply, so citations are resolved once all text is in
+            const { sources, citations } = extractGrounding(groundingMetadata, text);
+            yield {
+                type: 'done',
+                response: {
+                    provider: 'gemini', model, text, sources, citations, ...extractSearch(groundingMetadata),
+                    usage, finishReason, finish: finish || { state: 'complete' },
+                    ...(toolCalls.length ? { toolCalls } : {}),
+                },
+            };
+        },
+    };
+}
+
+// Imagen models use the `:predict` endpoint and return `predictions[].bytesBase64Encoded`
+interface ImagenResponseBody {
+    predictions?: {
+        bytesBase64Encoded?: string;
+        mimeType?: string;
+        raiFilteredReason?: string;
+    }[];
+    error?: {
+        message: string;
+    };
+}
+
+function withNegativePrompt(request: ImageRequest): string {
+    return request.negativePrompt ? `${request.prompt}\n\nAvoid: ${request.negativePrompt}` : request.prompt;
+}
+
+async function generateWithImagen(model: string, request: ImageRequest): Promise<GeneratedImage[]> {
+    const payload = {
+        instances: [{ prompt: request.prompt }],
+        parameters: {
+            sampleCount: request.sampleCount,
+            aspectRatio: request.aspectRatio,
+            ...(request.negativePrompt ? { negativePrompt: request.negativePrompt } : {}),
+            outputOptions: { mimeType: request.outputMimeType },
+        },
+    };
+
+    const body = await postForJson<ImagenResponseBody>(modelUrl(model, 'predict'), payload, request.signal);
+    const predictions = body.predictions || [];
+    const images = predictions
+        .filter(prediction => prediction.bytesBase64Encoded)
+        .map(prediction => ({ mimeType: prediction.mimeType || request.outputMimeType, data: prediction.bytesBase64Encoded! }));
+
+    if (images.length === 0 && predictions.some(prediction => prediction.raiFilteredReason)) {
+        throw new ProviderError(predictions.find(prediction => prediction.raiFilteredReason)!.raiFilteredReason!, 422, 'blocked');
+    }
+    return images;
+}
+
+// Gemini image models return one image per call, so `sampleCount` is honored with parallel calls
+async function generateWithGemini(model: string, request: ImageRequest): Promise<GeneratedImage[]> {
+    const payload = {
+        contents: [{
+            parts: [
+                // Edits send the image first, then the instruction
+                ...(request.sourceImage ? [{ inlineData: { mimeType: request.sourceImage.mimeType, data: request.sourceImage.data } }] : []),
+                { text: withNegativePrompt(request) },
+            ],
+        }],
+        ...safetySettings(),
+        generationConfig: {
+            // MANDATORY: Tells Gemini to return an image modality part
+            responseModalities: ['IMAGE'],
+            imageConfig: { aspectRatio: request.aspectRatio },
+        },
+    };
+
+    const generateOne = async (): Promise<GeneratedImage[]> => {
+        const body = await postForJson<GeminiResponseBody>(modelUrl(model, 'generateContent'), payload, request.signal);
+        if (body.error || body.message) {
+            const message = errorMessage(body, 502);
+            throw new ProviderError(message, message.includes('Quota exceeded') ? 429 : 502);
+        }
+
+        const images = (body.candidates || [])
+            .flatMap(candidate => candidate.content?.parts || [])
+            .filter(part => part.inlineData?.data)
+            .map(part => ({ mimeType: part.inlineData!.mimeType, data: part.inlineData!.data }));
+
+        if (images.length === 0) {
+            const finish = extractFinish(body);
+            if (finish?.state === 'blocked' || finish?.state === 'recitation') {
+                const categories = finish.categories?.length ? `; ${finish.categories.join(', ')}` : '';
+                throw new ProviderError(`The image request was blocked by the model (${finish.reason}${categories}).`, 422, 'blocked');
+            }
+            // A refusal often comes back as a text part explaining why instead of an image
+            const refusal = extractText(body).trim();
+            if (refusal) {
+                throw new ProviderError(`The model declined to generate an image: ${refusal}`, 422, 'blocked');
+            }
+        }
+        return images;
+    };
+
+    const batches = await Promise.all(Array.from({ length: request.sampleCount }, generateOne));
+    return batches.flat();
+}
+
+export function createGeminiImageProvider(model: string): ImageProvider {
+    return {
+        id: 'gemini',
+        model,
+        // Imagen's `:predict` only generates from text
+        supportsEditing: !model.startsWith('imagen'),
+        isConfigured,
+        probe: signal => probeModel(model, signal),
+
+        async generateImage(request: ImageRequest): Promise<ImageResponse> {
+            const images = model.startsWith('imagen')
+                ? await generateWithImagen(model, request)
+                : await generateWithGemini(model, request);
+
+            if (images.length === 0) {
+                throw new ProviderError('Gemini returned no image data.', 502, 'upstream_malformed');
+            }
+            return { provider: 'gemini', model, images };
+        },
+    };
+}
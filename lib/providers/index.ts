@@ -0,0 +1,132 @@
+import {
+    ChatProviderId, ImageProviderId,
+    DEFAULT_CHAT_MODELS, DEFAULT_IMAGE_MODELS,
+    OLLAMA_DEFAULT_BASE_URL, OPENAI_DEFAULT_BASE_URL,
+    getChatProviderConfig, getImageProviderConfig,
+} from './config';
+import { createGeminiChatProvider, createGeminiImageProvider } from './gemini';
+import { createMockChatProvider, createMockImageProvider } from './mock';
+import { createOpenAiChatProvider, createOpenAiImageProvider } from './openai';
+import { recordChatFinish, recordImageOutcome, recordTokenUsage } from '../observability';
+import { ChatProvider, ChatResponse, ImageProvider, ProviderError } from './types';
+
+export * from './types';
+export { chatModelId, getCompareModels } from './config';
+export type { ChatModelOption } from './config';
+
+// --- Metrics: token usage and reply outcomes of every model call, whichever route made it ---
+
+function instrumentChatProvider(provider: ChatProvider): ChatProvider {
+    const record = (response: ChatResponse) => {
+        recordTokenUsage(response.provider, response.model, response.usage);
+        recordChatFinish(response.provider, response.model, response.finish.state);
+    };
+    return {
+        ...provider,
+        async chat(request) {
+            const response = await provider.chat(request);
+            record(response);
+            return response;
+        },
+        async *streamChat(request) {
+            for await (const event of provider.streamChat(request)) {
+                if (event.type === 'done') record(event.response);
+                yield event;
+            }
+        },
+    };
+}
+
+function instrumentImageProvider(provider: ImageProvider): ImageProvider {
+    return {
+        ...provider,
+        async generateImage(request) {
+            try {
+                const response = await provider.generateImage(request);
+                recordImageOutcome(provider.id, 'generated', response.images.length);
+                return response;
+            } catch (e: unknown) {
+                if (!request.signal?.aborted) {
+                    recordImageOutcome(provider.id, e instanceof ProviderError && e.code === 'blocked' ? 'blocked' : 'failed');
+                }
+                throw e;
+            }
+        },
+    };
+}
+
+/**
+ * Builds a chat provider. Without arguments, the provider and model come from CHAT_PROVIDER/CHAT_MODEL.
+ */
+export function getChatProvider(provider?: ChatProviderId, model?: string): ChatProvider {
+    return instrumentChatProvider(createChatProvider(provider, model));
+}
+
+function createChatProvider(provider?: ChatProviderId, model?: string): ChatProvider {
+    const config = getChatProviderConfig();
+    const id = provider ?? config.provider;
+    const modelId = model ?? (id === config.provider ? config.model : DEFAULT_CHAT_MODELS[id]);
+
+    switch (id) {
+        case 'openai':
+            return createOpenAiChatProvider({
+                id,
+                model: modelId,
+                baseUrl: process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL,
+                apiKey: process.env.OPENAI_API_KEY,
+                requiresKey: true,
+            });
+        case 'ollama':
+            return createOpenAiChatProvider({
+                id,
+                model: modelId,
+                baseUrl: process.env.OLLAMA_BASE_URL || OLLAMA_DEFAULT_BASE_URL,
+                requiresKey: false,
+            });
+        case 'mock':
+            return createMockChatProvider(modelId);
+        case 'gemini':
+        default:
+            return createGeminiChatProvider(modelId);
+    }
+}
+
+/**
+ * Builds an image provider. Without arguments, the provider and model come from IMAGE_PROVIDER/IMAGE_MODEL.
+ */
+export function getImageProvider(provider?: ImageProviderId, model?: string): ImageProvider {
+    return instrumentImageProvider(createImageProvider(provider, model));
+}
+
+function createImageProvider(provider?: ImageProviderId, model?: string): ImageProvider {
+    const config = getImageProviderConfig();
+    const id = provider ?? config.provider;
+    const modelId = model ?? (id === config.provider ? config.model : DEFAULT_IMAGE_MODELS[id]);
+
+    switch (id) {
+        case 'openai':
+            return createOpenAiImageProvider({
+                id,
+                model: modelId,
+                baseUrl: process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL,
+                apiKey: process.env.OPENAI_API_KEY,
+                requiresKey: true,
+            });
+        case 'mock':
+            return createMockImageProvider(modelId);
+        case 'off':
+            return {
+                id: 'off',
+                model: modelId,
+                supportsEditing: false,
+                isConfigured: () => false,
+                probe: async () => {},
+                generateImage: async () => {
+                    throw new ProviderError('Image generation is disabled on this server.', 503);
+                },
+            };
+        case 'gemini':
+        default:
+            return createGeminiImageProvider(modelId);
+    }
+}
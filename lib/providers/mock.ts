@@ -0,0 +1,185 @@
+import { readEnvNumber } from '../env';
+import {
+    ChatFinish, ChatProvider, ChatRequest, ChatResponse, ChatStreamEvent,
+    ImageProvider, ImageRequest, ImageResponse, ProviderError, SearchInfo, Source, ToolCall,
+} from './types';
+
+/**
+ * Deterministic offline provider for local development and tests.
+ * Replies echo the last user message; images are a gradient SVG whose colors derive from the prompt (and the
+ * edited image, for edits).
+ * Grounded turns get a mock source, a citation and a "search" for the question.
+ * "[blocked]", "[truncate]" or "[recitation]" in the last user message end the reply the way a safety block,
+ * the output token limit or a recitation stop would. "[tool:<name> <JSON arguments>]" makes the model call that
+ * tool first (e.g. `[tool:calculate {"expression": "2^10"}]`) and then reply with the result.
+ */
+
+const MOCK_SOURCES: Source[] = [
+    { uri: 'https://example.com/mock-source', title: 'Mock Source' },
+];
+
+// Small, stable string hash (FNV-1a) so the same prompt always yields the same output
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+const TOOL_TRIGGER = /\[tool:([\w-]+)\s*(\{.*\})?\]/;
+
+// The user's last question; tool results travel as user turns too
+const lastQuestion = (request: ChatRequest) =>
+    [...request.messages].reverse().find(message => message.role === 'user' && !message.toolResults?.length);
+
+function buildToolCalls(request: ChatRequest): ToolCall[] | undefined {
+    const last = request.messages[request.messages.length - 1];
+    if (!request.tools?.length || request.toolChoice === 'none' || last?.toolResults?.length) return undefined;
+
+    const match = lastQuestion(request)?.content.match(TOOL_TRIGGER);
+    if (!match || !request.tools.some(tool => tool.name === match[1])) return undefined;
+    let args: Record<string, unknown> = {};
+    try {
+        args = match[2] ? JSON.parse(match[2]) : {};
+    } catch {
+        // Like a model sending broken arguments: the tool reports what is missing
+    }
+    return [{ id: 'mock-call-1', name: match[1], args }];
+}
+
+const escapeHtml = (value: string) =>
+    value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Grounded replies "search" for the question, with a suggestions chip shaped like Gemini's
+function buildSearch(request: ChatRequest): SearchInfo {
+    const query = (lastQuestion(request)?.content || '').replace(/\s+/g, ' ').trim().slice(0, 80) || 'mock search';
+    const href = `https://example.com/search?q=${encodeURIComponent(query)}`;
+    return {
+        queries: [query],
+        entryPoint: '<style>.chip{display:inline-block;padding:4px 12px;border:1px solid #d2d2d2;border-radius:16px;'
+            + 'font:14px sans-serif;color:#1f1f1f;text-decoration:none}</style>'
+            + `<div class="carousel"><a class="chip" href="${escapeHtml(href)}">${escapeHtml(query)}</a></div>`,
+    };
+}
+
+function buildReply(request: ChatRequest): string {
+    const lastUser = lastQuestion(request);
+    const turn = request.messages.filter(message => message.role === 'user' && !message.toolResults?.length).length;
+    const results = request.messages[request.messages.length - 1]?.toolResults;
+    if (results?.length) {
+        return `Mock reply #${turn} using ${results.map(result => `${result.name}: ${JSON.stringify(result.response)}`).join('; ')}`;
+    }
+    const files = lastUser?.attachments?.map(file => `${file.name || 'file'} (${file.mimeType})`) || [];
+    return `Mock reply #${turn} to: "${lastUser?.content ?? ''}"${files.length ? ` with attachments: ${files.join(', ')}` : ''}`;
+}
+
+// Cuts the reply after half of its words, like a stop partway through
+const halfOf = (text: string) => {
+    const words = text.split(/(?<=\s)/);
+    return words.slice(0, Math.ceil(words.length / 2)).join('');
+};
+
+function buildFinish(request: ChatRequest, reply: string): { text: string; finish: ChatFinish } {
+    const lastUser = lastQuestion(request)?.content || '';
+    if (lastUser.includes('[blocked]')) {
+        return { text: '', finish: { state: 'blocked', reason: 'SAFETY', promptBlocked: true, categories: ['HARM_CATEGORY_DANGEROUS_CONTENT'] } };
+    }
+    if (lastUser.includes('[truncate]')) return { text: halfOf(reply), finish: { state: 'truncated', reason: 'MAX_TOKENS' } };
+    if (lastUser.includes('[recitation]')) return { text: halfOf(reply), finish: { state: 'recitation', reason: 'RECITATION' } };
+    return { text: reply, finish: { state: 'complete', reason: 'STOP' } };
+}
+
+function buildResponse(model: string, request: ChatRequest, text: string, finish: ChatFinish): ChatResponse {
+    const promptChars = request.messages.reduce((total, message) => total + message.content.length, 0);
+    const promptTokens = Math.ceil(promptChars / 4);
+    const completionTokens = Math.ceil(text.length / 4);
+    return {
+        provider: 'mock',
+        model,
+        text,
+        sources: request.grounding ? MOCK_SOURCES : [],
+        citations: request.grounding ? [{ endIndex: text.length, sourceIndices: [0] }] : [],
+        ...(request.grounding ? { search: buildSearch(request) } : {}),
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+        finishReason: finish.reason,
+        finish,
+    };
+}
+
+// A step that only asks for tool calls has no text to ground
+const buildToolCallResponse = (model: string, request: ChatRequest, toolCalls: ToolCall[]): ChatResponse =>
+    ({ ...buildResponse(model, { ...request, grounding: false }, '', { state: 'complete', reason: 'STOP' }), toolCalls });
+
+export function createMockChatProvider(model: string): ChatProvider {
+    return {
+        id: 'mock',
+        model,
+        isConfigured: () => true,
+        probe: async () => {},
+
+        async chat(request: ChatRequest): Promise<ChatResponse> {
+            const toolCalls = buildToolCalls(request);
+            if (toolCalls) return buildToolCallResponse(model, request, toolCalls);
+            const { text, finish } = buildFinish(request, buildReply(request));
+            return buildResponse(model, request, text, finish);
+        },
+
+        async *streamChat(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+            const toolCalls = buildToolCalls(request);
+            if (toolCalls) {
+                yield { type: 'done', response: buildToolCallResponse(model, request, toolCalls) };
+                return;
+            }
+            const { text, finish } = buildFinish(request, buildReply(request));
+            // MOCK_STREAM_DELAY_MS paces the words, e.g. to try "Stop generating" offline
+            const delay = readEnvNumber('MOCK_STREAM_DELAY_MS', 0);
+            // Emit word by word so the streaming UI can be exercised offline
+            for (const word of text.split(/(?<=\s)/)) {
+                if (delay) await new Promise(resolve => setTimeout(resolve, delay));
+                request.signal?.throwIfAborted();
+                yield { type: 'delta', text: word };
+            }
+            yield { type: 'done', response: buildResponse(model, request, text, finish) };
+        },
+    };
+}
+
+export function createMockImageProvider(model: string): ImageProvider {
+    return {
+        id: 'mock',
+        model,
+        supportsEditing: true,
+        isConfigured: () => true,
+        probe: async () => {},
+
+        async generateImage(request: ImageRequest): Promise<ImageResponse> {
+            // Lets the UI's "blocked" handling be exercised offline
+            if (request.prompt.includes('[blocked]')) {
+                throw new ProviderError('The image request was blocked by the model (SAFETY).', 422, 'blocked');
+            }
+
+            const [widthRatio, heightRatio] = request.aspectRatio.split(':').map(Number);
+            const width = 1024;
+            const height = Math.round(width * heightRatio / widthRatio);
+
+            // Edits of the same image with the same instruction give the same result, like any other prompt
+            const seed = request.sourceImage ? `${hashString(request.sourceImage.data)}:${request.prompt}` : request.prompt;
+            const images = Array.from({ length: request.sampleCount }, (_, index) => {
+                const hash = hashString(`${seed}#${index}`);
+                const fromHue = hash % 360;
+                const toHue = (fromHue + 60 + (hash >> 9) % 120) % 360;
+                const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+                    + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+                    + `<stop offset="0" stop-color="hsl(${fromHue},70%,45%)"/>`
+                    + `<stop offset="1" stop-color="hsl(${toHue},70%,25%)"/>`
+                    + `</linearGradient></defs><rect width="${width}" height="${height}" fill="url(#g)"/></svg>`;
+                // SVG regardless of outputMimeType; the response always states the real type
+                return { mimeType: 'image/svg+xml', data: Buffer.from(svg).toString('base64') };
+            });
+
+            return { provider: 'mock', model, images };
+        },
+    };
+}
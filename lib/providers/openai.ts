@@ -0,0 +1,334 @@
+import { readSseEvents } from '../sse';
+import { getUpstreamMode, upstreamFetch } from './fixtures';
+import { callUpstream, parseRetryAfter } from './upstream';
+import {
+    ChatFinish, ChatMessage, ChatProvider, ChatRequest, ChatResponse, ChatStreamEvent,
+    ImageAspectRatio, ImageProvider, ImageRequest, ImageResponse, ProviderError, TokenUsage, ToolCall,
+} from './types';
+
+/**
+ * Provider for any OpenAI-compatible `/chat/completions` endpoint. This also covers a local
+ * Ollama server, which exposes the same API under `/v1` and does not need a key.
+ */
+
+interface OpenAiOptions {
+    id: string;
+    model: string;
+    baseUrl: string;
+    apiKey?: string;
+    requiresKey: boolean;
+}
+
+interface OpenAiToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+interface OpenAiChatBody {
+    choices?: {
+        message?: { content?: string | null; tool_calls?: OpenAiToolCall[] };
+        // Streamed tool calls arrive in pieces: `index` identifies the call, `arguments` is split across chunks
+        delta?: {
+            content?: string | null;
+            tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[];
+        };
+        finish_reason?: string | null;
+    }[];
+    usage?: {
+        prompt_tokens?: number;
+        completion_tokens?: number;
+        total_tokens?: number;
+    };
+    error?: { message: string };
+}
+
+// gpt-image-1 only supports these three sizes; the closest match is used for other aspect ratios
+const IMAGE_SIZES: Record<ImageAspectRatio, string> = {
+    '1:1': '1024x1024',
+    '16:9': '1536x1024',
+    '4:3': '1536x1024',
+    '9:16': '1024x1536',
+    '3:4': '1024x1536',
+};
+
+interface OpenAiImageBody {
+    data?: { b64_json?: string }[];
+    error?: { message: string };
+}
+
+function toUsage(body: OpenAiChatBody): TokenUsage | undefined {
+    if (!body.usage) return undefined;
+    return {
+        promptTokens: body.usage.prompt_tokens || 0,
+        completionTokens: body.usage.completion_tokens || 0,
+        totalTokens: body.usage.total_tokens || 0,
+    };
+}
+
+// `length` and `content_filter` are the only non-normal endings the chat completions API reports (`tool_calls` is normal)
+function toFinish(finishReason: string | undefined): ChatFinish {
+    if (finishReason === 'length') return { state: 'truncated', reason: finishReason };
+    if (finishReason === 'content_filter') return { state: 'blocked', reason: finishReason };
+    return { state: 'complete', reason: finishReason };
+}
+
+type OpenAiContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } }
+    | { type: 'file'; file: { filename: string; file_data: string } };
+
+/**
+ * Messages with attachments use the content-part array form: images as data URLs, PDFs as file parts,
+ * and text formats (CSV, plain text, ...) decoded and inlined as text.
+ */
+function toContent(message: ChatMessage): string | OpenAiContentPart[] {
+    if (!message.attachments?.length) return message.content;
+
+    const parts: OpenAiContentPart[] = message.attachments.map(({ mimeType, data, name }) => {
+        const dataUrl = `data:${mimeType};base64,${data}`;
+        if (mimeType.startsWith('image/')) return { type: 'image_url', image_url: { url: dataUrl } };
+        if (mimeType.startsWith('text/')) {
+            return { type: 'text', text: `${name || 'Attachment'}:\n${Buffer.from(data, 'base64').toString('utf8')}` };
+        }
+        return { type: 'file', file: { filename: name || 'attachment', file_data: dataUrl } };
+    });
+    if (message.content) parts.push({ type: 'text', text: message.content });
+    return parts;
+}
+
+// OpenAI-compatible endpoints have no top-k
+function buildSampling({ generationConfig: config }: ChatRequest) {
+    if (!config) return {};
+    return {
+        ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+        ...(config.topP !== undefined ? { top_p: config.topP } : {}),
+        ...(config.maxOutputTokens !== undefined ? { max_tokens: config.maxOutputTokens } : {}),
+    };
+}
+
+type OpenAiMessage =
+    | { role: 'user' | 'assistant' | 'system'; content: string | OpenAiContentPart[] }
+    | { role: 'assistant'; content: string | null; tool_calls: OpenAiToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+// Tool calls go out as `tool_calls` on the assistant turn, their results as one `tool` message per call
+function toMessages(message: ChatMessage): OpenAiMessage[] {
+    if (message.toolResults?.length) {
+        return message.toolResults.map(result => ({ role: 'tool', tool_call_id: result.callId, content: JSON.stringify(result.response) }));
+    }
+    if (message.toolCalls?.length) {
+        return [{
+            role: 'assistant',
+            content: message.content || null,
+            tool_calls: message.toolCalls.map(call => ({
+                id: call.id,
+                type: 'function',
+                function: { name: call.name, arguments: JSON.stringify(call.args) },
+            })),
+        }];
+    }
+    return [{ role: message.role, content: toContent(message) }];
+}
+
+function buildTools(request: ChatRequest) {
+    if (!request.tools?.length) return {};
+    return {
+        tools: request.tools.map(declaration => ({ type: 'function', function: declaration })),
+        tool_choice: request.toolChoice || 'auto',
+    };
+}
+
+// Models occasionally send arguments that are not valid JSON; the tool then reports the missing parameters
+function parseArguments(json: string | undefined): Record<string, unknown> {
+    try {
+        const args = JSON.parse(json || '{}');
+        return args && typeof args === 'object' && !Array.isArray(args) ? args : {};
+    } catch {
+        return {};
+    }
+}
+
+function toToolCalls(calls: OpenAiToolCall[] | undefined): ToolCall[] {
+    return (calls || []).map(call => ({ id: call.id, name: call.function.name, args: parseArguments(call.function.arguments) }));
+}
+
+function buildMessages(request: ChatRequest): OpenAiMessage[] {
+    const messages = request.messages.flatMap(toMessages);
+    return request.systemInstruction
+        ? [{ role: 'system', content: request.systemInstruction }, ...messages]
+        : messages;
+}
+
+async function toProviderError(response: Response, id: string): Promise<ProviderError> {
+    const body = (await response.json().catch(() => undefined)) as { error?: { message?: string } } | undefined;
+    const message = body?.error?.message || `${id} HTTP error! Status: ${response.status}`;
+    return new ProviderError(message, response.status, undefined, parseRetryAfter(response.headers.get('Retry-After')));
+}
+
+async function parseJson<T>(response: Response, id: string): Promise<T> {
+    try {
+        return await response.json() as T;
+    } catch (jsonError) {
+        throw new ProviderError(`Failed to parse response from ${id}: ${jsonError}`, 502, 'upstream_malformed');
+    }
+}
+
+/**
+ * Sends one request through the shared upstream client (retries, timeout, circuit breaker per provider id)
+ * and hands the successful response to `read`, which runs inside the retried attempt.
+ */
+function send<T>(options: OpenAiOptions, path: string, payload: unknown, read: (response: Response) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const { id, baseUrl, apiKey } = options;
+    return callUpstream(id, async attemptSignal => {
+        const response = await upstreamFetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify(payload),
+            signal: attemptSignal,
+        });
+        if (!response.ok) throw await toProviderError(response, id);
+        return read(response);
+    }, signal);
+}
+
+// Listing models is free on OpenAI-compatible endpoints (Ollama included) and checks key and reachability
+async function probeEndpoint(options: OpenAiOptions, signal?: AbortSignal): Promise<void> {
+    const response = await upstreamFetch(`${options.baseUrl}/models`, {
+        headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+        signal,
+    });
+    if (!response.ok) throw await toProviderError(response, options.id);
+}
+
+export function createOpenAiChatProvider(options: OpenAiOptions): ChatProvider {
+    const { id, model, requiresKey, apiKey } = options;
+
+    return {
+        id,
+        model,
+        isConfigured: () => !requiresKey || Boolean(apiKey) || getUpstreamMode() === 'replay',
+        probe: signal => probeEndpoint(options, signal),
+
+        async chat(request: ChatRequest): Promise<ChatResponse> {
+            const payload = { model, messages: buildMessages(request), ...buildSampling(request), ...buildTools(request) };
+            const body = await send(options, '/chat/completions', payload, response => parseJson<OpenAiChatBody>(response, id), request.signal);
+            const toolCalls = toToolCalls(body.choices?.[0]?.message?.tool_calls);
+
+            return {
+                provider: id,
+                model,
+                text: body.choices?.[0]?.message?.content || '',
+                sources: [], // No search grounding on OpenAI-compatible endpoints
+                usage: toUsage(body),
+                finishReason: body.choices?.[0]?.finish_reason || undefined,
+                finish: toFinish(body.choices?.[0]?.finish_reason || undefined),
+                ...(toolCalls.length ? { toolCalls } : {}),
+            };
+        },
+
+        async *streamChat(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+            const payload = {
+                model,
+                messages: buildMessages(request),
+                ...buildSampling(request),
+                ...buildTools(request),
+                stream: true,
+                stream_options: { include_usage: true },
+            };
+            // Streams can only be retried until the response starts; failures after that end the reply
+            const stream = await send(options, '/chat/completions', payload, async response => {
+                if (!response.body) throw new ProviderError(`${id} returned an empty stream.`, 502, 'upstream_malformed');
+                return response.body;
+            }, request.signal);
+
+            let text = '';
+            let usage: TokenUsage | undefined;
+            let finishReason: string | undefined;
+            const streamedCalls: OpenAiToolCall[] = [];
+
+            for await (const frame of readSseEvents(stream)) {
+                if (frame.data === '[DONE]') break;
+                let chunk: OpenAiChatBody;
+                try {
+                    chunk = JSON.parse(frame.data);
+                } catch {
+                    continue;
+                }
+                if (chunk.error) {
+                    yield { type: 'error', error: { message: chunk.error.message } };
+                    return;
+                }
+
+                const delta = chunk.choices?.[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    yield { type: 'delta', text: delta };
+                }
+                for (const piece of chunk.choices?.[0]?.delta?.tool_calls || []) {
+                    const call = streamedCalls[piece.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+                    if (piece.id) call.id = piece.id;
+                    if (piece.function?.name) call.function.name += piece.function.name;
+                    if (piece.function?.arguments) call.function.arguments += piece.function.arguments;
+                }
+                usage = toUsage(chunk) || usage;
+                finishReason = chunk.choices?.[0]?.finish_reason || finishReason;
+            }
+
+            const toolCalls = toToolCalls(streamedCalls.filter(Boolean));
+            yield {
+                type: 'done',
+                response: {
+                    provider: id, model, text, sources: [], usage, finishReason, finish: toFinish(finishReason),
+                    ...(toolCalls.length ? { toolCalls } : {}),
+                },
+            };
+        },
+    };
+}
+
+export function createOpenAiImageProvider(options: OpenAiOptions): ImageProvider {
+    const { id, model, apiKey, requiresKey } = options;
+
+    return {
+        id,
+        model,
+        // The edits endpoint takes multipart uploads rather than JSON; not wired up
+        supportsEditing: false,
+        isConfigured: () => !requiresKey || Boolean(apiKey) || getUpstreamMode() === 'replay',
+        probe: signal => probeEndpoint(options, signal),
+
+        async generateImage(request: ImageRequest): Promise<ImageResponse> {
+            const prompt = request.negativePrompt ? `${request.prompt}\n\nAvoid: ${request.negativePrompt}` : request.prompt;
+            const payload = {
+                model,
+                prompt,
+                n: request.sampleCount,
+                size: IMAGE_SIZES[request.aspectRatio],
+                output_format: request.outputMimeType.replace('image/', ''),
+            };
+
+            let body: OpenAiImageBody;
+            try {
+                body = await send(options, '/images/generations', payload, response => parseJson<OpenAiImageBody>(response, id), request.signal);
+            } catch (e: unknown) {
+                // OpenAI reports refused prompts as a 400 with a content policy code in the message
+                if (e instanceof ProviderError && e.status === 400 && /content[ _]policy|safety/i.test(e.message)) {
+                    throw new ProviderError(e.message, 422, 'blocked');
+                }
+                throw e;
+            }
+
+            const images = (body.data || [])
+                .filter(item => item.b64_json)
+                .map(item => ({ mimeType: request.outputMimeType, data: item.b64_json! }));
+            if (images.length === 0) {
+                throw new ProviderError(`${id} returned no image data.`, 502, 'upstream_malformed');
+            }
+            return { provider: id, model, images };
+        },
+    };
+}
@@ -0,0 +1,214 @@
+// --- Provider-neutral types shared by the API routes, the providers and ChatClient ---
+
+export interface Source {
+    uri: string;
+    title?: string;
+}
+
+/**
+ * An inline citation: the text ending at `endIndex` (UTF-16 offset into the reply text) is supported by
+ * the sources at `sourceIndices` (0-based indices into `ChatResponse.sources`).
+ */
+export interface Citation {
+    endIndex: number;
+    sourceIndices: number[];
+}
+
+// The web searches behind a grounded reply
+export interface SearchInfo {
+    // Queries the model ran, in order
+    queries: string[];
+    // HTML (with its own styles) of the search suggestions chip; Google requires showing it with grounded replies
+    entryPoint?: string;
+}
+
+// A file sent alongside a message (base64 encoded, already validated by the API route)
+export interface InlineData {
+    mimeType: string;
+    data: string;
+    name?: string;
+}
+
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
+    attachments?: InlineData[];
+    // Assistant turns: functions the model asked for (sent back as they came, within one tool-calling loop)
+    toolCalls?: ToolCall[];
+    // User turns: the results of the previous turn's `toolCalls`
+    toolResults?: ToolResult[];
+}
+
+// A JSON Schema subset understood by both Gemini and OpenAI-compatible endpoints
+export interface ToolParameterSchema {
+    type: 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    enum?: string[];
+}
+
+// A function the model may call (see lib/tools)
+export interface ToolDeclaration {
+    name: string;
+    description: string;
+    parameters: {
+        type: 'object';
+        properties: Record<string, ToolParameterSchema>;
+        required?: string[];
+    };
+}
+
+export interface ToolCall {
+    // Provider call id (generated when the provider does not assign one); results refer to it
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+    // Opaque provider data that must accompany the call when it is sent back (Gemini thought signatures)
+    signature?: string;
+}
+
+export interface ToolResult {
+    callId: string;
+    name: string;
+    response: Record<string, unknown>;
+}
+
+// Sampling parameters; providers ignore the ones they do not support
+export interface GenerationConfig {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    maxOutputTokens?: number;
+}
+
+export interface ChatRequest {
+    messages: ChatMessage[];
+    systemInstruction?: string;
+    generationConfig?: GenerationConfig;
+    // Ask the provider to ground the answer with web search, if it supports it
+    grounding?: boolean;
+    tools?: ToolDeclaration[];
+    // 'none' keeps the tools declared (earlier calls stay valid) but makes the model answer in text
+    toolChoice?: 'auto' | 'none';
+    signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+/**
+ * How a reply ended, normalized across providers:
+ *   complete    the model finished normally
+ *   truncated   the output token limit was reached; the reply can be continued
+ *   blocked     safety filters refused the prompt or stopped the reply (the text may be partial or empty)
+ *   recitation  stopped because the reply reproduced existing material too closely
+ */
+export type ChatFinishState = 'complete' | 'truncated' | 'blocked' | 'recitation';
+
+export interface ChatFinish {
+    state: ChatFinishState;
+    // The provider's own reason, e.g. "SAFETY", "PROHIBITED_CONTENT" or "length"
+    reason?: string;
+    // The prompt itself was refused, so nothing was generated
+    promptBlocked?: boolean;
+    // Safety categories that caused a block, e.g. "HARM_CATEGORY_HARASSMENT"
+    categories?: string[];
+}
+
+export interface ChatResponse {
+    provider: string;
+    model: string;
+    text: string;
+    sources: Source[];
+    citations?: Citation[];
+    // Set when the reply was grounded with web search
+    search?: SearchInfo;
+    usage?: TokenUsage;
+    finishReason?: string;
+    finish: ChatFinish;
+    // Set when the model wants these functions run before it answers (see lib/tools)
+    toolCalls?: ToolCall[];
+}
+
+/**
+ * Events yielded by `ChatProvider.streamChat` and forwarded 1:1 to the client as SSE frames
+ * (`event: <type>` / `data: <json>`).
+ */
+export type ChatStreamEvent =
+    | { type: 'delta'; text: string }
+    | { type: 'done'; response: ChatResponse }
+    | { type: 'error'; error: { message: string } };
+
+export interface ChatProvider {
+    id: string;
+    model: string;
+    // False when a required credential (e.g. an API key) is missing
+    isConfigured(): boolean;
+    chat(request: ChatRequest): Promise<ChatResponse>;
+    streamChat(request: ChatRequest): AsyncIterable<ChatStreamEvent>;
+    // Cheap reachability check for /api/health (no tokens spent); throws a ProviderError when the upstream is not usable
+    probe(signal?: AbortSignal): Promise<void>;
+}
+
+export const IMAGE_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'] as const;
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'] as const;
+
+export type ImageAspectRatio = typeof IMAGE_ASPECT_RATIOS[number];
+export type ImageMimeType = typeof IMAGE_MIME_TYPES[number];
+
+export interface ImageRequest {
+    prompt: string;
+    sampleCount: number;
+    aspectRatio: ImageAspectRatio;
+    negativePrompt?: string;
+    // Preferred output format; providers that cannot honor it return their native format
+    outputMimeType: ImageMimeType;
+    // Image to change according to the prompt instead of starting from scratch (`supportsEditing` providers)
+    sourceImage?: InlineData;
+    signal?: AbortSignal;
+}
+
+export interface GeneratedImage {
+    mimeType: string;
+    data: string; // base64
+}
+
+export interface ImageResponse {
+    provider: string;
+    model: string;
+    images: GeneratedImage[];
+}
+
+export interface ImageProvider {
+    id: string;
+    model: string;
+    // Accepts `ImageRequest.sourceImage`
+    supportsEditing: boolean;
+    isConfigured(): boolean;
+    generateImage(request: ImageRequest): Promise<ImageResponse>;
+    probe(signal?: AbortSignal): Promise<void>;
+}
+
+export type ProviderErrorCode = 'blocked' | 'quota_exceeded' | 'upstream_malformed' | 'upstream_error';
+
+/**
+ * Thrown by providers for upstream failures. `status` is the HTTP status the route should
+ * answer with (429 for rate limits/quota, 502 for malformed upstream replies, ...).
+ * When no code is given it is derived from the status. `retryAfterSeconds` carries the upstream's
+ * Retry-After, if it sent one.
+ */
+export class ProviderError extends Error {
+    status: number;
+    code: ProviderErrorCode;
+    retryAfterSeconds?: number;
+
+    constructor(message: string, status = 502, code?: ProviderErrorCode, retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'ProviderError';
+        this.status = status;
+        this.code = code ?? (status === 429 ? 'quota_exceeded' : 'upstream_error');
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
@@ -0,0 +1,211 @@
+import { readEnvNumber } from '../env';
+import { log, recordUpstreamAttempt, recordUpstreamRetry } from '../observability';
+import { ProviderError } from './types';
+
+/**
+ * Shared client for calls to model providers. Every upstream request goes through `callUpstream`, which adds:
+ *
+ *   - retries with jittered exponential backoff for rate limits (429), timeouts, 5xx, malformed replies
+ *     and network failures, honoring the upstream's Retry-After
+ *   - a per-attempt timeout (for streams: until the response headers arrive)
+ *   - a circuit breaker per upstream that fails fast after repeated failures
+ *   - cancellation: aborting the caller's signal stops the attempt in flight and any pending backoff
+ *   - metrics: every attempt is counted by status (lib/observability), retries and latency included
+ *
+ * Configuration:
+ *   UPSTREAM_MAX_RETRIES                retries after the first attempt (default 3)
+ *   UPSTREAM_RETRY_BASE_MS              backoff before the first retry, doubled per retry (default 500)
+ *   UPSTREAM_RETRY_MAX_MS               upper bound for a single backoff (default 8000)
+ *   UPSTREAM_MAX_RETRY_AFTER_SECONDS    longer Retry-After values are passed on to the client instead (default 30)
+ *   UPSTREAM_TIMEOUT_MS                 per-attempt timeout, 0 disables it (default 60000)
+ *   UPSTREAM_CIRCUIT_THRESHOLD          consecutive failed calls that open the circuit, 0 disables it (default 5)
+ *   UPSTREAM_CIRCUIT_COOLDOWN_SECONDS   how long an open circuit rejects calls before letting one through (default 30)
+ */
+export interface UpstreamConfig {
+    maxRetries: number;
+    retryBaseMs: number;
+    retryMaxMs: number;
+    maxRetryAfterSeconds: number;
+    timeoutMs: number;
+    circuitThreshold: number;
+    circuitCooldownSeconds: number;
+}
+
+export function getUpstreamConfig(): UpstreamConfig {
+    return {
+        maxRetries: readEnvNumber('UPSTREAM_MAX_RETRIES', 3),
+        retryBaseMs: readEnvNumber('UPSTREAM_RETRY_BASE_MS', 500),
+        retryMaxMs: readEnvNumber('UPSTREAM_RETRY_MAX_MS', 8000),
+        maxRetryAfterSeconds: readEnvNumber('UPSTREAM_MAX_RETRY_AFTER_SECONDS', 30),
+        timeoutMs: readEnvNumber('UPSTREAM_TIMEOUT_MS', 60000),
+        circuitThreshold: readEnvNumber('UPSTREAM_CIRCUIT_THRESHOLD', 5),
+        circuitCooldownSeconds: readEnvNumber('UPSTREAM_CIRCUIT_COOLDOWN_SECONDS', 30),
+    };
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into seconds.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+// --- Circuit breaker (per upstream, per server instance) ---
+
+interface CircuitState {
+    failures: number;
+    openUntil: number;
+    // While half-open, a single trial call is let through; the others keep failing fast
+    trialInFlight: boolean;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function getCircuit(name: string): CircuitState {
+    let circuit = circuits.get(name);
+    if (!circuit) {
+        circuit = { failures: 0, openUntil: 0, trialInFlight: false };
+        circuits.set(name, circuit);
+    }
+    return circuit;
+}
+
+/**
+ * Reports the breaker state of an upstream for /api/health. `half_open` means the cooldown is over and
+ * the next call will be let through as a trial.
+ */
+export function getCircuitState(name: string): 'closed' | 'open' | 'half_open' {
+    const config = getUpstreamConfig();
+    const circuit = circuits.get(name);
+    if (!circuit || config.circuitThreshold <= 0 || circuit.failures < config.circuitThreshold) return 'closed';
+    return Date.now() < circuit.openUntil ? 'open' : 'half_open';
+}
+
+// --- Retry classification ---
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+const isAbortError = (e: unknown) => e instanceof Error && e.name === 'AbortError';
+
+const isRetryable = (e: unknown) =>
+    e instanceof ProviderError && (e.code === 'upstream_malformed' || RETRYABLE_STATUSES.has(e.status));
+
+// Rate limits mean the upstream is up and answering, so they do not count towards opening the circuit
+const isOutage = (e: unknown) => isRetryable(e) && !(e instanceof ProviderError && e.status === 429);
+
+function backoffMs(config: UpstreamConfig, retry: number): number {
+    // "Full jitter": a random delay up to the exponential bound spreads out clients that failed together
+    const bound = Math.min(config.retryMaxMs, config.retryBaseMs * 2 ** retry);
+    return Math.round(Math.random() * bound);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs one attempt with its own abort signal, which follows the caller's signal and fires on timeout.
+ * The timeout only covers the attempt itself: a stream returned by it keeps running afterwards.
+ * Its outcome is recorded as `ok`, the upstream's HTTP status, `timeout`, `network` or `aborted`.
+ */
+async function runAttempt<T>(name: string, attempt: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal!.reason);
+    if (signal?.aborted) forwardAbort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    let timedOut = false;
+    const timer = timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs)
+        : undefined;
+
+    const startedAt = Date.now();
+    const record = (status: number | string) => recordUpstreamAttempt(name, status, Date.now() - startedAt);
+    try {
+        const result = await attempt(controller.signal);
+        record('ok');
+        return result;
+    } catch (e: unknown) {
+        signal?.removeEventListener('abort', forwardAbort);
+        if (timedOut && !signal?.aborted) {
+            record('timeout');
+            throw new ProviderError(`${name} did not answer within ${Math.round(timeoutMs / 1000)}s.`, 504);
+        }
+        // fetch itself throws a TypeError for network failures (DNS, refused or reset connections, ...)
+        if (e instanceof TypeError && !signal?.aborted) {
+            record('network');
+            throw new ProviderError(`Could not reach ${name}: ${e.message}`, 502);
+        }
+        record(signal?.aborted || isAbortError(e) ? 'aborted' : e instanceof ProviderError ? e.status : 'error');
+        throw e;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Calls an upstream through the retry/timeout/circuit-breaker policy above. `attempt` performs one request
+ * with the given signal and throws a ProviderError for failures (with `retryAfterSeconds` when the upstream
+ * sent one). `name` identifies the upstream for the circuit breaker and error messages.
+ */
+export async function callUpstream<T>(name: string, attempt: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const config = getUpstreamConfig();
+    const circuit = getCircuit(name);
+    let isTrial = false;
+
+    if (config.circuitThreshold > 0 && circuit.failures >= config.circuitThreshold) {
+        if (Date.now() < circuit.openUntil || circuit.trialInFlight) {
+            const retryAfterSeconds = Math.max(1, Math.ceil((circuit.openUntil - Date.now()) / 1000));
+            recordUpstreamAttempt(name, 'circuit_open', 0);
+            throw new ProviderError(`${name} is temporarily unavailable after repeated failures.`, 503, 'upstream_error', retryAfterSeconds);
+        }
+        circuit.trialInFlight = isTrial = true;
+    }
+
+    try {
+        for (let retry = 0; ; retry++) {
+            try {
+                const result = await runAttempt(name, attempt, config.timeoutMs, signal);
+                circuit.failures = 0;
+                return result;
+            } catch (e: unknown) {
+                if (signal?.aborted || isAbortError(e) || !isRetryable(e) || retry >= config.maxRetries) throw e;
+
+                const retryAfter = e instanceof ProviderError ? e.retryAfterSeconds : undefined;
+                // Waiting minutes (e.g. for a daily quota) inside a request is pointless; let the client decide
+                if (retryAfter !== undefined && retryAfter > config.maxRetryAfterSeconds) throw e;
+
+                const delay = retryAfter !== undefined ? retryAfter * 1000 : backoffMs(config, retry);
+                recordUpstreamRetry(name);
+                log.warn("Upstream Retry", { upstream: name, attempt: retry + 1, error: e instanceof Error ? e.message : String(e), delayMs: delay });
+                await sleep(delay, signal);
+            }
+        }
+    } catch (e: unknown) {
+        if (isOutage(e) && !signal?.aborted && ++circuit.failures >= config.circuitThreshold && config.circuitThreshold > 0) {
+            circuit.openUntil = Date.now() + config.circuitCooldownSeconds * 1000;
+            log.error("Upstream Circuit Open", { upstream: name, failures: circuit.failures, cooldownSeconds: config.circuitCooldownSeconds });
+        }
+        throw e;
+    } finally {
+        if (isTrial) circuit.trialInFlight = false;
+    }
+}
@@ -0,0 +1,101 @@
+import type { NextRequest } from 'next/server';
+import { readEnvNumber } from './env';
+
+/**
+ * Browser-facing protections applied by middleware.ts before any route runs:
+ *
+ *   - Origin check (CSRF): API requests that change something (POST, PUT, PATCH, DELETE) must come from this
+ *     site. Browsers send `Origin` and `Sec-Fetch-Site` with them, so a page elsewhere cannot spend the signed-in
+ *     user's session. Requests with neither header come from scripts (curl), which hold no browser cookies.
+ *   - Declared body size: API requests whose Content-Length exceeds MAX_API_BODY_BYTES are refused before they are
+ *     read. This is only an early answer: a chunked body carries no Content-Length, so the limits themselves are
+ *     enforced by the routes, which count the bytes as they read them (readBodyLimited in lib/apiResponse.ts, with
+ *     the per-route limits from the contracts in lib/*Api.ts).
+ *   - Content-Security-Policy: pages may only run scripts from this origin that carry the request's nonce (Next
+ *     adds it to its own scripts) and only load styles, fonts, images and data from this origin. API responses
+ *     (generated images, attachments, exports) are sandboxed and may not load anything.
+ *
+ *   ALLOWED_ORIGINS  comma-separated origins besides this one that may call the API, e.g. "https://app.example.com"
+ *
+ * The client IP (for the sign-in throttle) only comes from headers a trusted proxy sets, since the client writes
+ * whatever it likes into the rest of X-Forwarded-For:
+ *
+ *   CLIENT_IP_HEADER    a header the platform sets to the connecting address, e.g. "x-nf-client-connection-ip"
+ *                       on Netlify; used instead of X-Forwarded-For when set
+ *   TRUSTED_PROXY_HOPS  how many proxies in front of the app append to X-Forwarded-For (default 1); the client is
+ *                       the entry the outermost of them added. 0 ignores X-Forwarded-For and X-Real-IP.
+ */
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// The largest legitimate body is an attachment upload (8 MB plus multipart framing)
+export const MAX_API_BODY_BYTES = 9 * 1024 * 1024;
+
+function getAllowedOrigins(): string[] {
+    return (process.env.ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+}
+
+// Behind a proxy the public host is in X-Forwarded-Host; the scheme is not compared, TLS may end at the proxy
+function isOwnOrigin(origin: string, request: NextRequest): boolean {
+    const host = request.headers.get('x-forwarded-host')?.split(',')[0].trim() || request.headers.get('host');
+    try {
+        return new URL(origin).host === host;
+    } catch {
+        return false;
+    }
+}
+
+export function isAllowedOrigin(request: NextRequest): boolean {
+    if (SAFE_METHODS.has(request.method)) return true;
+    const origin = request.headers.get('origin');
+    if (origin) return isOwnOrigin(origin, request) || getAllowedOrigins().includes(origin);
+    // Without Origin, fetch metadata still says where a browser request comes from
+    const site = request.headers.get('sec-fetch-site');
+    return !site || site === 'same-origin' || site === 'none';
+}
+
+export function isBodyTooLarge(request: NextRequest): boolean {
+    return Number(request.headers.get('content-length')) > MAX_API_BODY_BYTES;
+}
+
+// Without a trusted address every caller shares one, and only the per-username throttle tells them apart
+export function getClientIp(request: NextRequest): string {
+    const platformHeader = process.env.CLIENT_IP_HEADER?.trim();
+    if (platformHeader) return request.headers.get(platformHeader)?.trim() || 'unknown';
+
+    const hops = readEnvNumber('TRUSTED_PROXY_HOPS', 1);
+    if (hops < 1) return 'unknown';
+    const forwarded = (request.headers.get('x-forwarded-for') || '').split(',').map(entry => entry.trim()).filter(Boolean);
+    // Entries left of the one our outermost proxy appended were written by the client
+    if (forwarded.length) return forwarded[Math.max(0, forwarded.length - Math.floor(hops))];
+    return request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+export function createNonce(): string {
+    return btoa(crypto.randomUUID());
+}
+
+/**
+ * The page policy. Inline styles stay allowed: React renders `style` attributes and the chat's <style> block.
+ * The search suggestions frame (MessageBubble) is a srcdoc frame, so it inherits this policy without scripts.
+ */
+export function pageContentSecurityPolicy(nonce: string): string {
+    // The dev server's error overlay and hot reloading evaluate code
+    const devScripts = process.env.NODE_ENV === 'development' ? " 'unsafe-eval'" : '';
+    return [
+        "default-src 'self'",
+        `script-src 'self' 'nonce-${nonce}' 'strict-dynamic'${devScripts}`,
+        "style-src 'self' 'unsafe-inline'",
+        "img-src 'self' data: blob:",
+        "font-src 'self'",
+        "connect-src 'self'",
+        "frame-src 'self'",
+        "object-src 'none'",
+        "base-uri 'self'",
+        "form-action 'self'",
+        "frame-ancestors 'none'",
+    ].join('; ');
+}
+
+// Opened directly (e.g. an SVG image in a new tab), an API response must not run anything
+export const API_CONTENT_SECURITY_POLICY = "default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'; frame-ancestors 'none'; sandbox";
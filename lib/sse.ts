@@ -0,0 +1,56 @@
+/**
+ * Minimal Server-Sent Events helpers used on both sides of the streaming chat route.
+ */
+
+export interface SseEvent {
+    event: string;
+    data: string;
+}
+
+/**
+ * Serializes one SSE frame. `data` is JSON-encoded.
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+    return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseFrame(frame: string): SseEvent | null {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of frame.split(/\r?\n/)) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+    }
+    return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null;
+}
+
+/**
+ * Reads an SSE body and yields every complete frame.
+ * Frames without an explicit `event:` line are reported as 'message'.
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            let boundary = buffer.search(/\r?\n\r?\n/);
+            while (boundary !== -1) {
+                const frame = parseFrame(buffer.slice(0, boundary));
+                buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+                if (frame) yield frame;
+                boundary = buffer.search(/\r?\n\r?\n/);
+            }
+        }
+        buffer += decoder.decode();
+        const last = buffer.trim() ? parseFrame(buffer) : null;
+        if (last) yield last;
+    } finally {
+        reader.releaseLock();
+    }
+}
@@ -0,0 +1,154 @@
+import { Tool, ToolError, readString } from './types';
+
+/**
+ * `calculate`: evaluates an arithmetic expression with a small recursive-descent parser (no `eval`).
+ * Supports + - * / % ^ (or **), parentheses, the constants pi, e and tau, and the functions below.
+ * Trigonometry works in radians.
+ */
+
+const MAX_EXPRESSION_CHARS = 500;
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E, tau: 2 * Math.PI };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    sqrt: Math.sqrt, cbrt: Math.cbrt, abs: Math.abs, exp: Math.exp,
+    floor: Math.floor, ceil: Math.ceil, trunc: Math.trunc,
+    round: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits,
+    ln: Math.log, log2: Math.log2, log10: Math.log10,
+    // log(x) is base 10, log(x, base) any base
+    log: (value, base = 10) => Math.log(value) / Math.log(base),
+    sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan, atan2: Math.atan2,
+    min: Math.min, max: Math.max, pow: Math.pow, hypot: Math.hypot,
+};
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    // × and ÷ are common in pasted questions; `**` is the same as `^`
+    const source = expression.replace(/×/g, '*').replace(/÷/g, '/').replace(/\*\*/g, '^');
+    const pattern = /\s*(?:(\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z_]\w*)|([-+*/%^(),]))/y;
+
+    while (pattern.lastIndex < source.length) {
+        if (/^\s*$/.test(source.slice(pattern.lastIndex))) break;
+        const start = pattern.lastIndex;
+        const match = pattern.exec(source);
+        if (!match) throw new ToolError(`Unexpected character "${source.slice(start).trim()[0]}" at position ${start + 1}.`);
+        if (match[1]) tokens.push({ type: 'number', value: Number(match[1]) });
+        else if (match[2]) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+        else tokens.push({ type: 'op', value: match[3] });
+    }
+    return tokens;
+}
+
+function evaluate(expression: string): number {
+    const tokens = tokenize(expression);
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const isOp = (value: string) => peek()?.type === 'op' && peek()!.value === value;
+    const expect = (value: string) => {
+        if (!isOp(value)) throw new ToolError(`Expected "${value}"${peek() ? ` before "${peek()!.value}"` : ' at the end'}.`);
+        position++;
+    };
+
+    // expression := term (("+" | "-") term)*
+    const parseExpression = (): number => {
+        let value = parseTerm();
+        while (isOp('+') || isOp('-')) {
+            const op = tokens[position++].value;
+            value = op === '+' ? value + parseTerm() : value - parseTerm();
+        }
+        return value;
+    };
+
+    // term := unary (("*" | "/" | "%") unary)*
+    const parseTerm = (): number => {
+        let value = parseUnary();
+        while (isOp('*') || isOp('/') || isOp('%')) {
+            const op = tokens[position++].value;
+            const right = parseUnary();
+            value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+        }
+        return value;
+    };
+
+    // unary := ("+" | "-") unary | power; so -2^2 is -(2^2)
+    const parseUnary = (): number => {
+        if (isOp('-')) { position++; return -parseUnary(); }
+        if (isOp('+')) { position++; return parseUnary(); }
+        return parsePower();
+    };
+
+    // power := primary ("^" unary)?, right-associative
+    const parsePower = (): number => {
+        const base = parsePrimary();
+        if (!isOp('^')) return base;
+        position++;
+        return base ** parseUnary();
+    };
+
+    const parsePrimary = (): number => {
+        const token = tokens[position++];
+        if (!token) throw new ToolError('The expression ends unexpectedly.');
+        if (token.type === 'number') return token.value;
+        if (token.type === 'op' && token.value === '(') {
+            const value = parseExpression();
+            expect(')');
+            return value;
+        }
+        if (token.type === 'name') {
+            if (isOp('(')) {
+                // Own keys only: `constructor`, `__proto__` and the like are not functions of the calculator
+                const fn = Object.hasOwn(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+                if (!fn) throw new ToolError(`Unknown function "${token.value}". Available: ${Object.keys(FUNCTIONS).join(', ')}.`);
+                position++;
+                const args: number[] = [];
+                if (!isOp(')')) {
+                    args.push(parseExpression());
+                    while (isOp(',')) { position++; args.push(parseExpression()); }
+                }
+                expect(')');
+                return fn(...args);
+            }
+            if (Object.hasOwn(CONSTANTS, token.value)) return CONSTANTS[token.value];
+            throw new ToolError(`Unknown name "${token.value}". Constants: ${Object.keys(CONSTANTS).join(', ')}.`);
+        }
+        throw new ToolError(`Unexpected "${token.value}".`);
+    };
+
+    const value = parseExpression();
+    if (position < tokens.length) throw new ToolError(`Unexpected "${tokens[position].value}".`);
+    return value;
+}
+
+export const calculatorTool: Tool = {
+    declaration: {
+        name: 'calculate',
+        description: 'Evaluates an arithmetic expression exactly as written and returns the number. Use it for any calculation instead of doing arithmetic yourself. Operators: + - * / % ^ and parentheses; constants pi, e; functions sqrt, cbrt, abs, round(x, digits), floor, ceil, exp, ln, log(x, base), log2, log10, sin, cos, tan (radians), asin, acos, atan, atan2, min, max, pow, hypot.',
+        parameters: {
+            type: 'object',
+            properties: {
+                expression: { type: 'string', description: 'The expression, e.g. "(1250 * 1.07^3) / 12".' },
+            },
+            required: ['expression'],
+        },
+    },
+
+    async run(args) {
+        const expression = readString(args, 'expression');
+        if (expression.length > MAX_EXPRESSION_CHARS) throw new ToolError(`Expressions are limited to ${MAX_EXPRESSION_CHARS} characters.`);
+
+        const value = evaluate(expression);
+        if (Number.isNaN(value)) throw new ToolError('The result is not a number (e.g. the square root of a negative number).');
+        if (!Number.isFinite(value)) throw new ToolError('The result is infinite (division by zero or overflow).');
+
+        // 15 significant digits hide binary rounding noise such as 0.1 + 0.2 = 0.30000000000000004
+        const result = Number(value.toPrecision(15));
+        return {
+            expression,
+            result,
+            ...(Math.abs(result) > Number.MAX_SAFE_INTEGER ? { note: 'Beyond 2^53 the result is rounded to 15 significant digits.' } : {}),
+        };
+    },
+};
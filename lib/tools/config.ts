@@ -0,0 +1,38 @@
+import { readEnvNumber } from '../env';
+
+/**
+ * Server-side tools for `POST /api/chat`:
+ *   CHAT_TOOLS             comma-separated tool names to offer the model, `all` (default) or `off`
+ *   CHAT_TOOL_MAX_STEPS    rounds of tool calls per reply (default 5); after that the model must answer (0 disables tools)
+ *   TOOL_TIMEOUT_MS        time limit per tool call (default 15000)
+ *   FETCH_URL_MAX_BYTES    largest page fetch_url downloads (default 2000000)
+ *   FETCH_URL_MAX_CHARS    text of a page passed to the model (default 20000)
+ *   FETCH_URL_ANY_URL      `true` lets fetch_url read any public URL, not only URLs the user wrote in the conversation
+ */
+export interface ToolConfig {
+    // Tool names, or 'all'
+    enabled: string[] | 'all';
+    maxSteps: number;
+    timeoutMs: number;
+    fetchMaxBytes: number;
+    fetchMaxChars: number;
+    fetchAnyUrl: boolean;
+}
+
+function readEnabled(): string[] | 'all' {
+    const value = process.env.CHAT_TOOLS?.trim().toLowerCase();
+    if (!value || value === 'all') return 'all';
+    if (value === 'off' || value === 'none') return [];
+    return value.split(',').map(name => name.trim()).filter(Boolean);
+}
+
+export function getToolConfig(): ToolConfig {
+    return {
+        enabled: readEnabled(),
+        maxSteps: Math.floor(readEnvNumber('CHAT_TOOL_MAX_STEPS', 5)),
+        timeoutMs: readEnvNumber('TOOL_TIMEOUT_MS', 15000),
+        fetchMaxBytes: readEnvNumber('FETCH_URL_MAX_BYTES', 2000000),
+        fetchMaxChars: readEnvNumber('FETCH_URL_MAX_CHARS', 20000),
+        fetchAnyUrl: process.env.FETCH_URL_ANY_URL === 'true',
+    };
+}
@@ -0,0 +1,54 @@
+import { Tool, ToolError, readOptionalString } from './types';
+
+/**
+ * `current_datetime`: the server clock in an IANA time zone. Models have no clock of their own and their
+ * training data ends at some point, so "today", "how many days until" and "what time is it in" need this.
+ */
+
+function validTimeZone(timeZone: string): string {
+    try {
+        // Also canonicalizes the case, e.g. "europe/berlin" -> "Europe/Berlin"
+        return new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+    } catch {
+        throw new ToolError(`Unknown time zone "${timeZone}". Use an IANA name such as "Europe/Berlin", "America/New_York" or "UTC".`);
+    }
+}
+
+export const dateTimeTool: Tool = {
+    declaration: {
+        name: 'current_datetime',
+        description: 'Returns the current date, time, weekday and UTC offset in a time zone. Use it whenever the answer depends on today\'s date or the current time.',
+        parameters: {
+            type: 'object',
+            properties: {
+                timezone: { type: 'string', description: 'IANA time zone, e.g. "Asia/Tokyo" or "America/Los_Angeles". Defaults to UTC.' },
+            },
+        },
+    },
+
+    async run(args) {
+        const timeZone = validTimeZone(readOptionalString(args, 'timezone') || 'UTC');
+        const now = new Date();
+
+        const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23',
+            weekday: 'long', timeZoneName: 'longOffset',
+        }).formatToParts(now).map(part => [part.type, part.value]));
+        // "GMT+05:30" -> "+05:30"; plain "GMT" is UTC itself
+        const offset = parts.timeZoneName === 'GMT' ? '+00:00' : parts.timeZoneName.replace('GMT', '');
+        const date = `${parts.year}-${parts.month}-${parts.day}`;
+        const time = `${parts.hour}:${parts.minute}:${parts.second}`;
+
+        return {
+            timezone: timeZone,
+            date,
+            time,
+            weekday: parts.weekday,
+            utcOffset: offset,
+            iso: `${date}T${time}${offset}`,
+            unixSeconds: Math.floor(now.getTime() / 1000),
+        };
+    },
+};
@@ -0,0 +1,267 @@
+import dns, { LookupAddress, LookupOptions } from 'dns';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import { Readable } from 'stream';
+import type { ChatMessage } from '../providers/types';
+import { getToolConfig } from './config';
+import { Tool, ToolContext, ToolError, readString } from './types';
+
+/**
+ * `fetch_url`: downloads a web page or text file and returns its readable text.
+ *
+ * The server makes the request, so it is kept away from internal services: only http(s) URLs on public
+ * addresses are fetched (checked again after every redirect), and by default only URLs the user wrote in the
+ * conversation, so instructions hidden in a fetched page cannot send the model to other addresses
+ * (FETCH_URL_ANY_URL lifts that). Addresses are checked as the connection is made (the resolver hook below), so
+ * a DNS answer that changes after an earlier check cannot slip an internal address in.
+ */
+
+const MAX_REDIRECTS = 5;
+const TEXT_TYPES = /^(text\/|application\/(json|xml|xhtml\+xml|rss\+xml|atom\+xml|ld\+json))/;
+const URL_IN_TEXT = /https?:\/\/[^\s<>"'`)\]]+/g;
+
+// Comparable form of a URL: no fragment, no trailing punctuation picked up from the sentence around it
+function normalizeUrl(raw: string): string | undefined {
+    try {
+        const url = new URL(raw.replace(/[.,;:!?]+$/, ''));
+        url.hash = '';
+        return url.href;
+    } catch {
+        return undefined;
+    }
+}
+
+function mentionedUrls(messages: ChatMessage[]): Set<string> {
+    const urls = new Set<string>();
+    for (const message of messages) {
+        if (message.role !== 'user') continue;
+        for (const match of message.content.match(URL_IN_TEXT) || []) {
+            const url = normalizeUrl(match);
+            if (url) urls.add(url);
+        }
+    }
+    return urls;
+}
+
+// --- Address checks ---
+
+const PRIVATE_IPV4 = new BlockList();
+PRIVATE_IPV4.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_IPV4.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_IPV4.addSubnet('100.64.0.0', 10, 'ipv4');  // carrier-grade NAT
+PRIVATE_IPV4.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_IPV4.addSubnet('169.254.0.0', 16, 'ipv4'); // link-local, cloud metadata
+PRIVATE_IPV4.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_IPV4.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_IPV4.addSubnet('198.18.0.0', 15, 'ipv4');
+PRIVATE_IPV4.addSubnet('224.0.0.0', 3, 'ipv4');    // multicast and reserved
+
+const PRIVATE_IPV6 = new BlockList();
+PRIVATE_IPV6.addSubnet('fc00::', 7, 'ipv6');       // unique local
+PRIVATE_IPV6.addSubnet('fe80::', 10, 'ipv6');      // link-local
+PRIVATE_IPV6.addSubnet('ff00::', 8, 'ipv6');       // multicast
+PRIVATE_IPV6.addSubnet('64:ff9b:1::', 48, 'ipv6'); // local-use NAT64
+
+// The 16 bytes of an IPv6 address; the zone index ("%eth0") is dropped
+function ipv6Bytes(address: string): number[] {
+    let text = address.split('%')[0];
+    // A trailing dotted IPv4 address ("::ffff:127.0.0.1") stands for the last two groups
+    const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (dotted) {
+        const [a, b, c, d] = dotted.slice(1).map(Number);
+        text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+    const [head, tail] = text.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups = tail === undefined ? headGroups
+        : [...headGroups, ...Array<string>(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+    return groups.flatMap(group => {
+        const value = parseInt(group, 16);
+        return [value >> 8, value & 0xff];
+    });
+}
+
+// IPv6 forms that reach an IPv4 address written in their last 32 bits: IPv4-mapped (::ffff:0:0/96),
+// IPv4-compatible (::/96, which includes :: and ::1) and NAT64 (64:ff9b::/96)
+function embeddedIPv4(bytes: number[]): string | undefined {
+    const zeros = (from: number, to: number) => bytes.slice(from, to).every(byte => byte === 0);
+    const mapped = zeros(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff;
+    const compatible = zeros(0, 12);
+    const nat64 = bytes[0] === 0 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && zeros(4, 12);
+    return mapped || compatible || nat64 ? bytes.slice(12).join('.') : undefined;
+}
+
+// Anything that is not a valid IP address counts as private
+function isPrivateAddress(address: string): boolean {
+    const version = isIP(address);
+    if (version === 4) return PRIVATE_IPV4.check(address, 'ipv4');
+    if (version !== 6) return true;
+    const ipv4 = embeddedIPv4(ipv6Bytes(address));
+    return ipv4 ? PRIVATE_IPV4.check(ipv4, 'ipv4') : PRIVATE_IPV6.check(address.split('%')[0], 'ipv6');
+}
+
+// Host names are checked by `publicLookup` when the request connects; IP literals never go through a lookup
+function assertPublicUrl(url: URL): void {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new ToolError('Only http and https URLs can be fetched.');
+    if (url.username || url.password) throw new ToolError('URLs with credentials cannot be fetched.');
+
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host) && isPrivateAddress(host)) throw new ToolError(`"${host}" is not a public address.`);
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+/**
+ * `dns.lookup` for the connection itself: the addresses it returns are the ones the socket connects to, so a
+ * host whose DNS answer includes a private address is refused here, whatever it resolved to before.
+ */
+function publicLookup(hostname: string, options: LookupOptions, callback: LookupCallback): void {
+    dns.lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+        if (error || !addresses.length) {
+            return callback(new ToolError(`The host "${hostname}" could not be resolved.`), []);
+        }
+        if (addresses.some(({ address }) => isPrivateAddress(address))) {
+            return callback(new ToolError(`"${hostname}" is not a public address.`), []);
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+}
+
+// --- Fetching ---
+
+const REQUEST_HEADERS = { 'User-Agent': 'fish-and-barrel/1.0 (fetch_url tool)', Accept: 'text/html, text/plain, application/json;q=0.9, */*;q=0.5' };
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+function toResponse(message: IncomingMessage): Response {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(message.headers)) {
+        for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) headers.append(name, item);
+    }
+    const status = message.statusCode || 502;
+    if (NULL_BODY_STATUSES.has(status)) {
+        message.resume();
+        return new Response(null, { status, headers });
+    }
+    return new Response(Readable.toWeb(message) as ReadableStream<Uint8Array>, { status, headers });
+}
+
+// One GET without following redirects, through `publicLookup` (global fetch has no resolver hook)
+function request(url: URL, signal: AbortSignal): Promise<Response> {
+    const send = url.protocol === 'https:' ? https.request : http.request;
+    return new Promise((resolve, reject) => {
+        const outgoing = send(url, { headers: REQUEST_HEADERS, lookup: publicLookup, signal }, message => resolve(toResponse(message)));
+        outgoing.on('error', reject);
+        outgoing.end();
+    });
+}
+
+// Reads at most `maxBytes`; larger bodies are cut off rather than rejected
+async function readLimited(response: Response, maxBytes: number): Promise<{ text: string; cutOff: boolean }> {
+    if (!response.body) return { text: '', cutOff: false };
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    let cutOff = false;
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        size += value.length;
+        if (maxBytes && size >= maxBytes) {
+            cutOff = true;
+            await reader.cancel();
+            break;
+        }
+    }
+    const bytes = Buffer.concat(chunks).subarray(0, maxBytes || undefined);
+    return { text: new TextDecoder().decode(bytes), cutOff };
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+            return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+        }
+        return ENTITIES[name.toLowerCase()] ?? entity;
+    });
+}
+
+// Readable text of an HTML page: scripts, styles and markup removed, block elements as line breaks
+function htmlToText(html: string): { title?: string; text: string } {
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    const text = html
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<(script|style|noscript|svg|template|head)\b[\s\S]*?<\/\1>/gi, '')
+        .replace(/<(br|\/p|\/div|\/li|\/tr|\/h[1-6]|\/section|\/article|\/blockquote|\/pre)\b[^>]*>/gi, '\n')
+        .replace(/<li\b[^>]*>/gi, '\n- ')
+        .replace(/<[^>]+>/g, '');
+    return {
+        ...(title ? { title: decodeEntities(title).replace(/\s+/g, ' ').trim() } : {}),
+        text: decodeEntities(text).replace(/[ \t\f\v\r]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{3,}/g, '\n\n').trim(),
+    };
+}
+
+async function fetchPublic(start: URL, context: ToolContext): Promise<{ url: URL; response: Response }> {
+    let url = start;
+    for (let redirects = 0; ; redirects++) {
+        assertPublicUrl(url);
+        const response = await request(url, context.signal);
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) return { url, response };
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) throw new ToolError(`Too many redirects (more than ${MAX_REDIRECTS}).`);
+        url = new URL(location, url);
+    }
+}
+
+export const fetchUrlTool: Tool = {
+    declaration: {
+        name: 'fetch_url',
+        description: 'Downloads a web page (or a text/JSON file) and returns its text. Use it when the user shares a URL and asks about its content. Only URLs the user wrote in the conversation can be fetched.',
+        parameters: {
+            type: 'object',
+            properties: {
+                url: { type: 'string', description: 'The full http(s) URL exactly as the user wrote it.' },
+            },
+            required: ['url'],
+        },
+    },
+
+    async run(args, context) {
+        const config = getToolConfig();
+        const href = normalizeUrl(readString(args, 'url'));
+        if (!href) throw new ToolError('"url" is not a valid URL.');
+        if (!config.fetchAnyUrl && !mentionedUrls(context.messages).has(href)) {
+            throw new ToolError('Only URLs the user wrote in the conversation can be fetched. Ask the user to paste the link.');
+        }
+
+        const { url, response } = await fetchPublic(new URL(href), context);
+        const contentType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase() || '';
+        if (!response.ok) {
+            await response.body?.cancel();
+            throw new ToolError(`The server answered with HTTP ${response.status}.`);
+        }
+        if (contentType && !TEXT_TYPES.test(contentType)) {
+            await response.body?.cancel();
+            throw new ToolError(`"${contentType}" content cannot be read; only web pages and text files can.`);
+        }
+
+        const { text: body, cutOff } = await readLimited(response, config.fetchMaxBytes);
+        const page = /html|xml/.test(contentType) && /<[a-z!]/i.test(body) ? htmlToText(body) : { text: body.trim() };
+        const truncated = cutOff || (config.fetchMaxChars > 0 && page.text.length > config.fetchMaxChars);
+        return {
+            url: url.href,
+            status: response.status,
+            contentType,
+            ...(page.title ? { title: page.title } : {}),
+            content: config.fetchMaxChars > 0 ? page.text.slice(0, config.fetchMaxChars) : page.text,
+            ...(truncated ? { truncated: true } : {}),
+        };
+    },
+};
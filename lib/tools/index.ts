@@ -0,0 +1,35 @@
+import { calculatorTool } from './calculator';
+import { getToolConfig } from './config';
+import { dateTimeTool } from './datetime';
+import { fetchUrlTool } from './fetchUrl';
+import { unitConversionTool } from './units';
+import type { Tool } from './types';
+import { log } from '../observability';
+
+export * from './types';
+export { getToolConfig } from './config';
+export type { ToolConfig } from './config';
+export { chatWithTools, streamChatWithTools } from './loop';
+
+/**
+ * Tool registry for the chat route's function-calling loop (loop.ts). The model sees each tool's declaration
+ * and may ask for calls; the server runs them and sends the results back until the model answers.
+ *
+ * To add a tool, implement `Tool` (types.ts) in its own module and list it here. CHAT_TOOLS picks the tools
+ * offered to the model (config.ts).
+ */
+const BUILTIN_TOOLS: Tool[] = [calculatorTool, unitConversionTool, dateTimeTool, fetchUrlTool];
+
+// The tools CHAT_TOOLS enables; unknown names are reported and skipped
+export function getEnabledTools(): Tool[] {
+    const { enabled, maxSteps } = getToolConfig();
+    if (maxSteps === 0) return [];
+    if (enabled === 'all') return BUILTIN_TOOLS;
+
+    for (const name of enabled) {
+        if (!BUILTIN_TOOLS.some(tool => tool.declaration.name === name)) {
+            log.warn("Tool Config Error", { message: `CHAT_TOOLS names unknown tool "${name}"` });
+        }
+    }
+    return BUILTIN_TOOLS.filter(tool => enabled.includes(tool.declaration.name));
+}
@@ -0,0 +1,189 @@
+import type { ChatApiResponse, ChatApiStreamEvent, ToolInvocation } from '../chatApi';
+import type { ChatMessage, ChatProvider, ChatRequest, ChatResponse, SearchInfo, TokenUsage, ToolCall, ToolResult } from '../providers/types';
+import { getToolConfig } from './config';
+import { Tool, ToolError } from './types';
+import { log, recordToolCall } from '../observability';
+
+/**
+ * The function-calling loop of `POST /api/chat`. Each step is one model call with the tools declared; when the
+ * model asks for calls instead of answering, they run on the server (in parallel), the calls and their results
+ * are appended to the conversation and the model is asked again. After CHAT_TOOL_MAX_STEPS rounds the tools
+ * stay declared but the model must answer in text.
+ *
+ * Text the model writes along the way is part of the reply, so the combined reply spans all steps (with the
+ * citations shifted accordingly) and its usage is the sum of all steps.
+ */
+
+interface ToolLoopOptions {
+    provider: ChatProvider;
+    request: ChatRequest;
+    tools: Tool[];
+}
+
+// Calls beyond this in one step are answered with an error instead of being run
+const MAX_CALLS_PER_STEP = 8;
+const STEP_SEPARATOR = '\n\n';
+
+function stepRequest(options: ToolLoopOptions, messages: ChatMessage[], step: number): ChatRequest {
+    const { request, tools } = options;
+    if (!tools.length) return { ...request, messages };
+    return {
+        ...request,
+        messages,
+        tools: tools.map(tool => tool.declaration),
+        toolChoice: step < getToolConfig().maxSteps ? 'auto' : 'none',
+    };
+}
+
+function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+    if (!a || !b) return a || b;
+    return {
+        promptTokens: a.promptTokens + b.promptTokens,
+        completionTokens: a.completionTokens + b.completionTokens,
+        totalTokens: a.totalTokens + b.totalTokens,
+    };
+}
+
+// Every step may search; the queries add up and the latest suggestions chip covers them
+function addSearch(a: SearchInfo | undefined, b: SearchInfo | undefined): { search?: SearchInfo } {
+    if (!a || !b) return a || b ? { search: a || b } : {};
+    const entryPoint = b.entryPoint || a.entryPoint;
+    return { search: { queries: [...new Set([...a.queries, ...b.queries])], ...(entryPoint ? { entryPoint } : {}) } };
+}
+
+// Appends a step to the reply so far; citations point into the combined text and (deduplicated) source list
+function combine(reply: ChatResponse | undefined, step: ChatResponse): ChatResponse {
+    if (!reply) return step;
+    const separator = reply.text && step.text ? STEP_SEPARATOR : '';
+    const textOffset = reply.text.length + separator.length;
+    const sources = [...reply.sources];
+    const sourceIndex = step.sources.map(source => {
+        const existing = sources.findIndex(known => known.uri === source.uri);
+        return existing === -1 ? sources.push(source) - 1 : existing;
+    });
+    return {
+        ...step,
+        text: reply.text + separator + step.text,
+        sources,
+        citations: [
+            ...reply.citations || [],
+            ...(step.citations || []).map(citation => ({
+                endIndex: citation.endIndex + textOffset,
+                sourceIndices: [...new Set(citation.sourceIndices.map(index => sourceIndex[index]))],
+            })),
+        ],
+        ...addSearch(reply.search, step.search),
+        usage: addUsage(reply.usage, step.usage),
+    };
+}
+
+// The calls the model asked for are reported as invocations instead
+function toApiResponse(reply: ChatResponse, invocations: ToolInvocation[]): ChatApiResponse {
+    const response: ChatApiResponse & Pick<ChatResponse, 'toolCalls'> = { ...reply, ...(invocations.length ? { tools: invocations } : {}) };
+    delete response.toolCalls;
+    return response;
+}
+
+async function runCall(call: ToolCall, options: ToolLoopOptions, messages: ChatMessage[], refused?: string): Promise<{ invocation: ToolInvocation; result: ToolResult }> {
+    const { timeoutMs } = getToolConfig();
+    const tool = options.tools.find(candidate => candidate.declaration.name === call.name);
+    const userSignal = options.request.signal;
+    const timeout = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
+    const signal = userSignal && timeout ? AbortSignal.any([userSignal, timeout]) : userSignal || timeout || new AbortController().signal;
+    const startedAt = Date.now();
+
+    let response: Record<string, unknown>;
+    let error: string | undefined;
+    try {
+        if (refused) throw new ToolError(refused);
+        if (!tool) throw new ToolError(`Unknown tool "${call.name}".`);
+        response = await tool.run(call.args, { messages, signal });
+    } catch (e: unknown) {
+        // Stopped by the client: end the reply instead of telling the model
+        if (userSignal?.aborted) throw e;
+        error = timeout?.aborted ? `The tool did not finish within ${timeoutMs} ms.` : e instanceof Error ? e.message : String(e);
+        if (!(e instanceof ToolError) && !timeout?.aborted) log.error("Tool Error", { tool: call.name, error });
+        response = { error };
+    }
+
+    const durationMs = Date.now() - startedAt;
+    recordToolCall(call.name, error ? 'error' : 'ok', durationMs);
+    return {
+        invocation: { id: call.id, name: call.name, args: call.args, ...(error ? { error } : { result: response }), durationMs },
+        result: { callId: call.id, name: call.name, response },
+    };
+}
+
+/**
+ * Runs a step's calls and returns the conversation to send next (the model's turn plus the results).
+ */
+async function runCalls(step: ChatResponse, options: ToolLoopOptions, messages: ChatMessage[]) {
+    const calls = step.toolCalls || [];
+    const outcomes = await Promise.all(calls.map((call, index) => runCall(call, options, messages,
+        index >= MAX_CALLS_PER_STEP ? `At most ${MAX_CALLS_PER_STEP} tool calls are run per step.` : undefined)));
+    return {
+        invocations: outcomes.map(outcome => outcome.invocation),
+        messages: [
+            ...messages,
+            { role: 'assistant' as const, content: step.text, toolCalls: calls },
+            { role: 'user' as const, content: '', toolResults: outcomes.map(outcome => outcome.result) },
+        ],
+    };
+}
+
+export async function chatWithTools(options: ToolLoopOptions): Promise<ChatApiResponse> {
+    const { maxSteps } = getToolConfig();
+    let messages = options.request.messages;
+    let reply: ChatResponse | undefined;
+    const invocations: ToolInvocation[] = [];
+
+    for (let step = 0; ; step++) {
+        const response = await options.provider.chat(stepRequest(options, messages, step));
+        reply = combine(reply, response);
+        if (!options.tools.length || !response.toolCalls?.length || step >= maxSteps) break;
+
+        const next = await runCalls(response, options, messages);
+        invocations.push(...next.invocations);
+        messages = next.messages;
+    }
+    return toApiResponse(reply, invocations);
+}
+
+/**
+ * Streaming variant: text deltas of every step are forwarded as they arrive, each finished call as a `tool`
+ * event, and the final `done` event carries the combined reply.
+ */
+export async function* streamChatWithTools(options: ToolLoopOptions): AsyncGenerator<ChatApiStreamEvent> {
+    const { maxSteps } = getToolConfig();
+    let messages = options.request.messages;
+    let reply: ChatResponse | undefined;
+    const invocations: ToolInvocation[] = [];
+
+    for (let step = 0; ; step++) {
+        let response: ChatResponse | undefined;
+        let separated = false;
+        for await (const event of options.provider.streamChat(stepRequest(options, messages, step))) {
+            if (event.type === 'done') {
+                response = event.response;
+                continue;
+            }
+            if (event.type === 'delta' && reply?.text && !separated) {
+                // Matches the separator `combine` puts between the steps' texts
+                separated = true;
+                yield { type: 'delta', text: STEP_SEPARATOR };
+            }
+            yield event;
+            if (event.type === 'error') return;
+        }
+        if (!response) return;
+
+        reply = combine(reply, response);
+        if (!options.tools.length || !response.toolCalls?.length || step >= maxSteps) break;
+
+        const next = await runCalls(response, options, messages);
+        for (const invocation of next.invocations) yield { type: 'tool', tool: invocation };
+        invocations.push(...next.invocations);
+        messages = next.messages;
+    }
+    yield { type: 'done', response: toApiResponse(reply, invocations) };
+}
@@ -0,0 +1,44 @@
+import type { ChatMessage, ToolDeclaration } from '../providers/types';
+
+// --- Server-side tool types (see index.ts) ---
+
+export interface ToolContext {
+    // The conversation sent with the chat request (e.g. fetch_url only reads URLs the user wrote)
+    messages: ChatMessage[];
+    // Aborted when the client stops the reply or the call exceeds TOOL_TIMEOUT_MS
+    signal: AbortSignal;
+}
+
+export interface Tool {
+    declaration: ToolDeclaration;
+    // The result is sent to the model as the function response, so it must be a JSON object
+    run(args: Record<string, unknown>, context: ToolContext): Promise<Record<string, unknown>>;
+}
+
+/**
+ * Thrown by tools for bad arguments and expected failures. The message is sent to the model as the call's
+ * `error`, so it should say what to do differently.
+ */
+export class ToolError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ToolError';
+    }
+}
+
+export function readString(args: Record<string, unknown>, name: string): string {
+    const value = args[name];
+    if (typeof value !== 'string' || !value.trim()) throw new ToolError(`"${name}" must be a non-empty string.`);
+    return value.trim();
+}
+
+export function readOptionalString(args: Record<string, unknown>, name: string): string | undefined {
+    return args[name] === undefined || args[name] === null || args[name] === '' ? undefined : readString(args, name);
+}
+
+// Models sometimes send numbers as strings ("12.5")
+export function readNumber(args: Record<string, unknown>, name: string): number {
+    const value = typeof args[name] === 'string' ? Number(args[name]) : args[name];
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new ToolError(`"${name}" must be a number.`);
+    return value;
+}
@@ -0,0 +1,165 @@
+import { Tool, ToolError, readNumber, readString } from './types';
+
+/**
+ * `convert_units`: converts between units of the same quantity. Every unit is a factor to the quantity's
+ * base unit (metre, kilogram, litre, ...); temperatures are converted through kelvin since their scales
+ * have different zero points. US customary volumes are used unless the imperial unit is named.
+ */
+
+interface Unit {
+    quantity: string;
+    // Base units per unit
+    factor: number;
+    // Temperatures only: kelvin = value * factor + offset
+    offset?: number;
+}
+
+// Unit names as written by people and models; matched case-insensitively
+const UNIT_TABLE: Record<string, [factor: number, aliases: string[]]> = {
+    // length (metre)
+    'length:m': [1, ['m', 'meter', 'meters', 'metre', 'metres']],
+    'length:km': [1000, ['km', 'kilometer', 'kilometers', 'kilometre', 'kilometres']],
+    'length:cm': [0.01, ['cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres']],
+    'length:mm': [0.001, ['mm', 'millimeter', 'millimeters', 'millimetre', 'millimetres']],
+    'length:um': [1e-6, ['um', 'µm', 'micrometer', 'micrometers', 'micron', 'microns']],
+    'length:nm': [1e-9, ['nm', 'nanometer', 'nanometers']],
+    'length:mi': [1609.344, ['mi', 'mile', 'miles']],
+    'length:yd': [0.9144, ['yd', 'yard', 'yards']],
+    'length:ft': [0.3048, ['ft', 'foot', 'feet']],
+    'length:in': [0.0254, ['in', 'inch', 'inches']],
+    'length:nmi': [1852, ['nmi', 'nautical mile', 'nautical miles']],
+    'length:au': [149597870700, ['au', 'astronomical unit', 'astronomical units']],
+    'length:ly': [9460730472580800, ['ly', 'light year', 'light years', 'light-year', 'light-years']],
+    // mass (kilogram)
+    'mass:kg': [1, ['kg', 'kilogram', 'kilograms', 'kilo', 'kilos']],
+    'mass:g': [0.001, ['g', 'gram', 'grams']],
+    'mass:mg': [1e-6, ['mg', 'milligram', 'milligrams']],
+    'mass:ug': [1e-9, ['ug', 'µg', 'microgram', 'micrograms']],
+    'mass:t': [1000, ['t', 'tonne', 'tonnes', 'metric ton', 'metric tons']],
+    'mass:lb': [0.45359237, ['lb', 'lbs', 'pound', 'pounds']],
+    'mass:oz': [0.028349523125, ['oz', 'ounce', 'ounces']],
+    'mass:st': [6.35029318, ['st', 'stone', 'stones']],
+    'mass:ton': [907.18474, ['ton', 'tons', 'short ton', 'short tons']],
+    // volume (litre)
+    'volume:l': [1, ['l', 'liter', 'liters', 'litre', 'litres']],
+    'volume:ml': [0.001, ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres']],
+    'volume:cl': [0.01, ['cl', 'centiliter', 'centiliters', 'centilitre', 'centilitres']],
+    'volume:dl': [0.1, ['dl', 'deciliter', 'deciliters', 'decilitre', 'decilitres']],
+    'volume:m3': [1000, ['m3', 'm³', 'cubic meter', 'cubic meters', 'cubic metre', 'cubic metres']],
+    'volume:cm3': [0.001, ['cm3', 'cm³', 'cc', 'cubic centimeter', 'cubic centimeters']],
+    'volume:gal': [3.785411784, ['gal', 'gallon', 'gallons', 'us gallon', 'us gallons']],
+    'volume:impgal': [4.54609, ['imperial gallon', 'imperial gallons', 'imp gal', 'uk gallon', 'uk gallons']],
+    'volume:qt': [0.946352946, ['qt', 'quart', 'quarts']],
+    'volume:pt': [0.473176473, ['pt', 'pint', 'pints', 'us pint', 'us pints']],
+    'volume:imppt': [0.56826125, ['imperial pint', 'imperial pints', 'uk pint', 'uk pints']],
+    'volume:cup': [0.2365882365, ['cup', 'cups']],
+    'volume:floz': [0.0295735295625, ['fl oz', 'floz', 'fluid ounce', 'fluid ounces']],
+    'volume:tbsp': [0.01478676478125, ['tbsp', 'tablespoon', 'tablespoons']],
+    'volume:tsp': [0.00492892159375, ['tsp', 'teaspoon', 'teaspoons']],
+    // area (square metre)
+    'area:m2': [1, ['m2', 'm²', 'sq m', 'square meter', 'square meters', 'square metre', 'square metres']],
+    'area:km2': [1e6, ['km2', 'km²', 'sq km', 'square kilometer', 'square kilometers', 'square kilometre', 'square kilometres']],
+    'area:cm2': [1e-4, ['cm2', 'cm²', 'square centimeter', 'square centimeters']],
+    'area:ha': [1e4, ['ha', 'hectare', 'hectares']],
+    'area:acre': [4046.8564224, ['acre', 'acres', 'ac']],
+    'area:ft2': [0.09290304, ['ft2', 'ft²', 'sq ft', 'square foot', 'square feet']],
+    'area:in2': [0.00064516, ['in2', 'in²', 'sq in', 'square inch', 'square inches']],
+    'area:yd2': [0.83612736, ['yd2', 'yd²', 'sq yd', 'square yard', 'square yards']],
+    'area:mi2': [2589988.110336, ['mi2', 'mi²', 'sq mi', 'square mile', 'square miles']],
+    // speed (metre per second)
+    'speed:mps': [1, ['m/s', 'mps', 'meters per second', 'metres per second']],
+    'speed:kmh': [1000 / 3600, ['km/h', 'kmh', 'kph', 'kilometers per hour', 'kilometres per hour']],
+    'speed:mph': [0.44704, ['mph', 'mi/h', 'miles per hour']],
+    'speed:kn': [1852 / 3600, ['kn', 'kt', 'knot', 'knots']],
+    'speed:fps': [0.3048, ['ft/s', 'fps', 'feet per second']],
+    // time (second)
+    'time:s': [1, ['s', 'sec', 'secs', 'second', 'seconds']],
+    'time:ms': [0.001, ['ms', 'millisecond', 'milliseconds']],
+    'time:min': [60, ['min', 'mins', 'minute', 'minutes']],
+    'time:h': [3600, ['h', 'hr', 'hrs', 'hour', 'hours']],
+    'time:d': [86400, ['d', 'day', 'days']],
+    'time:wk': [604800, ['wk', 'week', 'weeks']],
+    'time:yr': [31557600, ['yr', 'year', 'years']], // Julian year (365.25 days)
+    // data (byte)
+    'data:b': [1, ['b', 'byte', 'bytes']],
+    'data:bit': [0.125, ['bit', 'bits']],
+    'data:kb': [1e3, ['kb', 'kilobyte', 'kilobytes']],
+    'data:mb': [1e6, ['mb', 'megabyte', 'megabytes']],
+    'data:gb': [1e9, ['gb', 'gigabyte', 'gigabytes']],
+    'data:tb': [1e12, ['tb', 'terabyte', 'terabytes']],
+    'data:kib': [1024, ['kib', 'kibibyte', 'kibibytes']],
+    'data:mib': [1024 ** 2, ['mib', 'mebibyte', 'mebibytes']],
+    'data:gib': [1024 ** 3, ['gib', 'gibibyte', 'gibibytes']],
+    'data:tib': [1024 ** 4, ['tib', 'tebibyte', 'tebibytes']],
+    // energy (joule)
+    'energy:j': [1, ['j', 'joule', 'joules']],
+    'energy:kj': [1000, ['kj', 'kilojoule', 'kilojoules']],
+    'energy:cal': [4.184, ['cal', 'calorie', 'calories']],
+    'energy:kcal': [4184, ['kcal', 'kilocalorie', 'kilocalories']],
+    'energy:wh': [3600, ['wh', 'watt hour', 'watt hours']],
+    'energy:kwh': [3.6e6, ['kwh', 'kilowatt hour', 'kilowatt hours']],
+    'energy:btu': [1055.05585262, ['btu', 'btus']],
+    'energy:ev': [1.602176634e-19, ['ev', 'electronvolt', 'electronvolts']],
+    // pressure (pascal)
+    'pressure:pa': [1, ['pa', 'pascal', 'pascals']],
+    'pressure:kpa': [1000, ['kpa', 'kilopascal', 'kilopascals']],
+    'pressure:hpa': [100, ['hpa', 'hectopascal', 'hectopascals', 'mbar', 'millibar', 'millibars']],
+    'pressure:bar': [1e5, ['bar', 'bars']],
+    'pressure:atm': [101325, ['atm', 'atmosphere', 'atmospheres']],
+    'pressure:psi': [6894.757293168, ['psi']],
+    'pressure:mmhg': [133.322387415, ['mmhg', 'torr']],
+};
+
+// Kelvin = value * factor + offset
+const TEMPERATURES: Record<string, [factor: number, offset: number, aliases: string[]]> = {
+    k: [1, 0, ['k', 'kelvin', 'kelvins']],
+    c: [1, 273.15, ['c', '°c', 'celsius', 'degc', 'degrees celsius', 'centigrade']],
+    f: [5 / 9, 273.15 - 32 * 5 / 9, ['f', '°f', 'fahrenheit', 'degf', 'degrees fahrenheit']],
+};
+
+const UNITS = new Map<string, Unit>();
+for (const [key, [factor, aliases]] of Object.entries(UNIT_TABLE)) {
+    const quantity = key.split(':')[0];
+    for (const alias of aliases) UNITS.set(alias, { quantity, factor });
+}
+for (const [factor, offset, aliases] of Object.values(TEMPERATURES)) {
+    for (const alias of aliases) UNITS.set(alias, { quantity: 'temperature', factor, offset });
+}
+
+function findUnit(name: string, field: string): Unit {
+    const unit = UNITS.get(name.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^degrees? (?=[cf]$)/, ''));
+    if (!unit) throw new ToolError(`Unknown unit "${name}" in "${field}".`);
+    return unit;
+}
+
+export const unitConversionTool: Tool = {
+    declaration: {
+        name: 'convert_units',
+        description: 'Converts a value between units of length, mass, volume (US customary unless "imperial" is named), area, speed, time, data size, energy, pressure or temperature. Use it instead of converting yourself.',
+        parameters: {
+            type: 'object',
+            properties: {
+                value: { type: 'number', description: 'The value to convert.' },
+                from: { type: 'string', description: 'Unit of the value, e.g. "mi", "lb", "°F", "cups", "kWh".' },
+                to: { type: 'string', description: 'Unit to convert to, e.g. "km", "kg", "celsius", "ml", "kJ".' },
+            },
+            required: ['value', 'from', 'to'],
+        },
+    },
+
+    async run(args) {
+        const value = readNumber(args, 'value');
+        const from = readString(args, 'from');
+        const to = readString(args, 'to');
+        const source = findUnit(from, 'from');
+        const target = findUnit(to, 'to');
+        if (source.quantity !== target.quantity) {
+            throw new ToolError(`Cannot convert ${source.quantity} ("${from}") to ${target.quantity} ("${to}").`);
+        }
+
+        const base = value * source.factor + (source.offset || 0);
+        const result = (base - (target.offset || 0)) / target.factor;
+        if (source.quantity === 'temperature' && base < 0) throw new ToolError('The temperature is below absolute zero.');
+        return { value, from, to, quantity: source.quantity, result: Number(result.toPrecision(12)) };
+    },
+};
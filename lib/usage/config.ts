@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDataDir } from '../dataDir';
+import { readEnvNumber } from '../env';
+
+/**
+ * Usage limits. A value of 0 disables that limit.
+ *
+ * Defaults for every user come from env (RATE_LIMIT_CHAT_PER_MINUTE, RATE_LIMIT_IMAGE_PER_MINUTE,
+ * QUOTA_CHAT_PER_DAY, QUOTA_TOKENS_PER_DAY, QUOTA_IMAGES_PER_DAY; RATE_LIMIT_SIGNIN_FAILURES for sign-in). The optional limits file
+ * (USAGE_LIMITS_FILE, default `<DATA_DIR>/limits.json`) can override them:
+ *
+ *   {
+ *     "default": { "tokensPerDay": 200000 },          // every user
+ *     "users":   { "alice": { "imagesPerDay": 200 } }, // individual users
+ *     "global":  { "tokensPerDay": 2000000 }           // all users combined
+ *   }
+ */
+export interface UsageLimits {
+    chatRequestsPerMinute: number;
+    imageRequestsPerMinute: number;
+    chatRequestsPerDay: number;
+    tokensPerDay: number;
+    imagesPerDay: number;
+}
+
+interface LimitsFile {
+    default?: Partial<UsageLimits>;
+    users?: Record<string, Partial<UsageLimits>>;
+    global?: Partial<UsageLimits>;
+}
+
+const UNLIMITED: UsageLimits = {
+    chatRequestsPerMinute: 0,
+    imageRequestsPerMinute: 0,
+    chatRequestsPerDay: 0,
+    tokensPerDay: 0,
+    imagesPerDay: 0,
+};
+
+function envDefaults(): UsageLimits {
+    return {
+        chatRequestsPerMinute: readEnvNumber('RATE_LIMIT_CHAT_PER_MINUTE', 20),
+        imageRequestsPerMinute: readEnvNumber('RATE_LIMIT_IMAGE_PER_MINUTE', 5),
+        chatRequestsPerDay: readEnvNumber('QUOTA_CHAT_PER_DAY', 500),
+        tokensPerDay: readEnvNumber('QUOTA_TOKENS_PER_DAY', 1000000),
+        imagesPerDay: readEnvNumber('QUOTA_IMAGES_PER_DAY', 50),
+    };
+}
+
+// Failed sign-ins per client IP and per username within SIGNIN_WINDOW_MS (lib/usage/index.ts)
+export function getSignInFailureLimit(): number {
+    return readEnvNumber('RATE_LIMIT_SIGNIN_FAILURES', 10);
+}
+
+async function loadLimitsFile(): Promise<LimitsFile> {
+    const file = process.env.USAGE_LIMITS_FILE || path.join(getDataDir(), 'limits.json');
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8')) as LimitsFile;
+    } catch (e: unknown) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return {};
+        throw e;
+    }
+}
+
+export async function getUserLimits(userId: string): Promise<UsageLimits> {
+    const file = await loadLimitsFile();
+    return { ...envDefaults(), ...file.default, ...file.users?.[userId] };
+}
+
+// Global (all users combined) limits are opt-in through the limits file only
+export async function getGlobalLimits(): Promise<UsageLimits> {
+    const file = await loadLimitsFile();
+    return { ...UNLIMITED, ...file.global };
+}
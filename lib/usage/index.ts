@@ -0,0 +1,286 @@
+import path from 'path';
+import { NextResponse } from 'next/server';
+import type { ApiErrorResponse } from '../apiErrors';
+import { getDataDir } from '../dataDir';
+import { readJson, writeAtomic } from '../fileStorage';
+import { UsageLimits, getGlobalLimits, getSignInFailureLimit, getUserLimits } from './config';
+import { log } from '../observability';
+
+export type { UsageLimits } from './config';
+
+/**
+ * Per-user and global usage accounting for the API routes.
+ *
+ * Per-minute rate limits use an in-memory sliding window. Daily counters (UTC days) are kept in
+ * `<DATA_DIR>/usage/<YYYY-MM-DD>.json` so quotas survive a server restart.
+ */
+
+export type UsageKind = 'chat' | 'image';
+
+export interface DailyUsage {
+    chatRequests: number;
+    tokens: number;
+    images: number;
+}
+
+interface DailyUsageFile {
+    users: Record<string, DailyUsage>;
+    global: DailyUsage;
+}
+
+export type LimitCheck =
+    | { allowed: true }
+    | { allowed: false; code: 'rate_limited' | 'quota_exceeded'; message: string; retryAfterSeconds: number };
+
+const WINDOW_MS = 60 * 1000;
+const GLOBAL_KEY = '*';
+
+// --- Per-minute sliding windows (timestamps of recent requests per user/kind) ---
+
+const recentRequests = new Map<string, number[]>();
+
+function pruneWindow(key: string, now: number): number[] {
+    const timestamps = (recentRequests.get(key) || []).filter(timestamp => now - timestamp < WINDOW_MS);
+    recentRequests.set(key, timestamps);
+    return timestamps;
+}
+
+// --- Daily counters ---
+
+const emptyUsage = (): DailyUsage => ({ chatRequests: 0, tokens: 0, images: 0 });
+
+function todayKey(now = new Date()): string {
+    return now.toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight(now = new Date()): number {
+    const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    return Math.max(1, Math.ceil((midnight - now.getTime()) / 1000));
+}
+
+let cachedDay: { key: string; data: DailyUsageFile } | undefined;
+// Serializes read-modify-write cycles on the daily file within this process
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function usageFile(day: string): string {
+    return path.join(getDataDir(), 'usage', `${day}.json`);
+}
+
+async function loadDay(day: string): Promise<DailyUsageFile> {
+    if (cachedDay?.key === day) return cachedDay.data;
+    let data: DailyUsageFile | null;
+    try {
+        data = await readJson<DailyUsageFile>(usageFile(day));
+    } catch (e: unknown) {
+        // A damaged file must not fail every chat and image request for the rest of the day; the counts start over
+        if (!(e instanceof SyntaxError)) throw e;
+        log.error("Usage File Unreadable", { file: usageFile(day), error: e.message });
+        data = null;
+    }
+    data ||= { users: {}, global: emptyUsage() };
+    cachedDay = { key: day, data };
+    return data;
+}
+
+// `mutate` runs synchronously on the current counts, so a check made inside it sees every earlier update
+function updateDay<T>(mutate: (data: DailyUsageFile) => T): Promise<T> {
+    const run = writeQueue.then(async () => {
+        const day = todayKey();
+        const data = await loadDay(day);
+        const result = mutate(data);
+        await writeAtomic(usageFile(day), JSON.stringify(data));
+        return result;
+    });
+    // Keep the queue alive even if one write fails
+    writeQueue = run.catch(error => log.error("Usage Write Error", { error }));
+    return run;
+}
+
+function applyUsage(data: DailyUsageFile, userId: string, delta: Partial<DailyUsage>): void {
+    const user = data.users[userId] ||= emptyUsage();
+    for (const target of [user, data.global]) {
+        target.chatRequests += delta.chatRequests || 0;
+        target.tokens += delta.tokens || 0;
+        target.images = Math.max(0, target.images + (delta.images || 0));
+    }
+}
+
+async function addUsage(userId: string, delta: Partial<DailyUsage>): Promise<void> {
+    await updateDay(data => applyUsage(data, userId, delta));
+}
+
+// `images` is the number of images the request asks for; chat requests and tokens count what was already used
+function checkDaily(used: DailyUsage, limits: UsageLimits, kind: UsageKind, images: number, scope: string): LimitCheck {
+    const exceeded = (limit: number, value: number) => limit > 0 && value >= limit;
+    const quotaError = (what: string): LimitCheck => ({
+        allowed: false,
+        code: 'quota_exceeded',
+        message: `${scope} daily ${what} quota has been reached. It resets at midnight UTC.`,
+        retryAfterSeconds: secondsUntilUtcMidnight(),
+    });
+
+    if (kind === 'chat') {
+        if (exceeded(limits.chatRequestsPerDay, used.chatRequests)) return quotaError('chat request');
+        if (exceeded(limits.tokensPerDay, used.tokens)) return quotaError('token');
+    } else if (limits.imagesPerDay > 0 && used.images + images > limits.imagesPerDay) {
+        return quotaError('image generation');
+    }
+    return { allowed: true };
+}
+
+function checkRate(key: string, limit: number, now: number, scope: string): LimitCheck {
+    if (limit <= 0) return { allowed: true };
+    const timestamps = pruneWindow(key, now);
+    if (timestamps.length < limit) return { allowed: true };
+    return {
+        allowed: false,
+        code: 'rate_limited',
+        message: `${scope} rate limit of ${limit} requests per minute reached.`,
+        retryAfterSeconds: Math.max(1, Math.ceil((timestamps[0] + WINDOW_MS - now) / 1000)),
+    };
+}
+
+// The first limit a request of `kind` would exceed, if any
+function findExceeded(
+    day: DailyUsageFile, userId: string, kind: UsageKind, images: number, userLimits: UsageLimits, globalLimits: UsageLimits,
+    now: number,
+): LimitCheck | undefined {
+    const perMinute = (limits: UsageLimits) => kind === 'chat' ? limits.chatRequestsPerMinute : limits.imageRequestsPerMinute;
+    const checks = [
+        checkRate(`${userId}:${kind}`, perMinute(userLimits), now, 'Your'),
+        checkRate(`${GLOBAL_KEY}:${kind}`, perMinute(globalLimits), now, 'The server-wide'),
+        checkDaily(day.users[userId] || emptyUsage(), userLimits, kind, images, 'Your'),
+        checkDaily(day.global, globalLimits, kind, images, 'The server-wide'),
+    ];
+    return checks.find(check => !check.allowed);
+}
+
+/**
+ * Checks every per-user and global limit for one request of `kind` and, if all pass, counts it. The check and
+ * the count happen in one step of the daily file's queue, so concurrent requests cannot pass the same quota
+ * together. Token quotas are checked against what has already been used and the actual amounts are recorded
+ * afterwards with `recordTokens`; image requests reserve `images` right away and give back what they did not
+ * produce with `releaseImages`.
+ */
+export async function checkAndConsume(userId: string, kind: UsageKind, images = 1): Promise<LimitCheck> {
+    const [userLimits, globalLimits] = await Promise.all([getUserLimits(userId), getGlobalLimits()]);
+
+    return updateDay(day => {
+        const now = Date.now();
+        const failed = findExceeded(day, userId, kind, images, userLimits, globalLimits, now);
+        if (failed) return failed;
+
+        for (const key of [`${userId}:${kind}`, `${GLOBAL_KEY}:${kind}`]) {
+            pruneWindow(key, now).push(now);
+        }
+        applyUsage(day, userId, kind === 'chat' ? { chatRequests: 1 } : { images });
+        return { allowed: true };
+    });
+}
+
+/**
+ * The same checks without counting anything, for routes that must know a later request of `kind` can go
+ * through before they spend anything else on it (`/api/background` before it asks the chat model for a scene).
+ */
+export async function checkLimit(userId: string, kind: UsageKind, images = 1): Promise<LimitCheck> {
+    const [userLimits, globalLimits, day] = await Promise.all([getUserLimits(userId), getGlobalLimits(), loadDay(todayKey())]);
+    return findExceeded(day, userId, kind, images, userLimits, globalLimits, Date.now()) || { allowed: true };
+}
+
+// --- Failed sign-ins (per client IP and per username, in memory) ---
+
+const SIGNIN_WINDOW_MS = 15 * 60 * 1000;
+const failedSignIns = new Map<string, number[]>();
+
+// Keys without recent failures are dropped, so guessed usernames do not pile up
+function recentFailures(key: string, now: number): number[] {
+    const timestamps = (failedSignIns.get(key) || []).filter(timestamp => now - timestamp < SIGNIN_WINDOW_MS);
+    if (timestamps.length) failedSignIns.set(key, timestamps);
+    else failedSignIns.delete(key);
+    return timestamps;
+}
+
+const signInKeys = (ip: string, username: string) => [`ip:${ip}`, `user:${username}`];
+
+// Keys that are never tried again would otherwise stay, so the whole map is pruned once per window
+let lastSignInSweep = 0;
+
+function sweepFailedSignIns(now: number): void {
+    if (now - lastSignInSweep < SIGNIN_WINDOW_MS) return;
+    lastSignInSweep = now;
+    for (const key of [...failedSignIns.keys()]) recentFailures(key, now);
+}
+
+/**
+ * Refuses a sign-in once the client IP or the username has failed RATE_LIMIT_SIGNIN_FAILURES times in the last
+ * 15 minutes. Only failures count (`recordSignInFailure`), so signing in correctly is never throttled by itself.
+ */
+export function checkSignIn(ip: string, username: string): LimitCheck {
+    const limit = getSignInFailureLimit();
+    if (limit <= 0) return { allowed: true };
+    const now = Date.now();
+    for (const key of signInKeys(ip, username)) {
+        const failures = recentFailures(key, now);
+        if (failures.length >= limit) {
+            return {
+                allowed: false,
+                code: 'rate_limited',
+                message: "Too many failed sign-in attempts. Try again later.",
+                retryAfterSeconds: Math.max(1, Math.ceil((failures[0] + SIGNIN_WINDOW_MS - now) / 1000)),
+            };
+        }
+    }
+    return { allowed: true };
+}
+
+export function recordSignInFailure(ip: string, username: string): void {
+    const now = Date.now();
+    sweepFailedSignIns(now);
+    for (const key of signInKeys(ip, username)) {
+        failedSignIns.set(key, [...recentFailures(key, now), now]);
+    }
+}
+
+export async function recordTokens(userId: string, tokens: number): Promise<void> {
+    if (tokens > 0) await addUsage(userId, { tokens });
+}
+
+// Reserved by `checkAndConsume` but not produced: fewer images than requested, or a failed call
+export async function releaseImages(userId: string, count: number): Promise<void> {
+    if (count > 0) await addUsage(userId, { images: -count });
+}
+
+export interface UsageReport {
+    limits: UsageLimits;
+    used: DailyUsage;
+    // null when the corresponding limit is disabled
+    remaining: { chatRequests: number | null; tokens: number | null; images: number | null };
+    resetsAt: string;
+}
+
+export async function getUsageReport(userId: string): Promise<UsageReport> {
+    const limits = await getUserLimits(userId);
+    const used = (await loadDay(todayKey())).users[userId] || emptyUsage();
+    const remaining = (limit: number, value: number) => limit > 0 ? Math.max(0, limit - value) : null;
+
+    return {
+        limits,
+        used,
+        remaining: {
+            chatRequests: remaining(limits.chatRequestsPerDay, used.chatRequests),
+            tokens: remaining(limits.tokensPerDay, used.tokens),
+            images: remaining(limits.imagesPerDay, used.images),
+        },
+        resetsAt: new Date(Date.now() + secondsUntilUtcMidnight() * 1000).toISOString(),
+    };
+}
+
+/**
+ * 429 response for a failed `checkAndConsume`, with `Retry-After` set.
+ */
+export function limitExceededResponse(check: Extract<LimitCheck, { allowed: false }>): NextResponse<ApiErrorResponse> {
+    return NextResponse.json<ApiErrorResponse>(
+        { error: { code: check.code, message: check.message, retryAfterSeconds: check.retryAfterSeconds } },
+        { status: 429, headers: { 'Retry-After': String(check.retryAfterSeconds) } }
+    );
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import type { ApiErrorResponse } from '@/lib/apiErrors';
+import { REQUEST_ID_HEADER, resolveRequestId } from '@/lib/observability/requestId';
+import {
+    API_CONTENT_SECURITY_POLICY, MAX_API_BODY_BYTES, createNonce, isAllowedOrigin, isBodyTooLarge,
+    pageContentSecurityPolicy,
+} from '@/lib/security';
+
+// Routes that must stay reachable without a session (health is polled by load balancers and monitors too;
+// metrics are scraped with their own token)
+const PUBLIC_API_PATHS = ['/api/auth/signin', '/api/auth/signout', '/api/auth/session', '/api/health', '/api/metrics'];
+
+const errorResponse = (code: ApiErrorResponse['error']['code'], message: string, status: number) =>
+    NextResponse.json<ApiErrorResponse>({ error: { code, message } }, { status });
+
+// Origin and declared-size checks come before the session check, so cross-site requests and bodies declared too
+// large never reach a handler (the routes count the bytes of the bodies they read)
+async function checkApiRequest(request: NextRequest): Promise<NextResponse | null> {
+    if (!isAllowedOrigin(request)) {
+        return errorResponse('forbidden', "Cross-origin requests are not allowed.", 403);
+    }
+    if (isBodyTooLarge(request)) {
+        return errorResponse('payload_too_large', `Request body exceeds ${Math.floor(MAX_API_BODY_BYTES / 1024)} KB.`, 413);
+    }
+    if (!PUBLIC_API_PATHS.includes(request.nextUrl.pathname) && !await getSessionUser(request)) {
+        return errorResponse('unauthorized', "Authentication required.", 401);
+    }
+    return null;
+}
+
+/**
+ * Assigns the request ID (see lib/observability/requestId.ts), rejects cross-origin, oversized and
+ * unauthenticated calls to the API routes before they reach a handler (and before they can spend any upstream
+ * model quota), and sets the Content-Security-Policy (lib/security.ts).
+ */
+export async function middleware(request: NextRequest) {
+    const requestId = resolveRequestId(request.headers);
+    const headers = new Headers(request.headers);
+    headers.set(REQUEST_ID_HEADER, requestId);
+
+    let response: NextResponse;
+    if (request.nextUrl.pathname.startsWith('/api/')) {
+        response = await checkApiRequest(request) || NextResponse.next({ request: { headers } });
+        response.headers.set('Content-Security-Policy', API_CONTENT_SECURITY_POLICY);
+    } else {
+        // Next reads the nonce from the request's policy and puts it on the scripts it renders
+        const policy = pageContentSecurityPolicy(createNonce());
+        headers.set('Content-Security-Policy', policy);
+        response = NextResponse.next({ request: { headers } });
+        response.headers.set('Content-Security-Policy', policy);
+    }
+    response.headers.set('X-Content-Type-Options', 'nosniff');
+    response.headers.set('X-Request-Id', requestId);
+    return response;
+}
+
+export const config = {
+    // Everything but the build's static files, which carry no policy of their own
+    matcher: '/((?!_next/static|_next/image|favicon.ico).*)',
+};
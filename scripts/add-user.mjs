@@ -0,0 +1,77 @@
+// Adds or updates a user in the local credential store used by /api/auth/signin.
+// Usage: npm run add-user -- <username> [display name]
+// The password is read from stdin, never from the command line (where `ps` and the shell history would show it):
+// typed at a hidden prompt, or piped, e.g. `printf '%s' "$PASSWORD" | npm run add-user -- alice`.
+import { randomBytes, scryptSync } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+const [username, ...displayNameParts] = process.argv.slice(2);
+
+if (!username) {
+    console.error('Usage: npm run add-user -- <username> [display name]   (password on stdin)');
+    process.exit(1);
+}
+
+// Piped input: the first line. Terminal: a prompt that does not echo what is typed.
+async function readPassword() {
+    const { stdin, stdout } = process;
+    if (!stdin.isTTY) {
+        let input = '';
+        for await (const chunk of stdin) input += chunk;
+        return input.split(/\r?\n/)[0];
+    }
+    stdout.write('Password: ');
+    stdin.setRawMode(true);
+    stdin.setEncoding('utf8');
+    return new Promise(resolve => {
+        let password = '';
+        const onData = (chunk) => {
+            for (const char of chunk) {
+                if (char === '\r' || char === '\n' || char === '\u0004') {
+                    stdin.setRawMode(false);
+                    stdin.off('data', onData);
+                    stdin.pause();
+                    stdout.write('\n');
+                    resolve(password);
+                    return;
+                }
+                if (char === '\u0003') { // Ctrl+C
+                    stdin.setRawMode(false);
+                    stdout.write('\n');
+                    process.exit(130);
+                }
+                password = char === '\u007f' ? password.slice(0, -1) : password + char;
+            }
+        };
+        stdin.on('data', onData);
+    });
+}
+
+const password = await readPassword();
+if (!password) {
+    console.error('No password given.');
+    process.exit(1);
+}
+
+const usersFile = process.env.AUTH_USERS_FILE || path.join(process.env.DATA_DIR || path.join(process.cwd(), 'data'), 'users.json');
+
+let users = [];
+try {
+    users = JSON.parse(readFileSync(usersFile, 'utf8'));
+} catch (e) {
+    if (e.code !== 'ENOENT') throw e;
+}
+
+const salt = randomBytes(16);
+const hash = scryptSync(password, salt, 64);
+const entry = {
+    username,
+    displayName: displayNameParts.join(' ') || undefined,
+    passwordHash: `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`,
+};
+
+users = [...users.filter(user => user.username !== username), entry];
+mkdirSync(path.dirname(usersFile), { recursive: true });
+writeFileSync(usersFile, JSON.stringify(users, null, 2));
+console.log(`Saved user "${username}" to ${usersFile}`);
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { readJsonBody } from '@/lib/apiResponse';
+
+// A streamed body without Content-Length, as a chunked upload sends it; `pulled` counts the chunks read from it
+function chunkedRequest(chunk: string, count: number) {
+    const state = { pulled: 0 };
+    const bytes = new TextEncoder().encode(chunk);
+    const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+            if (state.pulled++ >= count) controller.close();
+            else controller.enqueue(bytes);
+        },
+    });
+    const request = new NextRequest('http://localhost:3000/api/chat', { method: 'POST', body, duplex: 'half' } as ConstructorParameters<typeof NextRequest>[1]);
+    return { request, state };
+}
+
+describe('readJsonBody', () => {
+    it('parses a chunked body within the limit', async () => {
+        const { request } = chunkedRequest('{"a":1}', 1);
+        expect(request.headers.get('content-length')).toBeNull();
+        expect(await readJsonBody(request, 1024)).toEqual({ ok: true, body: { a: 1 } });
+    });
+
+    it('stops reading a chunked body once it passes the limit', async () => {
+        const { request, state } = chunkedRequest('x'.repeat(1024), 10000);
+        const result = await readJsonBody(request, 4 * 1024);
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.response.status).toBe(413);
+        expect(state.pulled).toBeLessThan(10);
+    });
+
+    it('refuses a declared Content-Length over the limit without reading', async () => {
+        const request = new NextRequest('http://localhost:3000/api/chat', {
+            method: 'POST', body: '{}', headers: { 'Content-Length': String(1024 * 1024) },
+        });
+        const result = await readJsonBody(request, 1024);
+        expect(result.ok).toBe(false);
+    });
+});
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/attachments/route';
+import { SESSION_COOKIE, createSessionToken } from '@/lib/auth/session';
+import { MAX_ATTACHMENT_BYTES } from '@/lib/attachmentApi';
+import { TEST_USER, apiRequest } from './helpers';
+
+const noParams = { params: Promise.resolve({}) };
+const PNG = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=', 'base64');
+
+function upload(name: string, type: string, bytes: Buffer) {
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(bytes)], { type }), name);
+    return apiRequest('/api/attachments', { method: 'POST', body: form });
+}
+
+describe('POST /api/attachments', () => {
+    it('stores an image', async () => {
+        const response = await POST(await upload('dot.png', 'image/png', PNG), noParams);
+        expect(response.status).toBe(201);
+        expect(await response.json()).toMatchObject({ name: 'dot.png', mimeType: 'image/png' });
+    });
+
+    it('stops reading a chunked upload without Content-Length once it passes the limit', async () => {
+        const chunk = new Uint8Array(1024 * 1024);
+        let pulled = 0;
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                if (pulled++ >= 64) controller.close();
+                else controller.enqueue(chunk);
+            },
+        });
+        const request = new NextRequest('http://localhost:3000/api/attachments', {
+            method: 'POST',
+            body,
+            duplex: 'half',
+            headers: { 'Content-Type': 'multipart/form-data; boundary=x', Cookie: `${SESSION_COOKIE}=${await createSessionToken(TEST_USER)}` },
+        } as ConstructorParameters<typeof NextRequest>[1]);
+
+        const response = await POST(request, noParams);
+        expect(response.status).toBe(413);
+        expect(pulled).toBeLessThanOrEqual(MAX_ATTACHMENT_BYTES / chunk.length + 2);
+    });
+
+    it('refuses content that does not match the type', async () => {
+        const response = await POST(await upload('notes.png', 'image/png', Buffer.from('just text')), noParams);
+        expect(response.status).toBe(415);
+    });
+});
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { calculatorTool } from '@/lib/tools/calculator';
+
+const calculate = (expression: string) => calculatorTool.run({ expression }, { messages: [], signal: AbortSignal.timeout(5000) });
+
+describe('calculate', () => {
+    it('evaluates functions and constants', async () => {
+        expect(await calculate('round(2 * pi, 2) + max(1, 3)')).toMatchObject({ result: 9.28 });
+    });
+
+    it('does not resolve names inherited from Object.prototype', async () => {
+        await expect(calculate('constructor(1)')).rejects.toThrow('Unknown function "constructor"');
+        await expect(calculate('constructor + 1')).rejects.toThrow('Unknown name "constructor"');
+        await expect(calculate('__proto__')).rejects.toThrow('Unknown name "__proto__"');
+    });
+});
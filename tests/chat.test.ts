@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/chat/route';
+import { getUsageReport } from '@/lib/usage';
+import { TEST_USER, jsonRequest, readEvents } from './helpers';
+
+const REPLAYED_DEFAULT = 'This reply was replayed from fixtures/upstream.';
+
+const ask = (content: string, stream = false) =>
+    jsonRequest(`/api/chat${stream ? '?stream=true' : ''}`, { messages: [{ role: 'user', content }] });
+
+describe('POST /api/chat (replay)', () => {
+    it('streams the default reply as delta events followed by done', async () => {
+        const response = await POST(await ask('Hello there', true), { params: Promise.resolve({}) });
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+
+        const events = await readEvents(response);
+        const deltas = events.filter(event => event.event === 'delta');
+        expect(deltas.length).toBe(3);
+        expect(deltas.map(event => event.data.text).join('')).toMatch(new RegExp(`^${REPLAYED_DEFAULT}`));
+
+        const done = events[events.length - 1];
+        expect(done.event).toBe('done');
+        expect(done.data.response).toMatchObject({ finish: { state: 'complete' }, usage: { totalTokens: 30 }, context: { tokenBudget: expect.any(Number) } });
+    });
+
+    it('answers without streaming as JSON and counts the request and its tokens', async () => {
+        const before = { ...(await getUsageReport(TEST_USER.id)).used };
+        const response = await POST(await ask('Hello again'), { params: Promise.resolve({}) });
+        expect(response.status).toBe(200);
+        const reply = await response.json();
+        expect(reply.text).toMatch(new RegExp(`^${REPLAYED_DEFAULT}`));
+
+        const after = await getUsageReport(TEST_USER.id);
+        expect(after.used.chatRequests).toBe(before.chatRequests + 1);
+        expect(after.used.tokens).toBe(before.tokens + 30);
+    });
+
+    it('retries a rate-limited attempt and returns the reply of the retry', async () => {
+        const response = await POST(await ask('Busy? [429]'), { params: Promise.resolve({}) });
+        expect(response.status).toBe(200);
+        expect((await response.json()).text).toBe('Replayed reply after a rate-limited first attempt.');
+    });
+
+    it('passes an exhausted quota on to the client with its Retry-After', async () => {
+        const response = await POST(await ask('More please [quota]', true), { params: Promise.resolve({}) });
+        expect(response.status).toBe(429);
+        expect(response.headers.get('Retry-After')).toBe('3600');
+        expect((await response.json()).error).toMatchObject({ code: 'quota_exceeded', retryAfterSeconds: 3600 });
+    });
+
+    it('reports a malformed upstream reply once the retries are used up', async () => {
+        const response = await POST(await ask('Broken [malformed]'), { params: Promise.resolve({}) });
+        expect(response.status).toBe(502);
+        expect((await response.json()).error.code).toBe('upstream_malformed');
+    });
+
+    it('returns a blocked prompt as a 200 with its finish state', async () => {
+        const response = await POST(await ask('Something rude [blocked]'), { params: Promise.resolve({}) });
+        expect(response.status).toBe(200);
+        expect((await response.json()).finish).toMatchObject({ state: 'blocked', promptBlocked: true, categories: ['HARM_CATEGORY_HARASSMENT'] });
+    });
+
+    it('marks a reply cut off at the token limit as truncated', async () => {
+        const response = await POST(await ask('A long recipe [truncate]', true), { params: Promise.resolve({}) });
+        const done = (await readEvents(response)).find(event => event.event === 'done');
+        expect(done?.data.response).toMatchObject({ finish: { state: 'truncated' } });
+    });
+
+    it('rejects invalid bodies with one detail per problem', async () => {
+        const response = await POST(await jsonRequest('/api/chat', { messages: [{ role: 'robot', content: 1 }], extra: true }), { params: Promise.resolve({}) });
+        expect(response.status).toBe(400);
+        const { error } = await response.json();
+        expect(error.code).toBe('invalid_request');
+        expect(error.details.map((detail: { path: string }) => detail.path)).toEqual(expect.arrayContaining(['extra', 'messages[0].role', 'messages[0].content']));
+    });
+
+    it('requires a session', async () => {
+        const response = await POST(await jsonRequest('/api/chat', { messages: [{ role: 'user', content: 'Hi' }] }, null), { params: Promise.resolve({}) });
+        expect(response.status).toBe(401);
+    });
+});
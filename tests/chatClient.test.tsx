@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import Page from '@/app/page';
+import { getConversationStore } from '@/lib/conversations';
+import { TEST_USER, routeFetch } from './helpers';
+
+const REPLAYED_DEFAULT = /This reply was replayed from fixtures\/upstream\./;
+const WAIT = { timeout: 5000 };
+
+// The page once the session, personas and health report have loaded
+async function renderSignedIn() {
+    render(<Page />);
+    await screen.findByText(/Signed in as Tester/);
+    const input = screen.getByPlaceholderText<HTMLInputElement>(/Ask your question here/);
+    await vi.waitFor(() => expect(input.disabled).toBe(false));
+    return input;
+}
+
+function send(input: HTMLInputElement, text: string) {
+    fireEvent.change(input, { target: { value: text } });
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+}
+
+describe('ChatClient (replay)', () => {
+    beforeAll(() => {
+        // Requests still running when a test ends (saves, usage, backgrounds) keep reaching the routes
+        vi.stubGlobal('fetch', routeFetch());
+        // Not implemented by jsdom
+        Element.prototype.scrollTo = () => {};
+    });
+
+    afterEach(async () => {
+        // The reply is finished once the Send button is back
+        await screen.findByRole('button', { name: 'Send' }, WAIT);
+        cleanup();
+    });
+
+    afterAll(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('streams the replayed reply into the conversation and saves it', async () => {
+        const input = await renderSignedIn();
+        send(input, 'Hello there');
+
+        expect(await screen.findByText('Hello there')).toBeTruthy();
+        expect(await screen.findByText(REPLAYED_DEFAULT, undefined, WAIT)).toBeTruthy();
+        await vi.waitFor(async () => {
+            const [saved] = await getConversationStore().list(TEST_USER.id);
+            const conversation = saved && await getConversationStore().get(TEST_USER.id, saved.id);
+            expect(conversation?.messages.map(message => message.text)).toEqual(
+                expect.arrayContaining(['Hello there', expect.stringMatching(REPLAYED_DEFAULT)]));
+        }, WAIT);
+    });
+
+    it('shows an upstream quota error with its wait', async () => {
+        const input = await renderSignedIn();
+        send(input, 'More please [quota]');
+
+        expect(await screen.findByText(/Limit reached: Quota exceeded .* Try again in 60 minutes\./, undefined, WAIT)).toBeTruthy();
+    });
+
+    it('explains a prompt blocked by the safety filters', async () => {
+        const input = await renderSignedIn();
+        send(input, 'Something rude [blocked]');
+
+        expect(await screen.findByText(/Your message was blocked by the safety filters/, undefined, WAIT)).toBeTruthy();
+    });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/compare/route';
+import { createFileVoteStore } from '@/lib/compare/fileStore';
+import { apiRequest } from './helpers';
+
+const noParams = { params: Promise.resolve({}) };
+
+describe('GET /api/compare', () => {
+    it('lists the chat model first, configured in replay mode', async () => {
+        const response = await GET(await apiRequest('/api/compare'), noParams);
+        expect(response.status).toBe(200);
+        const { models, maxColumns } = await response.json();
+        expect(models[0]).toMatchObject({ provider: 'gemini', isDefault: true, configured: true });
+        expect(maxColumns).toBeGreaterThanOrEqual(2);
+    });
+
+    it('requires a session', async () => {
+        const response = await GET(await apiRequest('/api/compare', {}, null), noParams);
+        expect(response.status).toBe(401);
+    });
+});
+
+describe('file vote store', () => {
+    it('keeps every line of concurrent votes whole', async () => {
+        const store = createFileVoteStore(process.env.DATA_DIR!);
+        // Long enough that one append takes several writes
+        const text = 'x'.repeat(256 * 1024);
+        await Promise.all(Array.from({ length: 20 }, (_, index) => store.add({
+            id: `vote-${index}`,
+            userId: 'tester',
+            createdAt: new Date().toISOString(),
+            prompt: 'Which is better?',
+            candidates: [{ model: 'a', personaId: 'default', text }, { model: 'b', personaId: 'default', text }],
+            winner: index % 2,
+        })));
+        expect((await store.list()).map(vote => vote.id).sort()).toEqual(Array.from({ length: 20 }, (_, index) => `vote-${index}`).sort());
+    });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { parseConversationPatch } from '@/lib/conversations/validation';
+
+const background = (url: string) => ({
+    background: { current: { url, topic: 'harbour', style: 'fantasy', createdAt: '2026-01-01T00:00:00.000Z' } },
+});
+
+describe('parseConversationPatch background', () => {
+    it('accepts a stored image URL', () => {
+        expect(parseConversationPatch(background(`/api/image/${'a'.repeat(64)}`)).ok).toBe(true);
+    });
+
+    it('refuses anything else under /api/image/, which would be pasted into the page CSS', () => {
+        const result = parseConversationPatch(background('/api/image/x);background:url(https://example.com/track'));
+        expect(result).toMatchObject({ ok: false, details: [{ path: 'background.current.url' }] });
+    });
+});
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchUrlTool } from '@/lib/tools/fetchUrl';
+
+const fetchAny = (url: string) => fetchUrlTool.run({ url }, { messages: [], signal: AbortSignal.timeout(5000) });
+
+describe('fetch_url address checks', () => {
+    // Any URL the model asks for, so the address checks are the only line of defense
+    beforeEach(() => {
+        vi.stubEnv('FETCH_URL_ANY_URL', 'true');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it.each([
+        'http://127.0.0.1/',
+        'http://169.254.169.254/latest/meta-data/',
+        'http://0x7f.1/',
+        'http://[::1]/',
+        'http://[fe80::1]/',
+        'http://[fd00::1]/',
+        // The URL parser turns the dotted forms into hex groups ("[::ffff:a9fe:a9fe]")
+        'http://[::ffff:169.254.169.254]/',
+        'http://[::ffff:127.0.0.1]/',
+        'http://[::ffff:7f00:1]/',
+        'http://[::7f00:1]/',
+        'http://[::127.0.0.1]/',
+        'http://[64:ff9b::a9fe:a9fe]/',
+        'http://[64:ff9b::10.0.0.1]/',
+    ])('refuses %s', async url => {
+        await expect(fetchAny(url)).rejects.toThrow(/is not a public address/);
+    });
+
+    it('checks the addresses a host name resolves to when it connects', async () => {
+        await expect(fetchAny('http://localhost:9/')).rejects.toThrow('"localhost" is not a public address.');
+    });
+});
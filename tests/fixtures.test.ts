@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { flushRecordings, upstreamFetch } from '@/lib/providers/fixtures';
+
+const URL_WITH_KEY = 'https://upstream.test/v1beta/models/test:generateContent?key=secret';
+
+async function recordings(dir: string) {
+    const names = await fs.readdir(path.join(dir, 'recorded')).catch(() => [] as string[]);
+    return Promise.all(names.map(async name => JSON.parse(await fs.readFile(path.join(dir, 'recorded', name), 'utf8'))));
+}
+
+describe('upstreamFetch in record mode', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = path.join(process.env.DATA_DIR!, `fixtures-${Date.now()}`);
+        vi.stubEnv('UPSTREAM_MODE', 'record');
+        vi.stubEnv('UPSTREAM_FIXTURES_DIR', dir);
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+    });
+
+    it('has saved a plain reply by the time it returns, without the key', async () => {
+        vi.stubGlobal('fetch', async () => Response.json({ ok: true }, { headers: { 'X-Upstream-Secret': 'x' } }));
+
+        const response = await upstreamFetch(URL_WITH_KEY, { method: 'POST', body: '{"prompt":"hi"}' });
+        expect(await response.json()).toEqual({ ok: true });
+
+        const [recording] = await recordings(dir);
+        expect(recording.recorded.path).toBe('/v1beta/models/test:generateContent');
+        expect(recording.responses).toEqual([{ status: 200, headers: { 'content-type': 'application/json' }, body: { ok: true } }]);
+    });
+
+    it('saves a streamed reply once it is complete', async () => {
+        const frames = 'data: {"n":1}\r\n\r\ndata: {"n":2}\r\n\r\n';
+        vi.stubGlobal('fetch', async () => new Response(frames, { headers: { 'Content-Type': 'text/event-stream' } }));
+
+        const response = await upstreamFetch(`${URL_WITH_KEY}&alt=sse`, { method: 'POST', body: '{}' });
+        expect(await response.text()).toBe(frames);
+        await flushRecordings();
+
+        const [recording] = await recordings(dir);
+        expect(recording.responses[0].events).toEqual([{ n: 1 }, { n: 2 }]);
+    });
+
+    it('still answers when the recording cannot be written', async () => {
+        // A file where the fixture directory should be
+        await fs.writeFile(dir, '');
+        vi.stubGlobal('fetch', async () => Response.json({ ok: true }));
+
+        const response = await upstreamFetch(URL_WITH_KEY, { method: 'POST', body: '{}' });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ ok: true });
+    });
+});
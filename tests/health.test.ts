@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/health/route';
+import { apiRequest } from './helpers';
+
+describe('GET /api/health', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('names only the kind of a failed probe, never the upstream message', async () => {
+        const dir = path.join(process.env.DATA_DIR!, 'health-fixtures');
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(path.join(dir, 'forbidden.json'), JSON.stringify({
+            match: { method: 'GET' },
+            responses: [{ status: 403, body: { error: { code: 403, message: 'Key AIzaSyD-secret-key-value is not valid for project internal-42.' } } }],
+        }));
+        vi.stubEnv('UPSTREAM_FIXTURES_DIR', dir);
+
+        const response = await GET(await apiRequest('/api/health', {}, null), { params: Promise.resolve({}) });
+        const text = await response.text();
+        expect(JSON.parse(text).chat).toMatchObject({ state: 'unreachable', probe: { reachable: false, error: 'HTTP 403' } });
+        expect(text).not.toContain('secret');
+        expect(text).not.toContain('internal-42');
+    });
+});
@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { SESSION_COOKIE, SessionUser, createSessionToken } from '@/lib/auth/session';
+import { readSseEvents } from '@/lib/sse';
+
+export const TEST_USER: SessionUser = { id: 'tester', name: 'Tester' };
+
+const BASE_URL = 'http://localhost:3000';
+
+/**
+ * A request to an API route as the signed-in `user` (no session cookie when null).
+ */
+export async function apiRequest(path: string, init: RequestInit = {}, user: SessionUser | null = TEST_USER): Promise<NextRequest> {
+    const headers = new Headers(init.headers);
+    if (user) headers.set('Cookie', `${SESSION_COOKIE}=${await createSessionToken(user)}`);
+    if (typeof init.body === 'string' && !headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+    return new NextRequest(new URL(path, BASE_URL), { method: init.method, headers, body: init.body });
+}
+
+export const jsonRequest = (path: string, body: unknown, user?: SessionUser | null) =>
+    apiRequest(path, { method: 'POST', body: JSON.stringify(body) }, user);
+
+// Every event of an SSE reply, with its JSON data parsed
+export async function readEvents(response: Response): Promise<{ event: string; data: Record<string, unknown> }[]> {
+    const events: { event: string; data: Record<string, unknown> }[] = [];
+    for await (const { event, data } of readSseEvents(response.body!)) {
+        events.push({ event, data: JSON.parse(data) });
+    }
+    return events;
+}
+
+// --- Routes behind `fetch` (for ChatClient) ---
+
+type RouteModule = Record<string, unknown>;
+type Handler = (request: NextRequest, context: { params: Promise<Record<string, string>> }) => Promise<Response>;
+
+// Path pattern, the route module serving it and the names of the params captured by the pattern
+const ROUTES: [RegExp, () => Promise<RouteModule>, string[]?][] = [
+    [/^\/api\/auth\/session$/, () => import('@/app/api/auth/session/route')],
+    [/^\/api\/health$/, () => import('@/app/api/health/route')],
+    [/^\/api\/personas$/, () => import('@/app/api/personas/route')],
+    [/^\/api\/compare$/, () => import('@/app/api/compare/route')],
+    [/^\/api\/usage$/, () => import('@/app/api/usage/route')],
+    [/^\/api\/chat$/, () => import('@/app/api/chat/route')],
+    [/^\/api\/image$/, () => import('@/app/api/image/route')],
+    [/^\/api\/background$/, () => import('@/app/api/background/route')],
+    [/^\/api\/conversations$/, () => import('@/app/api/conversations/route')],
+    [/^\/api\/conversations\/([^/]+)$/, () => import('@/app/api/conversations/[id]/route'), ['id']],
+];
+
+/**
+ * A `fetch` that answers relative `/api/...` URLs by calling the route handlers directly, as `user`.
+ * Anything else is refused, so a test never reaches the network.
+ */
+export function routeFetch(user: SessionUser = TEST_USER): typeof fetch {
+    return async (input, init) => {
+        const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url, BASE_URL);
+        const route = ROUTES.find(([pattern]) => pattern.test(url.pathname));
+        if (url.origin !== BASE_URL || !route) throw new TypeError(`No route for ${url.href} in the test fetch.`);
+
+        const handler = (await route[1]())[init?.method || 'GET'] as Handler | undefined;
+        if (!handler) return new Response(null, { status: 405 });
+        const values = url.pathname.match(route[0])!.slice(1);
+        const params = Object.fromEntries((route[2] || []).map((name, index) => [name, decodeURIComponent(values[index])]));
+        const body = typeof init?.body === 'string' ? init.body : undefined;
+        const request = await apiRequest(`${url.pathname}${url.search}`, { method: init?.method, headers: init?.headers, body }, user);
+        return handler(request, { params: Promise.resolve(params) });
+    };
+}
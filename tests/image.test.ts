@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GET as getGallery, POST } from '@/app/api/image/route';
+import { GET as getImage } from '@/app/api/image/[id]/route';
+import { getImageStore } from '@/lib/images';
+import { getUsageReport } from '@/lib/usage';
+import { TEST_USER, apiRequest, jsonRequest } from './helpers';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47];
+const noParams = { params: Promise.resolve({}) };
+
+describe('/api/image (replay)', () => {
+    it('generates an image, stores it in the gallery and serves it to its owner only', async () => {
+        const response = await POST(await jsonRequest('/api/image', { prompt: 'a lighthouse at dusk' }), noParams);
+        expect(response.status).toBe(200);
+        const result = await response.json();
+        expect(result).toMatchObject({ provider: 'gemini', cached: false, images: [{ mimeType: 'image/png' }] });
+        const [image] = result.images;
+
+        const gallery = await (await getGallery(await apiRequest('/api/image'), noParams)).json();
+        expect(gallery.images).toEqual([expect.objectContaining({ id: image.id, prompt: 'a lighthouse at dusk' })]);
+
+        const served = await getImage(await apiRequest(image.url), { params: Promise.resolve({ id: image.id }) });
+        expect(served.status).toBe(200);
+        expect([...new Uint8Array(await served.arrayBuffer()).slice(0, 4)]).toEqual(PNG_SIGNATURE);
+
+        const stranger = await getImage(await apiRequest(image.url, {}, { id: 'stranger', name: 'Stranger' }), { params: Promise.resolve({ id: image.id }) });
+        expect(stranger.status).toBe(404);
+    });
+
+    it('answers an identical request from the cache', async () => {
+        const response = await POST(await jsonRequest('/api/image', { prompt: 'a lighthouse at dusk' }), noParams);
+        expect(response.status).toBe(200);
+        expect((await response.json()).cached).toBe(true);
+    });
+
+    it('returns a blocked prompt as 422 and gives the reserved image back', async () => {
+        const imagesBefore = (await getUsageReport(TEST_USER.id)).used.images;
+        const response = await POST(await jsonRequest('/api/image', { prompt: 'something rude [blocked]' }), noParams);
+        expect(response.status).toBe(422);
+        expect((await response.json()).error.code).toBe('blocked');
+        expect((await getUsageReport(TEST_USER.id)).used.images).toBe(imagesBefore);
+    });
+
+    it('gives the reserved image back when the generated image cannot be stored', async () => {
+        const imagesBefore = (await getUsageReport(TEST_USER.id)).used.images;
+        const addToGallery = vi.spyOn(getImageStore(), 'addToGallery').mockRejectedValueOnce(new Error('disk full'));
+        const response = await POST(await jsonRequest('/api/image', { prompt: 'a harbour at noon' }), noParams);
+        addToGallery.mockRestore();
+        expect(response.status).toBe(500);
+        expect((await getUsageReport(TEST_USER.id)).used.images).toBe(imagesBefore);
+    });
+
+    it('rejects invalid bodies with one detail per problem', async () => {
+        const response = await POST(await jsonRequest('/api/image', { prompt: '', sampleCount: 9 }), noParams);
+        expect(response.status).toBe(400);
+        const { error } = await response.json();
+        expect(error.details.map((detail: { path: string }) => detail.path)).toEqual(expect.arrayContaining(['prompt', 'sampleCount']));
+    });
+});
@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getClientIp } from '@/lib/security';
+
+const signIn = (headers: Record<string, string>) => new NextRequest('http://localhost:3000/api/auth/signin', { method: 'POST', headers });
+
+describe('getClientIp', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('takes the X-Forwarded-For entry the proxy appended, not one the client wrote', () => {
+        expect(getClientIp(signIn({ 'X-Forwarded-For': '1.2.3.4, 203.0.113.7' }))).toBe('203.0.113.7');
+        vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+        expect(getClientIp(signIn({ 'X-Forwarded-For': '1.2.3.4, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+    });
+
+    it('ignores forwarding headers when no proxy is trusted', () => {
+        vi.stubEnv('TRUSTED_PROXY_HOPS', '0');
+        expect(getClientIp(signIn({ 'X-Forwarded-For': '1.2.3.4', 'X-Real-IP': '1.2.3.4' }))).toBe('unknown');
+    });
+
+    it('uses the platform header when one is configured', () => {
+        vi.stubEnv('CLIENT_IP_HEADER', 'x-nf-client-connection-ip');
+        expect(getClientIp(signIn({ 'X-Forwarded-For': '1.2.3.4', 'x-nf-client-connection-ip': '198.51.100.9' }))).toBe('198.51.100.9');
+    });
+});
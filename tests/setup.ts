@@ -0,0 +1,12 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+// Each test file gets its own data directory (users, conversations, usage, images), removed afterwards
+const dataDir = mkdtempSync(path.join(os.tmpdir(), 'fish-and-barrel-test-'));
+process.env.DATA_DIR = dataDir;
+
+afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+});
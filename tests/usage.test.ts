@@ -0,0 +1,23 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { checkAndConsume, getUsageReport } from '@/lib/usage';
+
+const usageDir = () => path.join(process.env.DATA_DIR!, 'usage');
+const todayFile = () => path.join(usageDir(), `${new Date().toISOString().slice(0, 10)}.json`);
+
+describe('daily usage file', () => {
+    it('starts the day over instead of failing every request when the file is damaged', async () => {
+        await fs.mkdir(usageDir(), { recursive: true });
+        await fs.writeFile(todayFile(), '{"users":{"tester":{"chatReq');
+
+        expect(await checkAndConsume('tester', 'chat')).toEqual({ allowed: true });
+        expect((await getUsageReport('tester')).used.chatRequests).toBe(1);
+        expect(JSON.parse(await fs.readFile(todayFile(), 'utf8')).users.tester.chatRequests).toBe(1);
+    });
+
+    it('leaves no temporary files behind', async () => {
+        await Promise.all([1, 2, 3].map(() => checkAndConsume('tester', 'chat')));
+        expect((await fs.readdir(usageDir())).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    });
+});
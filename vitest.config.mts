@@ -0,0 +1,27 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Integration tests run the API routes and ChatClient against the fixtures in fixtures/upstream (UPSTREAM_MODE=replay)
+export default defineConfig({
+    resolve: {
+        alias: { '@': path.resolve(__dirname) },
+    },
+    esbuild: {
+        jsx: 'automatic',
+    },
+    test: {
+        include: ['tests/**/*.test.{ts,tsx}'],
+        setupFiles: ['tests/setup.ts'],
+        env: {
+            UPSTREAM_MODE: 'replay',
+            CHAT_PROVIDER: 'gemini',
+            IMAGE_PROVIDER: 'gemini',
+            AUTH_SECRET: 'test-secret',
+            // Retries are the point of some fixtures, but the tests should not wait for them
+            UPSTREAM_RETRY_BASE_MS: '1',
+            UPSTREAM_RETRY_MAX_MS: '5',
+            UPSTREAM_CIRCUIT_THRESHOLD: '0',
+            LOG_LEVEL: 'error',
+        },
+    },
+});